@@ -1,9 +1,16 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, jsonb, unique, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type RecommendationExplanation, type CalibrationPoint, type ReliabilityBin } from '../schema';
+import { type TermCounts } from '../lib/text_vectors';
 
 // Define enums
 export const mediaTypeEnum = pgEnum('media_type', ['movie', 'tv']);
 export const interactionTypeEnum = pgEnum('interaction_type', ['like', 'dislike', 'watched_liked', 'watched_disliked', 'add_to_watchlist', 'remove_from_watchlist']);
+export const recommendationResponseEnum = pgEnum('recommendation_response', ['accepted', 'skipped', 'snoozed', 'not_interested']);
+export const groupStrategyEnum = pgEnum('group_strategy', ['least_misery', 'average', 'approval']);
+export const groupVoteEnum = pgEnum('group_vote', ['like', 'pass']);
+export const responseScopeEnum = pgEnum('response_scope', ['item', 'genre', 'franchise']);
+export const creditRoleEnum = pgEnum('credit_role', ['cast', 'crew']);
 
 // User profiles table
 export const userProfilesTable = pgTable('user_profiles', {
@@ -24,16 +31,139 @@ export const mediaItemsTable = pgTable('media_items', {
   backdrop_path: text('backdrop_path'), // Nullable
   overview: text('overview').notNull(),
   release_date: text('release_date'), // Nullable, stored as string from TMDB
-  genres: text('genres').array().notNull(), // Array of genre strings
+  // Canonical genre names, a copy of the item's media_item_genres links in link order. The links are the
+  // source of truth; the copy stays because the recommendation, similarity, context and preference filters
+  // match genres with array overlaps in a single query. Written only from the links (see setMediaItemGenres);
+  // repairMediaItemGenreArrays puts back any copy that drifts.
+  genres: text('genres').array().notNull(),
   vote_average: numeric('vote_average', { precision: 3, scale: 1 }).notNull(), // TMDB rating
   vote_count: integer('vote_count').notNull(),
   popularity: numeric('popularity', { precision: 10, scale: 3 }).notNull(),
   adult: boolean('adult').notNull().default(false),
   original_language: text('original_language').notNull(),
+  runtime: integer('runtime'), // Nullable, minutes; per episode for TV shows
+  content_rating: text('content_rating'), // Nullable certification such as PG-13 or TV-Y7
+  tagline: text('tagline'), // Nullable, from details
+  status: text('status'), // Nullable, from details, e.g. Released or Returning Series
+  details_fetched_at: timestamp('details_fetched_at'), // Nullable until details, credits and keywords have been fetched
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Genres table (synced from the TMDB movie and TV genre lists)
+export const genresTable = pgTable('genres', {
+  id: serial('id').primaryKey(),
+  tmdb_id: integer('tmdb_id').unique(), // TMDB genre ID, stable across languages; null for a genre only known by name
+  name: text('name').notNull(), // Canonical (METADATA_LANGUAGE) name, as used in mediaItemsTable.genres
+  localized_names: jsonb('localized_names').$type<Record<string, string>>().notNull().default({}), // Display names by language code, e.g. de-DE
+  media_types: text('media_types').array().$type<('movie' | 'tv')[]>().notNull(), // 'movie' and/or 'tv'
+  synced_at: timestamp('synced_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  // One genre per name among those the provider has not listed
+  uniqueIndex('genres_unlisted_name_unique').on(table.name).where(sql`${table.tmdb_id} is null`),
+]);
+
+// Media item genres table (which genres a media item belongs to)
+export const mediaItemGenresTable = pgTable('media_item_genres', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull(),
+  genre_id: integer('genre_id').notNull(),
+  position: integer('position').notNull(), // Order of the genre on the title, as TMDB lists it
+}, (table) => [
+  unique().on(table.media_item_id, table.genre_id),
+]);
+
+// People table (cast and crew members, shared between titles)
+export const peopleTable = pgTable('people', {
+  id: serial('id').primaryKey(),
+  tmdb_id: integer('tmdb_id').notNull().unique(), // TMDB person ID
+  name: text('name').notNull(),
+  profile_path: text('profile_path'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Media credits table (who appears in or worked on a media item)
+export const mediaCreditsTable = pgTable('media_credits', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull(),
+  person_id: integer('person_id').notNull(),
+  role: creditRoleEnum('role').notNull(),
+  character: text('character'), // Nullable, cast only
+  job: text('job'), // Nullable, crew only
+  department: text('department'), // Nullable, crew only
+  credit_order: integer('credit_order').notNull(), // Billing order within the role
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Keywords table (TMDB keywords, shared between titles)
+export const keywordsTable = pgTable('keywords', {
+  id: serial('id').primaryKey(),
+  tmdb_id: integer('tmdb_id').notNull().unique(), // TMDB keyword ID
+  name: text('name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Media item keywords table (which keywords describe which media item)
+export const mediaItemKeywordsTable = pgTable('media_item_keywords', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull(),
+  keyword_id: integer('keyword_id').notNull(),
+}, (table) => [
+  unique().on(table.media_item_id, table.keyword_id),
+]);
+
+// Seasons table (TV seasons, listed by the show's details)
+export const seasonsTable = pgTable('seasons', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull(),
+  season_number: integer('season_number').notNull(),
+  name: text('name').notNull(),
+  overview: text('overview'), // Nullable
+  air_date: text('air_date'), // Nullable, ISO date string
+  poster_path: text('poster_path'), // Nullable
+  episode_count: integer('episode_count').notNull(),
+  episodes_fetched_at: timestamp('episodes_fetched_at'), // Nullable until the season's episodes have been fetched
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.media_item_id, table.season_number),
+]);
+
+// Episodes table (TV episodes, from season details)
+export const episodesTable = pgTable('episodes', {
+  id: serial('id').primaryKey(),
+  tmdb_id: integer('tmdb_id').notNull().unique(), // TMDB episode ID
+  media_item_id: integer('media_item_id').notNull(),
+  season_id: integer('season_id').notNull(),
+  season_number: integer('season_number').notNull(),
+  episode_number: integer('episode_number').notNull(),
+  name: text('name').notNull(),
+  overview: text('overview'), // Nullable
+  air_date: text('air_date'), // Nullable until announced, ISO date string
+  runtime: integer('runtime'), // Nullable, minutes
+  still_path: text('still_path'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.media_item_id, table.season_number, table.episode_number),
+]);
+
+// Episode progress table (which episodes a user or guest session has watched)
+export const episodeProgressTable = pgTable('episode_progress', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'), // Nullable for guest sessions
+  session_id: text('session_id'), // For guest sessions
+  media_item_id: integer('media_item_id').notNull(),
+  episode_id: integer('episode_id').notNull(),
+  watched_at: timestamp('watched_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.user_id, table.episode_id),
+  unique().on(table.session_id, table.episode_id),
+]);
+
 // User interactions table (likes, dislikes, watched, etc.)
 export const userInteractionsTable = pgTable('user_interactions', {
   id: serial('id').primaryKey(),
@@ -52,9 +182,21 @@ export const recommendationsTable = pgTable('recommendations', {
   session_id: text('session_id'), // For guest sessions
   media_item_id: integer('media_item_id').notNull(),
   reason: text('reason').notNull(), // AI-generated reason
-  score: numeric('score', { precision: 5, scale: 4 }).notNull(), // Confidence score 0-1
+  score: numeric('score', { precision: 5, scale: 4 }).notNull(), // Calibrated probability of a positive outcome 0-1
+  raw_score: numeric('raw_score', { precision: 5, scale: 4 }), // Nullable, uncalibrated ranking score for rows generated since calibration
   shown: boolean('shown').notNull().default(false),
+  shown_at: timestamp('shown_at'), // Nullable, set when served by getNextRecommendation
+  response: recommendationResponseEnum('response'), // Nullable until the user responds
+  responded_at: timestamp('responded_at'), // Nullable
+  resurface_at: timestamp('resurface_at'), // Nullable, only for snoozed recommendations
+  response_scope: responseScopeEnum('response_scope'), // Nullable, only for not_interested
+  response_scope_value: text('response_scope_value'), // Genre name or franchise key for scoped not_interested
+  experiment: text('experiment'), // Nullable, experiment the owner was enrolled in when this row was generated
+  experiment_arm: text('experiment_arm'), // Nullable, ranking strategy arm that produced this row
+  explanation: jsonb('explanation').$type<RecommendationExplanation>(), // Nullable, structured form of reason
+  queue_position: integer('queue_position'), // Nullable, serving order set by the latest generation; rows without one come after, by score
   created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(), // Last time a regeneration confirmed this row
 });
 
 // Watchlist table
@@ -66,17 +208,232 @@ export const watchlistTable = pgTable('watchlist', {
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Item co-occurrence table (collaborative filtering model, rebuilt periodically from user interactions)
+export const itemCooccurrencesTable = pgTable('item_cooccurrences', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull(),
+  related_media_item_id: integer('related_media_item_id').notNull(),
+  co_count: integer('co_count').notNull(), // Number of users/sessions who liked both items
+  similarity: numeric('similarity', { precision: 5, scale: 4 }).notNull(), // Cosine-normalised co-occurrence 0-1
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Feed cache table (which media items a metadata provider feed page listed, and until when that holds)
+export const feedCacheTable = pgTable('feed_cache', {
+  id: serial('id').primaryKey(),
+  feed_key: text('feed_key').notNull().unique(), // e.g. popular:tv:2 or trending:all:day
+  media_item_ids: integer('media_item_ids').array().notNull(), // In the provider's order
+  fetched_at: timestamp('fetched_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+});
+
+// Onboarding profiles table (answers to the cold-start quiz, one per user or guest session)
+export const onboardingProfilesTable = pgTable('onboarding_profiles', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'), // Nullable for guest sessions
+  session_id: text('session_id'), // For guest sessions
+  favourite_genres: text('favourite_genres').array().notNull(),
+  seed_media_item_ids: integer('seed_media_item_ids').array().notNull(), // Quick picks from the seed titles
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.user_id),
+  unique().on(table.session_id),
+]);
+
+// User preferences table (explicit settings and hard exclusions, one per user or guest session)
+export const userPreferencesTable = pgTable('user_preferences', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'), // Nullable for guest sessions
+  session_id: text('session_id'), // For guest sessions
+  preferred_genres: text('preferred_genres').array().notNull(),
+  excluded_genres: text('excluded_genres').array().notNull(), // Never shown
+  allowed_languages: text('allowed_languages').array().notNull(), // original_language values; empty allows all
+  min_release_year: integer('min_release_year'), // Nullable, no lower bound
+  max_release_year: integer('max_release_year'), // Nullable, no upper bound
+  min_vote_average: numeric('min_vote_average', { precision: 3, scale: 1 }), // Nullable
+  min_vote_count: integer('min_vote_count'), // Nullable
+  include_adult: boolean('include_adult').notNull().default(false),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.user_id),
+  unique().on(table.session_id),
+]);
+
+// Media item text vectors table (term counts over title and overview, one per media item)
+export const mediaItemVectorsTable = pgTable('media_item_vectors', {
+  id: serial('id').primaryKey(),
+  media_item_id: integer('media_item_id').notNull().unique(),
+  term_counts: jsonb('term_counts').$type<TermCounts>().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Term document frequencies table (number of vectorised media items containing each term, for IDF weighting)
+export const termDocumentFrequenciesTable = pgTable('term_document_frequencies', {
+  term: text('term').primaryKey(),
+  document_count: integer('document_count').notNull(),
+});
+
+// Score calibrations table (curves fitted from recommendation outcomes; the latest one is used)
+export const scoreCalibrationsTable = pgTable('score_calibrations', {
+  id: serial('id').primaryKey(),
+  points: jsonb('points').$type<CalibrationPoint[]>().notNull(),
+  reliability: jsonb('reliability').$type<ReliabilityBin[]>().notNull(),
+  outcomes: integer('outcomes').notNull(),
+  positives: integer('positives').notNull(),
+  brier_score_raw: numeric('brier_score_raw', { precision: 5, scale: 4 }).notNull(),
+  brier_score_calibrated: numeric('brier_score_calibrated', { precision: 5, scale: 4 }).notNull(),
+  fitted_at: timestamp('fitted_at').defaultNow().notNull(),
+});
+
+// Group sessions table (shared rooms for deciding what to watch together)
+export const groupSessionsTable = pgTable('group_sessions', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(), // Shared with others so they can join
+  name: text('name').notNull(),
+  strategy: groupStrategyEnum('strategy').notNull().default('least_misery'),
+  match_quorum: integer('match_quorum'), // Likes needed for a match; null means every member
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Group members table (users and guest sessions in a group session)
+export const groupMembersTable = pgTable('group_members', {
+  id: serial('id').primaryKey(),
+  group_session_id: integer('group_session_id').notNull(),
+  user_id: integer('user_id'), // Nullable for guest sessions
+  session_id: text('session_id'), // For guest sessions
+  display_name: text('display_name').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Group votes table (each member's swipe on a title in match mode, one per member and title)
+export const groupVotesTable = pgTable('group_votes', {
+  id: serial('id').primaryKey(),
+  group_session_id: integer('group_session_id').notNull(),
+  member_id: integer('member_id').notNull(),
+  media_item_id: integer('media_item_id').notNull(),
+  vote: groupVoteEnum('vote').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.group_session_id, table.member_id, table.media_item_id),
+]);
+
+// Group matches table (titles enough members liked, kept as the group's match history)
+export const groupMatchesTable = pgTable('group_matches', {
+  id: serial('id').primaryKey(),
+  group_session_id: integer('group_session_id').notNull(),
+  media_item_id: integer('media_item_id').notNull(),
+  like_count: integer('like_count').notNull(),
+  member_count: integer('member_count').notNull(), // Group size when the match was made
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.group_session_id, table.media_item_id),
+]);
+
 // Define relations
 export const userProfilesRelations = relations(userProfilesTable, ({ many }) => ({
   interactions: many(userInteractionsTable),
   recommendations: many(recommendationsTable),
   watchlistItems: many(watchlistTable),
+  onboardingProfiles: many(onboardingProfilesTable),
+  preferences: many(userPreferencesTable),
+  groupMemberships: many(groupMembersTable),
+  episodeProgress: many(episodeProgressTable),
 }));
 
 export const mediaItemsRelations = relations(mediaItemsTable, ({ many }) => ({
   interactions: many(userInteractionsTable),
   recommendations: many(recommendationsTable),
   watchlistItems: many(watchlistTable),
+  credits: many(mediaCreditsTable),
+  keywords: many(mediaItemKeywordsTable),
+  seasons: many(seasonsTable),
+  episodes: many(episodesTable),
+  genreLinks: many(mediaItemGenresTable),
+}));
+
+export const genresRelations = relations(genresTable, ({ many }) => ({
+  mediaItems: many(mediaItemGenresTable),
+}));
+
+export const mediaItemGenresRelations = relations(mediaItemGenresTable, ({ one }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [mediaItemGenresTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  genre: one(genresTable, {
+    fields: [mediaItemGenresTable.genre_id],
+    references: [genresTable.id],
+  }),
+}));
+
+export const seasonsRelations = relations(seasonsTable, ({ one, many }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [seasonsTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  episodes: many(episodesTable),
+}));
+
+export const episodesRelations = relations(episodesTable, ({ one, many }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [episodesTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  season: one(seasonsTable, {
+    fields: [episodesTable.season_id],
+    references: [seasonsTable.id],
+  }),
+  progress: many(episodeProgressTable),
+}));
+
+export const episodeProgressRelations = relations(episodeProgressTable, ({ one }) => ({
+  user: one(userProfilesTable, {
+    fields: [episodeProgressTable.user_id],
+    references: [userProfilesTable.id],
+  }),
+  mediaItem: one(mediaItemsTable, {
+    fields: [episodeProgressTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  episode: one(episodesTable, {
+    fields: [episodeProgressTable.episode_id],
+    references: [episodesTable.id],
+  }),
+}));
+
+export const peopleRelations = relations(peopleTable, ({ many }) => ({
+  credits: many(mediaCreditsTable),
+}));
+
+export const mediaCreditsRelations = relations(mediaCreditsTable, ({ one }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [mediaCreditsTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  person: one(peopleTable, {
+    fields: [mediaCreditsTable.person_id],
+    references: [peopleTable.id],
+  }),
+}));
+
+export const keywordsRelations = relations(keywordsTable, ({ many }) => ({
+  mediaItems: many(mediaItemKeywordsTable),
+}));
+
+export const mediaItemKeywordsRelations = relations(mediaItemKeywordsTable, ({ one }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [mediaItemKeywordsTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  keyword: one(keywordsTable, {
+    fields: [mediaItemKeywordsTable.keyword_id],
+    references: [keywordsTable.id],
+  }),
 }));
 
 export const userInteractionsRelations = relations(userInteractionsTable, ({ one }) => ({
@@ -112,6 +469,81 @@ export const watchlistRelations = relations(watchlistTable, ({ one }) => ({
   }),
 }));
 
+export const itemCooccurrencesRelations = relations(itemCooccurrencesTable, ({ one }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [itemCooccurrencesTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+  relatedMediaItem: one(mediaItemsTable, {
+    fields: [itemCooccurrencesTable.related_media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+}));
+
+export const onboardingProfilesRelations = relations(onboardingProfilesTable, ({ one }) => ({
+  user: one(userProfilesTable, {
+    fields: [onboardingProfilesTable.user_id],
+    references: [userProfilesTable.id],
+  }),
+}));
+
+export const userPreferencesRelations = relations(userPreferencesTable, ({ one }) => ({
+  user: one(userProfilesTable, {
+    fields: [userPreferencesTable.user_id],
+    references: [userProfilesTable.id],
+  }),
+}));
+
+export const mediaItemVectorsRelations = relations(mediaItemVectorsTable, ({ one }) => ({
+  mediaItem: one(mediaItemsTable, {
+    fields: [mediaItemVectorsTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+}));
+
+export const groupSessionsRelations = relations(groupSessionsTable, ({ many }) => ({
+  members: many(groupMembersTable),
+  votes: many(groupVotesTable),
+  matches: many(groupMatchesTable),
+}));
+
+export const groupMembersRelations = relations(groupMembersTable, ({ one }) => ({
+  groupSession: one(groupSessionsTable, {
+    fields: [groupMembersTable.group_session_id],
+    references: [groupSessionsTable.id],
+  }),
+  user: one(userProfilesTable, {
+    fields: [groupMembersTable.user_id],
+    references: [userProfilesTable.id],
+  }),
+}));
+
+export const groupVotesRelations = relations(groupVotesTable, ({ one }) => ({
+  groupSession: one(groupSessionsTable, {
+    fields: [groupVotesTable.group_session_id],
+    references: [groupSessionsTable.id],
+  }),
+  member: one(groupMembersTable, {
+    fields: [groupVotesTable.member_id],
+    references: [groupMembersTable.id],
+  }),
+  mediaItem: one(mediaItemsTable, {
+    fields: [groupVotesTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+}));
+
+export const groupMatchesRelations = relations(groupMatchesTable, ({ one }) => ({
+  groupSession: one(groupSessionsTable, {
+    fields: [groupMatchesTable.group_session_id],
+    references: [groupSessionsTable.id],
+  }),
+  mediaItem: one(mediaItemsTable, {
+    fields: [groupMatchesTable.media_item_id],
+    references: [mediaItemsTable.id],
+  }),
+}));
+
 // TypeScript types for the table schemas
 export type UserProfile = typeof userProfilesTable.$inferSelect;
 export type NewUserProfile = typeof userProfilesTable.$inferInsert;
@@ -119,6 +551,33 @@ export type NewUserProfile = typeof userProfilesTable.$inferInsert;
 export type MediaItem = typeof mediaItemsTable.$inferSelect;
 export type NewMediaItem = typeof mediaItemsTable.$inferInsert;
 
+export type Genre = typeof genresTable.$inferSelect;
+export type NewGenre = typeof genresTable.$inferInsert;
+
+export type MediaItemGenre = typeof mediaItemGenresTable.$inferSelect;
+export type NewMediaItemGenre = typeof mediaItemGenresTable.$inferInsert;
+
+export type Person = typeof peopleTable.$inferSelect;
+export type NewPerson = typeof peopleTable.$inferInsert;
+
+export type MediaCredit = typeof mediaCreditsTable.$inferSelect;
+export type NewMediaCredit = typeof mediaCreditsTable.$inferInsert;
+
+export type Keyword = typeof keywordsTable.$inferSelect;
+export type NewKeyword = typeof keywordsTable.$inferInsert;
+
+export type MediaItemKeyword = typeof mediaItemKeywordsTable.$inferSelect;
+export type NewMediaItemKeyword = typeof mediaItemKeywordsTable.$inferInsert;
+
+export type Season = typeof seasonsTable.$inferSelect;
+export type NewSeason = typeof seasonsTable.$inferInsert;
+
+export type Episode = typeof episodesTable.$inferSelect;
+export type NewEpisode = typeof episodesTable.$inferInsert;
+
+export type EpisodeProgress = typeof episodeProgressTable.$inferSelect;
+export type NewEpisodeProgress = typeof episodeProgressTable.$inferInsert;
+
 export type UserInteraction = typeof userInteractionsTable.$inferSelect;
 export type NewUserInteraction = typeof userInteractionsTable.$inferInsert;
 
@@ -128,11 +587,64 @@ export type NewRecommendation = typeof recommendationsTable.$inferInsert;
 export type WatchlistItem = typeof watchlistTable.$inferSelect;
 export type NewWatchlistItem = typeof watchlistTable.$inferInsert;
 
+export type ItemCooccurrence = typeof itemCooccurrencesTable.$inferSelect;
+export type NewItemCooccurrence = typeof itemCooccurrencesTable.$inferInsert;
+
+export type MediaItemVector = typeof mediaItemVectorsTable.$inferSelect;
+export type NewMediaItemVector = typeof mediaItemVectorsTable.$inferInsert;
+
+export type TermDocumentFrequency = typeof termDocumentFrequenciesTable.$inferSelect;
+export type NewTermDocumentFrequency = typeof termDocumentFrequenciesTable.$inferInsert;
+
+export type ScoreCalibration = typeof scoreCalibrationsTable.$inferSelect;
+export type NewScoreCalibration = typeof scoreCalibrationsTable.$inferInsert;
+
+export type GroupSession = typeof groupSessionsTable.$inferSelect;
+export type NewGroupSession = typeof groupSessionsTable.$inferInsert;
+
+export type GroupMember = typeof groupMembersTable.$inferSelect;
+export type NewGroupMember = typeof groupMembersTable.$inferInsert;
+
+export type GroupVote = typeof groupVotesTable.$inferSelect;
+export type NewGroupVote = typeof groupVotesTable.$inferInsert;
+
+export type GroupMatch = typeof groupMatchesTable.$inferSelect;
+export type NewGroupMatch = typeof groupMatchesTable.$inferInsert;
+
+export type FeedCache = typeof feedCacheTable.$inferSelect;
+export type NewFeedCache = typeof feedCacheTable.$inferInsert;
+
+export type OnboardingProfile = typeof onboardingProfilesTable.$inferSelect;
+export type NewOnboardingProfile = typeof onboardingProfilesTable.$inferInsert;
+
+export type UserPreferences = typeof userPreferencesTable.$inferSelect;
+export type NewUserPreferences = typeof userPreferencesTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   userProfiles: userProfilesTable,
   mediaItems: mediaItemsTable,
+  genres: genresTable,
+  mediaItemGenres: mediaItemGenresTable,
+  people: peopleTable,
+  mediaCredits: mediaCreditsTable,
+  keywords: keywordsTable,
+  mediaItemKeywords: mediaItemKeywordsTable,
+  seasons: seasonsTable,
+  episodes: episodesTable,
+  episodeProgress: episodeProgressTable,
   userInteractions: userInteractionsTable,
   recommendations: recommendationsTable,
   watchlist: watchlistTable,
+  itemCooccurrences: itemCooccurrencesTable,
+  feedCache: feedCacheTable,
+  onboardingProfiles: onboardingProfilesTable,
+  userPreferences: userPreferencesTable,
+  mediaItemVectors: mediaItemVectorsTable,
+  termDocumentFrequencies: termDocumentFrequenciesTable,
+  scoreCalibrations: scoreCalibrationsTable,
+  groupSessions: groupSessionsTable,
+  groupMembers: groupMembersTable,
+  groupVotes: groupVotesTable,
+  groupMatches: groupMatchesTable,
 };
\ No newline at end of file
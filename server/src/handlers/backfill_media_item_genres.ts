@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { mediaItemsTable, mediaItemGenresTable } from '../db/schema';
+import { and, eq, notExists, sql } from 'drizzle-orm';
+import { genresByName, setMediaItemGenres, syncGenres } from './list_genres';
+
+export interface GenreBackfillResult {
+  media_items: number; // Media items linked
+  links: number; // Genre links created
+  unmatched: string[]; // Stored genre names the provider does not list, such as 'Unknown'; kept as genres of their own
+}
+
+// Migrates media items stored before genres had their own tables: each item whose genres array has not
+// been linked yet is linked to the genres it names. Names that match no listed genre are stored as genres
+// of their own, so no name is lost. The genre list is synced first; if the provider cannot be reached the
+// standard genre lists stand in. Items that already have links are left alone, so it is safe to run again.
+export async function backfillMediaItemGenres(): Promise<GenreBackfillResult> {
+  try {
+    const mediaItems = await db.select({ id: mediaItemsTable.id, media_type: mediaItemsTable.media_type, genres: mediaItemsTable.genres })
+      .from(mediaItemsTable)
+      .where(and(
+        sql`cardinality(${mediaItemsTable.genres}) > 0`,
+        notExists(db.select().from(mediaItemGenresTable).where(eq(mediaItemGenresTable.media_item_id, mediaItemsTable.id)))
+      ))
+      .execute();
+    if (mediaItems.length === 0) {
+      return { media_items: 0, links: 0, unmatched: [] };
+    }
+
+    try {
+      await syncGenres();
+    } catch (error) {
+      console.error('Syncing genres failed, linking to the standard genres:', error);
+    }
+
+    let links = 0;
+    const unmatched = new Set<string>();
+    for (const item of mediaItems) {
+      const genres = await genresByName(item.genres, item.media_type);
+      genres.filter(genre => genre.tmdb_id === null).forEach(genre => unmatched.add(genre.name));
+
+      await setMediaItemGenres(item.id, genres);
+      links += genres.length;
+    }
+
+    return { media_items: mediaItems.length, links, unmatched: Array.from(unmatched).sort() };
+  } catch (error) {
+    console.error('Genre backfill failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+import { db } from '../db';
+import { groupVotesTable, groupMatchesTable, mediaItemsTable } from '../db/schema';
+import { type CastGroupVoteInput, type CastGroupVoteResult } from '../schema';
+import { eq, and, count } from 'drizzle-orm';
+import { publishGroupMatch } from '../lib/group_events';
+import { votesNeeded } from '../lib/group_recommendations';
+import { getGroupSession } from './get_group_session';
+import { loadGroupMatches } from './get_group_matches';
+
+export async function castGroupVote(input: CastGroupVoteInput): Promise<CastGroupVoteResult> {
+  try {
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    const group = await getGroupSession({ group_session_id: input.group_session_id });
+    const member = group.members.find(candidate => input.user_id
+      ? candidate.user_id === input.user_id
+      : candidate.session_id === input.session_id);
+    if (!member) {
+      throw new Error(`Not a member of group session with id ${group.id}`);
+    }
+
+    const mediaItems = await db.select({ id: mediaItemsTable.id })
+      .from(mediaItemsTable)
+      .where(eq(mediaItemsTable.id, input.media_item_id))
+      .limit(1)
+      .execute();
+
+    if (mediaItems.length === 0) {
+      throw new Error(`Media item with id ${input.media_item_id} does not exist`);
+    }
+
+    // One vote per member and title; swiping again replaces it
+    const [vote] = await db.insert(groupVotesTable)
+      .values({
+        group_session_id: group.id,
+        member_id: member.id,
+        media_item_id: input.media_item_id,
+        vote: input.vote
+      })
+      .onConflictDoUpdate({
+        target: [groupVotesTable.group_session_id, groupVotesTable.member_id, groupVotesTable.media_item_id],
+        set: { vote: input.vote, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    if (input.vote === 'like') {
+      const [{ likes }] = await db.select({ likes: count() })
+        .from(groupVotesTable)
+        .where(and(
+          eq(groupVotesTable.group_session_id, group.id),
+          eq(groupVotesTable.media_item_id, input.media_item_id),
+          eq(groupVotesTable.vote, 'like')
+        ))
+        .execute();
+
+      const needed = votesNeeded(group.match_quorum, group.members.length);
+      if (likes >= needed) {
+        // The unique constraint makes sure only one of several concurrent deciding votes announces the match
+        const created = await db.insert(groupMatchesTable)
+          .values({
+            group_session_id: group.id,
+            media_item_id: input.media_item_id,
+            like_count: likes,
+            member_count: group.members.length
+          })
+          .onConflictDoNothing()
+          .returning()
+          .execute();
+
+        if (created.length > 0) {
+          const [match] = await loadGroupMatches(group.id, { mediaItemId: input.media_item_id });
+          publishGroupMatch(match);
+          return { vote, match };
+        }
+      }
+    }
+
+    // Matches are kept even if a member changes their mind afterwards
+    const [match] = await loadGroupMatches(group.id, { mediaItemId: input.media_item_id });
+    return { vote, match: match ?? null };
+  } catch (error) {
+    console.error('Casting group vote failed:', error);
+    throw error;
+  }
+}
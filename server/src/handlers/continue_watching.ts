@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { mediaItemsTable, episodeProgressTable, seasonsTable, type MediaItem } from '../db/schema';
+import { type ContinueWatchingInput, type ContinueWatchingItem } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { episodeOwnerCondition, loadShowsProgress, syncTvSeasons } from './get_tv_seasons';
+import { detailsAreStale } from '../lib/media_details';
+import { seasonEpisodesAreStale } from '../lib/tv_progress';
+
+// Media item ids of the shows the user or session has watched at least one episode of
+async function watchedShowIds(owner: { user_id?: number; session_id?: string }): Promise<number[]> {
+  const ownerCondition = episodeOwnerCondition(owner);
+  if (!ownerCondition) {
+    return [];
+  }
+  const shows = await db.selectDistinct({ media_item_id: episodeProgressTable.media_item_id })
+    .from(episodeProgressTable)
+    .where(ownerCondition)
+    .execute();
+  return shows.map(show => show.media_item_id);
+}
+
+// Media item ids of the watched shows that still have an aired episode up next, from the episodes
+// already stored; shows the user is caught up on are not in progress
+export async function inProgressShowIds(owner: { user_id?: number; session_id?: string }, now: Date = new Date()): Promise<number[]> {
+  const progress = await loadShowsProgress(owner, await watchedShowIds(owner), now);
+  return progress
+    .filter(show => show.next_episode !== null)
+    .map(show => show.media_item_id);
+}
+
+// Shows whose details or season episodes are due a refresh, checked against every stored season at once
+async function staleShowIds(shows: MediaItem[], now: Date): Promise<number[]> {
+  const seasons = await db.select()
+    .from(seasonsTable)
+    .where(inArray(seasonsTable.media_item_id, shows.map(show => show.id)))
+    .execute();
+  return shows
+    .filter(show => {
+      const showSeasons = seasons.filter(season => season.media_item_id === show.id);
+      const latestSeasonNumber = showSeasons.reduce((latest, season) => Math.max(latest, season.season_number), 0);
+      return detailsAreStale(show, now) || showSeasons.some(season =>
+        seasonEpisodesAreStale(season, show.status, season.season_number === latestSeasonNumber, now)
+      );
+    })
+    .map(show => show.id);
+}
+
+// A show that cannot be synced keeps what is already stored
+async function syncShows(showIds: number[]): Promise<void> {
+  for (const showId of showIds) {
+    try {
+      await syncTvSeasons(showId);
+    } catch (error) {
+      console.error(`Syncing seasons of media item ${showId} failed:`, error);
+    }
+  }
+}
+
+export async function continueWatching(input: ContinueWatchingInput): Promise<ContinueWatchingItem[]> {
+  try {
+    const showIds = await watchedShowIds(input);
+    if (showIds.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    const progress = await loadShowsProgress(input, showIds, now);
+    const shows = await db.select()
+      .from(mediaItemsTable)
+      .where(inArray(mediaItemsTable.id, showIds))
+      .execute();
+    const showsById = new Map(shows.map(show => [show.id, show]));
+
+    // The list is served from what is already stored; shows that are due a refresh are synced in the
+    // background, so new episodes and seasons show up on a later visit
+    syncShows(await staleShowIds(shows, now)).catch(() => {});
+
+    // Most recently watched first; shows the user is caught up on are left out
+    return progress
+      .filter(show => show.next_episode !== null)
+      .sort((a, b) => b.last_watched_at!.getTime() - a.last_watched_at!.getTime() || a.media_item_id - b.media_item_id)
+      .slice(0, input.limit)
+      .map(show => {
+        const mediaItem = showsById.get(show.media_item_id)!;
+        return {
+          ...show,
+          next_episode: show.next_episode!,
+          media_item: {
+            ...mediaItem,
+            vote_average: parseFloat(mediaItem.vote_average),
+            popularity: parseFloat(mediaItem.popularity)
+          }
+        };
+      });
+  } catch (error) {
+    console.error('Continue watching failed:', error);
+    throw error;
+  }
+}
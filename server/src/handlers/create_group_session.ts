@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { groupSessionsTable, type GroupSession as GroupSessionRow } from '../db/schema';
+import { type CreateGroupSessionInput, type GroupSession } from '../schema';
+import { eq } from 'drizzle-orm';
+import { addGroupMember } from './join_group_session';
+import { getGroupSession } from './get_group_session';
+
+// Short enough to read out across the sofa, without characters that are easily confused (0/O, 1/I/L)
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 6;
+// Codes drawn before giving up when every one is already taken
+const CODE_ATTEMPTS = 5;
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+function generateCode(): string {
+  return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === UNIQUE_VIOLATION;
+}
+
+export async function createGroupSession(input: CreateGroupSessionInput): Promise<GroupSession> {
+  try {
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    // Codes are random, so a clash with an existing group is retried with a fresh one
+    let created: GroupSessionRow[] = [];
+    for (let attempt = 1; created.length === 0; attempt++) {
+      try {
+        created = await db.insert(groupSessionsTable)
+          .values({
+            code: generateCode(),
+            name: input.name,
+            strategy: input.strategy ?? 'least_misery',
+            match_quorum: input.match_quorum ?? null
+          })
+          .returning()
+          .execute();
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= CODE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+
+    // The creator is the first member; an invalid creator leaves no empty group behind
+    try {
+      await addGroupMember(created[0].id, input);
+    } catch (error) {
+      await db.delete(groupSessionsTable)
+        .where(eq(groupSessionsTable.id, created[0].id))
+        .execute();
+      throw error;
+    }
+
+    return await getGroupSession({ group_session_id: created[0].id });
+  } catch (error) {
+    console.error('Group session creation failed:', error);
+    throw error;
+  }
+}
@@ -2,9 +2,22 @@ import { db } from '../db';
 import { mediaItemsTable } from '../db/schema';
 import { type CreateMediaItemInput, type MediaItem } from '../schema';
 import { eq } from 'drizzle-orm';
+import { refreshMediaItemVector } from './rebuild_text_vectors';
+import { genresByName, resolveGenres, setMediaItemGenres } from './list_genres';
 
 export const createMediaItem = async (input: CreateMediaItemInput): Promise<MediaItem> => {
   try {
+    // Genre IDs are looked up in the genres table; names given without IDs are linked, as genres of their
+    // own where no genre has the name. If the IDs cannot all be resolved, names given alongside them are
+    // used when they link more genres.
+    let genres = input.genre_ids ? await resolveGenres(input.genre_ids) : [];
+    if (!input.genre_ids || genres.length < input.genre_ids.length) {
+      const named = await genresByName(input.genres, input.media_type);
+      if (named.length > genres.length) {
+        genres = named;
+      }
+    }
+
     // Check if media item with this tmdb_id already exists
     const existingItems = await db.select()
       .from(mediaItemsTable)
@@ -21,20 +34,24 @@ export const createMediaItem = async (input: CreateMediaItemInput): Promise<Medi
           backdrop_path: input.backdrop_path,
           overview: input.overview,
           release_date: input.release_date,
-          genres: input.genres,
           vote_average: input.vote_average.toString(), // Convert to string for numeric column
           vote_count: input.vote_count,
           popularity: input.popularity.toString(), // Convert to string for numeric column
           adult: input.adult,
           original_language: input.original_language,
+          runtime: input.runtime,
+          content_rating: input.content_rating,
           updated_at: new Date()
         })
         .where(eq(mediaItemsTable.tmdb_id, input.tmdb_id))
         .returning()
         .execute();
 
+      // Link the item's genres, which also fills in its genres array, and keep its text vector in step
+      const mediaItem = await setMediaItemGenres(result[0].id, genres);
+      await refreshMediaItemVector(mediaItem);
+
       // Convert numeric fields back to numbers before returning
-      const mediaItem = result[0];
       return {
         ...mediaItem,
         vote_average: parseFloat(mediaItem.vote_average),
@@ -51,18 +68,23 @@ export const createMediaItem = async (input: CreateMediaItemInput): Promise<Medi
           backdrop_path: input.backdrop_path,
           overview: input.overview,
           release_date: input.release_date,
-          genres: input.genres,
+          genres: [], // Written from the genre links below
           vote_average: input.vote_average.toString(), // Convert to string for numeric column
           vote_count: input.vote_count,
           popularity: input.popularity.toString(), // Convert to string for numeric column
           adult: input.adult,
-          original_language: input.original_language
+          original_language: input.original_language,
+          runtime: input.runtime,
+          content_rating: input.content_rating
         })
         .returning()
         .execute();
 
+      // Link the item's genres, which also fills in its genres array, and keep its text vector in step
+      const mediaItem = await setMediaItemGenres(result[0].id, genres);
+      await refreshMediaItemVector(mediaItem);
+
       // Convert numeric fields back to numbers before returning
-      const mediaItem = result[0];
       return {
         ...mediaItem,
         vote_average: parseFloat(mediaItem.vote_average),
@@ -73,4 +95,17 @@ export const createMediaItem = async (input: CreateMediaItemInput): Promise<Medi
     console.error('Media item creation/update failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Stores items fetched from the metadata provider, skipping any that fail so one bad record does not lose the rest
+export async function storeMediaItems(items: CreateMediaItemInput[]): Promise<MediaItem[]> {
+  const stored: MediaItem[] = [];
+  for (const item of items) {
+    try {
+      stored.push(await createMediaItem(item));
+    } catch (error) {
+      console.error('Failed to store media item:', item.tmdb_id, error);
+    }
+  }
+  return stored;
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { db } from '../db';
+import { recommendationsTable, scoreCalibrationsTable, userInteractionsTable } from '../db/schema';
+import { type ScoreCalibration, type CalibrationPoint } from '../schema';
+import { desc, eq, inArray, lt } from 'drizzle-orm';
+import { brierScore, calibrate, exposureOutcome, fitIsotonic, reliabilityBins, type LaterInteraction, MIN_CALIBRATION_OUTCOMES } from '../lib/calibration';
+import { ownerKey } from '../lib/collaborative';
+
+export function toScoreCalibration(row: typeof scoreCalibrationsTable.$inferSelect): ScoreCalibration {
+  return {
+    ...row,
+    brier_score_raw: parseFloat(row.brier_score_raw),
+    brier_score_calibrated: parseFloat(row.brier_score_calibrated)
+  };
+}
+
+// The curve of the latest fit; empty (scores left as they are) until one has been fitted
+export async function loadCalibrationCurve(): Promise<CalibrationPoint[]> {
+  const latest = await db.select({ points: scoreCalibrationsTable.points })
+    .from(scoreCalibrationsTable)
+    .orderBy(desc(scoreCalibrationsTable.id))
+    .limit(1)
+    .execute();
+  return latest[0]?.points ?? [];
+}
+
+export async function fitScoreCalibration(): Promise<ScoreCalibration> {
+  try {
+    const now = new Date();
+    const shown = await db.select({
+      user_id: recommendationsTable.user_id,
+      session_id: recommendationsTable.session_id,
+      media_item_id: recommendationsTable.media_item_id,
+      score: recommendationsTable.score,
+      raw_score: recommendationsTable.raw_score,
+      response: recommendationsTable.response,
+      shown_at: recommendationsTable.shown_at
+    })
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.shown, true))
+      .execute();
+
+    // What each owner went on to do with the titles they were shown
+    const shownMediaIds = Array.from(new Set(shown.map(row => row.media_item_id)));
+    const interactions = shownMediaIds.length > 0
+      ? await db.select()
+          .from(userInteractionsTable)
+          .where(inArray(userInteractionsTable.media_item_id, shownMediaIds))
+          .execute()
+      : [];
+    const interactionsByOwnerItem = new Map<string, LaterInteraction[]>();
+    interactions.forEach(interaction => {
+      const key = `${ownerKey(interaction.user_id, interaction.session_id)}:${interaction.media_item_id}`;
+      const list = interactionsByOwnerItem.get(key) ?? [];
+      list.push({ interaction_type: interaction.interaction_type, occurred_at: interaction.updated_at });
+      interactionsByOwnerItem.set(key, list);
+    });
+
+    // Rows from before calibration only have the raw score, stored as their score
+    const outcomes = shown.flatMap(row => {
+      const key = `${ownerKey(row.user_id, row.session_id)}:${row.media_item_id}`;
+      const positive = exposureOutcome(row, interactionsByOwnerItem.get(key) ?? [], now);
+      return positive === null ? [] : [{ raw_score: parseFloat(row.raw_score ?? row.score), positive }];
+    });
+
+    const points = outcomes.length >= MIN_CALIBRATION_OUTCOMES ? fitIsotonic(outcomes) : [];
+    const calibrated = outcomes.map(outcome => ({ predicted: calibrate(outcome.raw_score, points), positive: outcome.positive }));
+
+    // Only the latest fit is used, so it replaces the ones before it
+    const row = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(scoreCalibrationsTable)
+        .values({
+          points,
+          reliability: reliabilityBins(calibrated),
+          outcomes: outcomes.length,
+          positives: outcomes.filter(outcome => outcome.positive).length,
+          brier_score_raw: brierScore(outcomes.map(outcome => ({ predicted: outcome.raw_score, positive: outcome.positive }))).toFixed(4),
+          brier_score_calibrated: brierScore(calibrated).toFixed(4)
+        })
+        .returning()
+        .execute();
+      await tx.delete(scoreCalibrationsTable)
+        .where(lt(scoreCalibrationsTable.id, inserted.id))
+        .execute();
+      return inserted;
+    });
+
+    return toScoreCalibration(row);
+  } catch (error) {
+    console.error('Score calibration fit failed:', error);
+    throw error;
+  }
+}
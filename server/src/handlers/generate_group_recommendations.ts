@@ -0,0 +1,147 @@
+import { db } from '../db';
+import { mediaItemsTable, userInteractionsTable, groupMatchesTable, groupVotesTable } from '../db/schema';
+import { type GroupRecommendationsInput, type GroupRecommendation } from '../schema';
+import { eq, and, desc, notInArray, arrayOverlaps, type SQL } from 'drizzle-orm';
+import { buildPreferenceModel, netWeight, scoreCandidate } from '../lib/preference_model';
+import { aggregateGroupScore, decidedTitles, describeGroupPick, votesNeeded, APPROVAL_THRESHOLD } from '../lib/group_recommendations';
+import { mergeCandidatePools, poolQuotas } from '../lib/candidate_pools';
+import { preferenceConditions } from '../lib/preference_filters';
+import { getGroupSession } from './get_group_session';
+import { getUserPreferences } from './get_user_preferences';
+
+// Candidates gathered for each slot of the batch
+const CANDIDATES_PER_SLOT = 8;
+
+export async function generateGroupRecommendations(input: GroupRecommendationsInput): Promise<GroupRecommendation[]> {
+  try {
+    const group = await getGroupSession({ group_session_id: input.group_session_id });
+    const strategy = input.strategy ?? group.strategy;
+
+    if (group.members.length === 0) {
+      throw new Error(`Group session with id ${group.id} has no members`);
+    }
+
+    // Each member's own taste, learned from their interactions, and their hard exclusions
+    const now = new Date();
+    const members = await Promise.all(group.members.map(async member => {
+      const signals = await db.select({
+        media_item_id: userInteractionsTable.media_item_id,
+        interaction_type: userInteractionsTable.interaction_type,
+        title: mediaItemsTable.title,
+        genres: mediaItemsTable.genres,
+        media_type: mediaItemsTable.media_type,
+        original_language: mediaItemsTable.original_language,
+        occurred_at: userInteractionsTable.updated_at
+      })
+        .from(userInteractionsTable)
+        .innerJoin(mediaItemsTable, eq(userInteractionsTable.media_item_id, mediaItemsTable.id))
+        .where(member.user_id
+          ? eq(userInteractionsTable.user_id, member.user_id)
+          : eq(userInteractionsTable.session_id, member.session_id as string))
+        .execute();
+      const preferences = await getUserPreferences({
+        user_id: member.user_id ?? undefined,
+        session_id: member.session_id ?? undefined
+      });
+      return { member, signals, preferences, model: buildPreferenceModel(signals, { now }) };
+    }));
+
+    // Every member's hard exclusions apply to the whole group
+    const candidateConditions: SQL<unknown>[] = members.flatMap(({ preferences }) =>
+      preferences ? preferenceConditions(preferences) : []
+    );
+
+    // Nothing any member disliked is suggested to the group
+    const dislikedIds = Array.from(new Set(members.flatMap(({ signals }) => signals
+      .filter(signal => signal.interaction_type === 'dislike' || signal.interaction_type === 'watched_disliked')
+      .map(signal => signal.media_item_id))));
+    // ...and titles the group has already matched on drop out of the shared stream
+    const matched = await db.select({ media_item_id: groupMatchesTable.media_item_id })
+      .from(groupMatchesTable)
+      .where(eq(groupMatchesTable.group_session_id, group.id))
+      .execute();
+    // ...as do titles every member has swiped on, or that too many passes have put out of reach
+    const votes = await db.select({
+      member_id: groupVotesTable.member_id,
+      media_item_id: groupVotesTable.media_item_id,
+      vote: groupVotesTable.vote
+    })
+      .from(groupVotesTable)
+      .where(eq(groupVotesTable.group_session_id, group.id))
+      .execute();
+    const decidedIds = decidedTitles(
+      votes,
+      group.members.map(member => member.id),
+      votesNeeded(group.match_quorum, group.members.length)
+    );
+    const excludedIds = [...dislikedIds, ...matched.map(match => match.media_item_id), ...decidedIds];
+    if (excludedIds.length > 0) {
+      candidateConditions.push(notInArray(mediaItemsTable.id, excludedIds));
+    }
+
+    // Candidates: the best rated titles in genres any member enjoys, plus what is popular
+    const likedGenres = Array.from(new Set(members.flatMap(({ model }) => Array.from(model.genres.entries())
+      .filter(([, feature]) => netWeight(feature) > 0)
+      .map(([genre]) => genre))));
+    const quotas = poolQuotas(input.limit * CANDIDATES_PER_SLOT);
+    const genreMatched = likedGenres.length > 0
+      ? await db.select()
+          .from(mediaItemsTable)
+          .where(and(arrayOverlaps(mediaItemsTable.genres, likedGenres), ...candidateConditions))
+          .orderBy(desc(mediaItemsTable.vote_average), desc(mediaItemsTable.popularity))
+          .limit(quotas.genre_matched)
+          .execute()
+      : [];
+    const trending = await db.select()
+      .from(mediaItemsTable)
+      .where(and(...candidateConditions))
+      .orderBy(desc(mediaItemsTable.popularity), desc(mediaItemsTable.vote_average))
+      .limit(quotas.trending)
+      .execute();
+    const candidates = mergeCandidatePools({ genre_matched: genreMatched, trending }, quotas);
+
+    // Score every candidate for every member, then combine the scores with the group's strategy
+    const displayNames = members.map(({ member }) => member.display_name);
+    const ranked = candidates.map(candidate => {
+      const item = {
+        ...candidate,
+        vote_average: parseFloat(candidate.vote_average),
+        popularity: parseFloat(candidate.popularity)
+      };
+      const memberScores = members.map(({ member, model }) => {
+        const { score } = scoreCandidate(item, model);
+        return {
+          member_id: member.id,
+          display_name: member.display_name,
+          score,
+          satisfied: score >= APPROVAL_THRESHOLD
+        };
+      });
+      const scores = memberScores.map(memberScore => memberScore.score);
+      return {
+        item,
+        score: aggregateGroupScore(scores, strategy),
+        average: aggregateGroupScore(scores, 'average'),
+        memberScores
+      };
+    });
+
+    // Higher group score first; the average breaks ties, which matters most for approval voting
+    ranked.sort((a, b) => b.score - a.score || b.average - a.average || a.item.id - b.item.id);
+
+    return ranked.slice(0, input.limit).map(({ item, score, memberScores }) => {
+      const { sources: _sources, ...mediaItem } = item;
+      const satisfied = memberScores.filter(memberScore => memberScore.satisfied).map(memberScore => memberScore.display_name);
+      return {
+        media_item: mediaItem,
+        score,
+        strategy,
+        reason: describeGroupPick(satisfied, displayNames),
+        member_scores: memberScores
+      };
+    });
+  } catch (error) {
+    console.error('Generate group recommendations failed:', error);
+    throw error;
+  }
+}
@@ -1,20 +1,66 @@
 import { db } from '../db';
-import { mediaItemsTable, userInteractionsTable, recommendationsTable } from '../db/schema';
+import { mediaItemsTable, userInteractionsTable, recommendationsTable, itemCooccurrencesTable, onboardingProfilesTable } from '../db/schema';
 import { type GetRecommendationsInput, type Recommendation } from '../schema';
-import { eq, and, or, notInArray, sql, desc } from 'drizzle-orm';
+import { eq, and, or, not, inArray, notInArray, arrayOverlaps, sql, desc } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
+import { addFavouriteGenres, buildPreferenceModel, netWeight, preferredMediaTypes, scoreCandidate, type PreferenceSignal } from '../lib/preference_model';
+import { blendCollaborative, collaborativeScores, ownerKey } from '../lib/collaborative';
+import { genreCap, reachesGenreCap, rerankForDiversity } from '../lib/diversity';
+import { buildResponseExclusions, isExcluded } from '../lib/recommendation_responses';
+import { ACTIVE_EXPERIMENT, resolveArm } from '../lib/experiments';
+import { buildGenrePosteriors, pickExplorations, settledGenres, type GenreEvidence, type Random } from '../lib/exploration';
+import { explanationReason } from '../lib/explanations';
+import { onboardingStrength } from '../lib/onboarding';
+import { preferenceConditions } from '../lib/preference_filters';
+import { mergeCandidatePools, poolQuotas } from '../lib/candidate_pools';
+import { contentSimilarity, cosineSimilarity } from '../lib/content_similarity';
+import { applyContext, contextConditions } from '../lib/context';
+import { calibrate } from '../lib/calibration';
+import { getUserPreferences } from './get_user_preferences';
+import { loadTextVectors } from './rebuild_text_vectors';
+import { loadCalibrationCurve } from './fit_score_calibration';
+import { inProgressShowIds } from './continue_watching';
 
-export async function generateRecommendations(input: GetRecommendationsInput): Promise<Recommendation[]> {
-  try {
-    const { user_id, session_id, limit } = input;
+// Share of the final score taken from collaborative filtering when the request does not specify one
+const DEFAULT_COLLABORATIVE_WEIGHT = 0.3;
+// Relevance/variety trade-off used when the request does not specify one
+const DEFAULT_DIVERSITY = 0.3;
+// Chance that any slot of a batch is used to explore when the request does not specify one
+const DEFAULT_EXPLORATION_RATE = 0.1;
+// Candidates gathered across all sources for each slot of the batch
+const CANDIDATES_PER_SLOT = 8;
+// Rows fetched per quota slot, so pools still fill their quota after de-duplication
+const POOL_OVERSAMPLE = 2;
+// Most recent likes used to find content-similar candidates
+const SIMILARITY_SOURCES = 5;
+// Shown recommendations without any interaction are not recommended again for this long
+const IGNORED_COOLDOWN_DAYS = 14;
+// Unshown recommendations that no regeneration has confirmed for this long are expired
+const STALE_AFTER_HOURS = 72;
 
+const HOUR_MS = 60 * 60 * 1000;
 
+export interface GenerateRecommendationsOptions {
+  random?: Random; // Source of the exploration draws; Math.random unless a test pins it down
+}
+
+export async function generateRecommendations(
+  input: GetRecommendationsInput,
+  options: GenerateRecommendationsOptions = {}
+): Promise<Recommendation[]> {
+  try {
+    const { user_id, session_id, limit } = input;
 
     // Validate input - must have either user_id or session_id
     if (!user_id && !session_id) {
       throw new Error('Either user_id or session_id must be provided');
     }
 
+    // Owners are bucketed into an arm of the active experiment, which decides the ranking settings
+    const arm = resolveArm(ACTIVE_EXPERIMENT, ownerKey(user_id, session_id), input);
+    const settings = { ...input, ...arm?.settings };
+    const collaborativeWeight = settings.collaborative_weight ?? DEFAULT_COLLABORATIVE_WEIGHT;
+
     // Get user's interactions to understand preferences
     // Build the where condition based on what we have
     const userInteractions = await (async () => {
@@ -24,7 +70,8 @@ export async function generateRecommendations(input: GetRecommendationsInput): P
         title: mediaItemsTable.title,
         genres: mediaItemsTable.genres,
         media_type: mediaItemsTable.media_type,
-        vote_average: mediaItemsTable.vote_average
+        original_language: mediaItemsTable.original_language,
+        occurred_at: userInteractionsTable.updated_at // Changing an interaction makes it current again
       })
       .from(userInteractionsTable)
       .innerJoin(mediaItemsTable, eq(userInteractionsTable.media_item_id, mediaItemsTable.id));
@@ -46,133 +93,397 @@ export async function generateRecommendations(input: GetRecommendationsInput): P
     // Get list of media items user has already interacted with
     const interactedMediaIds = userInteractions.map(interaction => interaction.media_item_id);
 
-    // Analyze preferences
-    const likedItems = userInteractions.filter(item => 
-      ['like', 'watched_liked'].includes(item.interaction_type)
-    );
-    const dislikedItems = userInteractions.filter(item => 
-      ['dislike', 'watched_disliked'].includes(item.interaction_type)
-    );
+    // Load this owner's existing recommendation queue
+    const ownerCondition = user_id
+      ? eq(recommendationsTable.user_id, user_id)
+      : eq(recommendationsTable.session_id, session_id as string);
+    const existingRecommendations = await db.select()
+      .from(recommendationsTable)
+      .where(ownerCondition)
+      .execute();
+
+    // Explicit preferences: preferred genres count as liked, exclusions are never recommended
+    const preferences = await getUserPreferences({ user_id, session_id });
+
+    // Onboarding answers stand in for real interactions until enough of those exist
+    const onboardingProfiles = await db.select()
+      .from(onboardingProfilesTable)
+      .where(user_id
+        ? eq(onboardingProfilesTable.user_id, user_id)
+        : eq(onboardingProfilesTable.session_id, session_id as string))
+      .limit(1)
+      .execute();
+    const onboardingProfile = onboardingProfiles[0];
+    const realSignals = userInteractions
+      .filter(interaction => interaction.interaction_type !== 'add_to_watchlist' && interaction.interaction_type !== 'remove_from_watchlist')
+      .length;
+    const onboardingWeight = onboardingProfile ? onboardingStrength(realSignals) : 0;
+    const seedMediaIds = onboardingProfile?.seed_media_item_ids ?? [];
+    const seedSignals: PreferenceSignal[] = onboardingWeight > 0 && seedMediaIds.length > 0
+      ? (await db.select({
+          media_item_id: mediaItemsTable.id,
+          title: mediaItemsTable.title,
+          genres: mediaItemsTable.genres,
+          media_type: mediaItemsTable.media_type,
+          original_language: mediaItemsTable.original_language
+        })
+          .from(mediaItemsTable)
+          .where(inArray(mediaItemsTable.id, seedMediaIds))
+          .execute())
+          .filter(seed => !interactedMediaIds.includes(seed.media_item_id))
+          .map(seed => ({ ...seed, interaction_type: 'like' as const, strength: onboardingWeight }))
+      : [];
+
+    // Honour responses to earlier recommendations: accepted and "not interested" items never come back,
+    // snoozed items wait for their resurface date, skipped or ignored items cool down.
+    // Onboarding picks are titles the user already knows.
+    const now = new Date();
+    const exclusions = buildResponseExclusions(existingRecommendations, now, IGNORED_COOLDOWN_DAYS);
+    // Shows the user is part way through belong in continue watching, not among new recommendations
+    const inProgressIds = await inProgressShowIds({ user_id, session_id }, now);
+    const excludedMediaIds = Array.from(new Set([...interactedMediaIds, ...seedMediaIds, ...exclusions.media_item_ids, ...inProgressIds]));
 
-    // Extract preferred genres and media types
-    const likedGenres = new Set<string>();
-    const likedMediaTypes = new Set<string>();
-    
-    likedItems.forEach(item => {
-      item.genres.forEach(genre => likedGenres.add(genre));
-      likedMediaTypes.add(item.media_type);
+    // Learn positive and negative weights per genre, media type and language, favouring recent interactions
+    const preferenceModel = buildPreferenceModel([...userInteractions, ...seedSignals], {
+      now,
+      half_life_days: settings.half_life_days
     });
+    addFavouriteGenres(preferenceModel, onboardingProfile?.favourite_genres ?? [], onboardingWeight);
+    addFavouriteGenres(preferenceModel, preferences?.preferred_genres ?? [], 1);
+    const likedMediaTypes = preferredMediaTypes(preferenceModel);
 
-    // Get potential recommendations - exclude already interacted items
+    // Get potential recommendations - exclude already interacted and cooling down items
     // Build conditions for filtering
     const candidateConditions: SQL<unknown>[] = [];
 
-    // Exclude items user has already interacted with
-    if (interactedMediaIds.length > 0) {
-      candidateConditions.push(notInArray(mediaItemsTable.id, interactedMediaIds));
+    // Exclude items user has already interacted with or recently ignored
+    if (excludedMediaIds.length > 0) {
+      candidateConditions.push(notInArray(mediaItemsTable.id, excludedMediaIds));
     }
 
-    // Filter by preferred media types if we have preferences
-    if (likedMediaTypes.size > 0 && likedMediaTypes.size < 2) { // Only if clear preference
-      const preferredType = Array.from(likedMediaTypes)[0] as 'movie' | 'tv';
-      candidateConditions.push(eq(mediaItemsTable.media_type, preferredType));
+    // Exclude genres the user said they are not interested in
+    if (exclusions.genres.size > 0) {
+      candidateConditions.push(not(arrayOverlaps(mediaItemsTable.genres, Array.from(exclusions.genres))));
     }
 
-    // Execute query with proper conditional where clause
-    const candidates = candidateConditions.length > 0 
+    // Enforce the user's hard exclusions (genres, languages, release years, ratings, adult content)
+    if (preferences) {
+      candidateConditions.push(...preferenceConditions(preferences));
+    }
+
+    // Apply the request context: media type, runtime, audience and release years
+    candidateConditions.push(...contextConditions(input));
+
+    // Filter by preferred media types if we have preferences and the request did not ask for one
+    if (!input.media_type && likedMediaTypes.length === 1) { // Only if clear preference
+      candidateConditions.push(eq(mediaItemsTable.media_type, likedMediaTypes[0]));
+    }
+
+    // Each candidate source fills its own share of the budget, oversampled so de-duplication leaves enough
+    const quotas = poolQuotas(limit * CANDIDATES_PER_SLOT);
+    const fetchPool = (size: number, orderBy: SQL<unknown>[], condition?: SQL<unknown>) =>
+      db.select()
+        .from(mediaItemsTable)
+        .where(and(...candidateConditions, condition))
+        .orderBy(...orderBy)
+        .limit(size * POOL_OVERSAMPLE)
+        .execute();
+
+    // Genre rewards: the owner's interactions, plus responses to recommendations they never interacted with
+    const evidence: GenreEvidence[] = userInteractions
+      .filter(interaction => interaction.interaction_type !== 'remove_from_watchlist')
+      .map(interaction => ({
+        genres: interaction.genres,
+        reward: ['dislike', 'watched_disliked'].includes(interaction.interaction_type) ? 0 : 1
+      }));
+    const respondedIds = existingRecommendations
+      .filter(rec => rec.response && rec.response !== 'snoozed' && !interactedMediaIds.includes(rec.media_item_id))
+      .map(rec => rec.media_item_id);
+    if (respondedIds.length > 0) {
+      const respondedItems = await db.select({ id: mediaItemsTable.id, genres: mediaItemsTable.genres })
+        .from(mediaItemsTable)
+        .where(inArray(mediaItemsTable.id, respondedIds))
+        .execute();
+      const genresById = new Map(respondedItems.map(item => [item.id, item.genres]));
+      existingRecommendations
+        .filter(rec => respondedIds.includes(rec.media_item_id))
+        .forEach(rec => evidence.push({
+          genres: genresById.get(rec.media_item_id) ?? [],
+          reward: rec.response === 'accepted' ? 1 : 0
+        }));
+    }
+    const genrePosteriors = buildGenrePosteriors(evidence);
+
+    // Genres the owner has shown any taste for, positive or negative, and those they enjoy
+    const knownGenres = Array.from(preferenceModel.genres.keys());
+    const likedGenres = knownGenres.filter(genre => netWeight(preferenceModel.genres.get(genre)) > 0);
+
+    // Genre-matched: the best rated titles in genres the owner enjoys, however niche; top rated overall at cold start
+    const genreMatchedPool = await fetchPool(
+      quotas.genre_matched,
+      [desc(mediaItemsTable.vote_average), desc(mediaItemsTable.popularity)],
+      likedGenres.length > 0 ? arrayOverlaps(mediaItemsTable.genres, likedGenres) : undefined
+    );
+    const trendingPool = await fetchPool(
+      quotas.trending,
+      [desc(mediaItemsTable.popularity), desc(mediaItemsTable.vote_average)]
+    );
+    const recentlyAddedPool = await fetchPool(
+      quotas.recently_added,
+      [desc(mediaItemsTable.created_at), desc(mediaItemsTable.id)]
+    );
+    // Exploration: popular titles from genres the owner's reactions have not settled yet, including genres
+    // they have only a little history with, so Thompson sampling has their posteriors to draw from
+    const settled = settledGenres(genrePosteriors);
+    const explorationSourcePool = await fetchPool(
+      quotas.exploration,
+      [desc(mediaItemsTable.popularity), desc(mediaItemsTable.vote_average)],
+      settled.length > 0 ? not(arrayOverlaps(mediaItemsTable.genres, settled)) : undefined
+    );
+
+    // Items that other users and sessions liked alongside this user's likes
+    const likedMediaIds = preferenceModel.liked_items.map(item => item.media_item_id);
+    const cooccurrences = likedMediaIds.length > 0
       ? await db.select()
-          .from(mediaItemsTable)
-          .where(candidateConditions.length === 1 ? candidateConditions[0] : and(...candidateConditions))
-          .orderBy(desc(mediaItemsTable.vote_average), desc(mediaItemsTable.popularity))
-          .limit(limit * 3)
+          .from(itemCooccurrencesTable)
+          .where(inArray(itemCooccurrencesTable.media_item_id, likedMediaIds))
           .execute()
-      : await db.select()
+      : [];
+    const collaborative = collaborativeScores(
+      cooccurrences
+        .filter(pair => !excludedMediaIds.includes(pair.related_media_item_id))
+        .map(pair => ({ ...pair, similarity: parseFloat(pair.similarity) })),
+      preferenceModel.liked_items
+    );
+
+    // Similar to liked: collaborative neighbours first, then titles whose content resembles recent likes
+    const neighbourIds = Array.from(collaborative.entries())
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, quotas.similar_to_liked * POOL_OVERSAMPLE)
+      .map(([id]) => id);
+    const neighbourCandidates = neighbourIds.length > 0
+      ? (await db.select()
           .from(mediaItemsTable)
-          .orderBy(desc(mediaItemsTable.vote_average), desc(mediaItemsTable.popularity))
-          .limit(limit * 3)
-          .execute();
+          .where(and(inArray(mediaItemsTable.id, neighbourIds), ...candidateConditions))
+          .execute())
+          .sort((a, b) => collaborative.get(b.id)!.score - collaborative.get(a.id)!.score)
+      : [];
+    const recentLikeIds = Array.from(new Set(
+      [...preferenceModel.liked_items]
+        .sort((a, b) => (b.occurred_at?.getTime() ?? 0) - (a.occurred_at?.getTime() ?? 0))
+        .map(item => item.media_item_id)
+    )).slice(0, SIMILARITY_SOURCES);
+    const recentLikes = recentLikeIds.length > 0
+      ? (await db.select()
+          .from(mediaItemsTable)
+          .where(inArray(mediaItemsTable.id, recentLikeIds))
+          .execute())
+          .map(item => ({ ...item, vote_average: parseFloat(item.vote_average) }))
+      : [];
+    const recentLikeGenres = Array.from(new Set(recentLikes.flatMap(item => item.genres)));
+    const similarityPool = recentLikeGenres.length > 0
+      ? await fetchPool(
+          quotas.similar_to_liked * POOL_OVERSAMPLE,
+          [desc(mediaItemsTable.popularity)],
+          arrayOverlaps(mediaItemsTable.genres, recentLikeGenres)
+        )
+      : [];
+    const textVectors = await loadTextVectors(similarityPool.length > 0 ? [...recentLikes, ...similarityPool] : []);
+    const contentSimilarCandidates = similarityPool
+      .map(candidate => ({
+        candidate,
+        similarity: Math.max(...recentLikes.map(liked => contentSimilarity(
+          liked,
+          { ...candidate, vote_average: parseFloat(candidate.vote_average) },
+          cosineSimilarity(textVectors.get(liked.id)!, textVectors.get(candidate.id)!)
+        ).similarity))
+      }))
+      .sort((a, b) => b.similarity - a.similarity || a.candidate.id - b.candidate.id)
+      .map(({ candidate }) => candidate);
 
-    // Score candidates based on genre overlap and other factors
-    const scoredCandidates = candidates.map(candidate => {
-      let score = 0.3; // Base score
-      let reasons: string[] = [];
-
-      // Genre matching bonus
-      const genreOverlap = candidate.genres.filter(genre => likedGenres.has(genre)).length;
-      if (genreOverlap > 0) {
-        score += genreOverlap * 0.2;
-        const matchingGenres = candidate.genres.filter(genre => likedGenres.has(genre));
-        reasons.push(`genres you enjoy: ${matchingGenres.join(', ')}`);
-      }
+    // Merge and de-duplicate the pools before scoring; franchise exclusions are matched on titles
+    const notExcluded = (pool: typeof genreMatchedPool) => pool.filter(candidate => !isExcluded(candidate, exclusions));
+    const candidates = mergeCandidatePools({
+      similar_to_liked: notExcluded([...neighbourCandidates, ...contentSimilarCandidates]),
+      genre_matched: notExcluded(genreMatchedPool),
+      trending: notExcluded(trendingPool),
+      recently_added: notExcluded(recentlyAddedPool),
+      exploration: notExcluded(explorationSourcePool)
+    }, quotas);
 
-      // High rating bonus
-      const rating = parseFloat(candidate.vote_average);
-      if (rating >= 8.0) {
-        score += 0.2;
-        reasons.push(`highly rated (${rating}/10)`);
-      } else if (rating >= 7.0) {
-        score += 0.1;
-        reasons.push(`well-rated (${rating}/10)`);
-      }
+    // Score candidates against the preference model - liked features boost, disliked features penalise
+    // Collaborative evidence is blended in only when this user has any; the request's mood,
+    // audience and time available adjust the result
+    const blendWeight = collaborative.size > 0 ? collaborativeWeight : 0;
+    const scoredCandidates = candidates.map(candidate => ({
+      ...candidate,
+      ...applyContext(
+        blendCollaborative(
+          scoreCandidate({
+            genres: candidate.genres,
+            media_type: candidate.media_type,
+            original_language: candidate.original_language,
+            vote_average: parseFloat(candidate.vote_average),
+            popularity: parseFloat(candidate.popularity)
+          }, preferenceModel),
+          collaborative.get(candidate.id),
+          blendWeight
+        ),
+        candidate,
+        input
+      )
+    }));
 
-      // Media type preference bonus
-      if (likedMediaTypes.has(candidate.media_type)) {
-        score += 0.1;
-        reasons.push(`you like ${candidate.media_type}s`);
-      }
+    // Sort by score, then re-rank the top recommendations for genre, era, language and media type variety.
+    // Scores are clamped to [0, 1] and often tie at the top, so rating, popularity and id decide between equals.
+    scoredCandidates.sort((a, b) =>
+      b.score - a.score ||
+      parseFloat(b.vote_average) - parseFloat(a.vote_average) ||
+      parseFloat(b.popularity) - parseFloat(a.popularity) ||
+      a.id - b.id
+    );
+    const topCandidates = rerankForDiversity(scoredCandidates, {
+      limit,
+      diversity: settings.diversity ?? DEFAULT_DIVERSITY,
+      maxGenreShare: input.max_genre_share
+    });
 
-      // Popularity bonus for discovery
-      const popularity = parseFloat(candidate.popularity);
-      if (popularity > 50) {
-        score += 0.05;
-      }
+    // Explore: some slots go to candidates outside the exploited pool, from genres picked by Thompson sampling
+    const explorationRate = settings.exploration_rate ?? DEFAULT_EXPLORATION_RATE;
+    let batch = topCandidates;
+    if (explorationRate > 0) {
+      // Explore among the exploration pool's candidates that did not make the exploited batch
+      const exploitedIds = new Set(topCandidates.map(candidate => candidate.id));
+      const explorationPool = candidates
+        .filter(candidate => candidate.sources.includes('exploration') && !exploitedIds.has(candidate.id));
 
-      // Generate reason text
-      let reason = 'Recommended for you';
-      if (reasons.length > 0) {
-        reason = `Because of ${reasons.join(' and ')}`;
-      } else if (likedItems.length > 0) {
-        const randomLikedItem = likedItems[Math.floor(Math.random() * likedItems.length)];
-        reason = `Because you liked "${randomLikedItem.title}"`;
+      if (explorationPool.length > 0) {
+        const picks = pickExplorations(explorationPool, genrePosteriors, {
+          limit,
+          rate: explorationRate,
+          random: options.random ?? Math.random
+        });
+
+        // Explored items take over the slot of the exploited candidate they displace but keep their own score;
+        // the queue position, not the score, puts them where they were picked. The genre cap holds across
+        // both: a pick that would break it gives its slot back, and exploited candidates pushed over it are dropped.
+        const exploited = [...topCandidates];
+        const maxPerGenre = genreCap(limit, input.max_genre_share);
+        const genreCounts = new Map<string, number>();
+        batch = [];
+        for (let position = 0; position < limit; position++) {
+          const pick = picks.find(p => p.position === position);
+          if (pick && !reachesGenreCap(pick.candidate.genres, genreCounts, maxPerGenre)) {
+            const score = scoreCandidate({
+              genres: pick.candidate.genres,
+              media_type: pick.candidate.media_type,
+              original_language: pick.candidate.original_language,
+              vote_average: parseFloat(pick.candidate.vote_average),
+              popularity: parseFloat(pick.candidate.popularity)
+            }, preferenceModel).score;
+            const explanation = {
+              factors: [{ kind: 'exploration' as const, label: pick.genre, weight: score, titles: [] }],
+              liked_items: [],
+              matched_genres: []
+            };
+            batch.push({ ...pick.candidate, score, reason: explanationReason(explanation), explanation });
+          } else {
+            const index = exploited.findIndex(candidate => !reachesGenreCap(candidate.genres, genreCounts, maxPerGenre));
+            if (index === -1) {
+              continue;
+            }
+            batch.push(exploited.splice(index, 1)[0]);
+          }
+          batch[batch.length - 1].genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1));
+        }
       }
+    }
 
-      // Ensure score is between 0 and 1
-      score = Math.min(Math.max(score, 0), 1);
+    // Reconcile with the existing queue: keep unshown rows, drop duplicates and rows that went stale
+    const topMediaIds = new Set(batch.map(candidate => candidate.id));
+    const staleBefore = new Date(now.getTime() - STALE_AFTER_HOURS * HOUR_MS);
+    const queuedByMediaId = new Map<number, typeof existingRecommendations[number]>();
+    const expiredIds: number[] = [];
 
-      return {
-        ...candidate,
-        score,
-        reason
-      };
-    });
+    existingRecommendations
+      .filter(rec => !rec.shown)
+      .forEach(rec => {
+        const duplicate = queuedByMediaId.has(rec.media_item_id);
+        const interacted = interactedMediaIds.includes(rec.media_item_id);
+        const stale = !topMediaIds.has(rec.media_item_id) && rec.updated_at < staleBefore;
+        if (duplicate || interacted || stale) {
+          expiredIds.push(rec.id);
+        } else {
+          queuedByMediaId.set(rec.media_item_id, rec);
+        }
+      });
 
-    // Sort by score and take top recommendations
-    scoredCandidates.sort((a, b) => b.score - a.score);
-    const topCandidates = scoredCandidates.slice(0, limit);
-
-    // Create recommendation records
-    const recommendations = await Promise.all(
-      topCandidates.map(async (candidate) => {
-        const result = await db.insert(recommendationsTable)
-          .values({
-            user_id: user_id || null,
-            session_id: session_id || null,
-            media_item_id: candidate.id,
-            reason: candidate.reason,
-            score: candidate.score.toString() // Convert to string for numeric column
-          })
-          .returning()
+    // Stored scores are the ranking scores mapped to the probability of a positive outcome
+    const calibrationCurve = await loadCalibrationCurve();
+
+    const recommendations = await db.transaction(async (tx) => {
+      if (expiredIds.length > 0) {
+        await tx.delete(recommendationsTable)
+          .where(inArray(recommendationsTable.id, expiredIds))
           .execute();
+      }
 
-        const recommendation = result[0];
-        return {
-          ...recommendation,
-          score: parseFloat(recommendation.score) // Convert back to number
-        };
-      })
-    );
+      // Refresh queued rows for candidates that are still relevant, insert only new candidates.
+      // The batch is served in order, ahead of older queued rows.
+      const rows = [];
+      for (const [position, candidate] of batch.entries()) {
+        const queued = queuedByMediaId.get(candidate.id);
+        const result = queued
+          ? await tx.update(recommendationsTable)
+              .set({
+                reason: candidate.reason,
+                explanation: candidate.explanation,
+                score: calibrate(candidate.score, calibrationCurve).toString(), // Convert to string for numeric column
+                raw_score: candidate.score.toString(),
+                experiment: arm ? ACTIVE_EXPERIMENT.name : null,
+                experiment_arm: arm?.name ?? null,
+                queue_position: position,
+                updated_at: now
+              })
+              .where(eq(recommendationsTable.id, queued.id))
+              .returning()
+              .execute()
+          : await tx.insert(recommendationsTable)
+              .values({
+                user_id: user_id || null,
+                session_id: session_id || null,
+                media_item_id: candidate.id,
+                reason: candidate.reason,
+                explanation: candidate.explanation,
+                score: calibrate(candidate.score, calibrationCurve).toString(), // Convert to string for numeric column
+                raw_score: candidate.score.toString(),
+                experiment: arm ? ACTIVE_EXPERIMENT.name : null,
+                experiment_arm: arm?.name ?? null,
+                queue_position: position
+              })
+              .returning()
+              .execute();
+        rows.push(result[0]);
+      }
+
+      // Queued rows the batch did not refresh keep their place behind it
+      const held = Array.from(queuedByMediaId.values())
+        .filter(rec => !topMediaIds.has(rec.media_item_id))
+        .sort((a, b) => parseFloat(b.score) - parseFloat(a.score) || a.id - b.id);
+      for (const [offset, rec] of held.entries()) {
+        await tx.update(recommendationsTable)
+          .set({ queue_position: batch.length + offset })
+          .where(eq(recommendationsTable.id, rec.id))
+          .execute();
+      }
+      return rows;
+    });
 
-    return recommendations;
+    return recommendations.map(recommendation => ({
+      ...recommendation,
+      score: parseFloat(recommendation.score), // Convert back to numbers
+      raw_score: recommendation.raw_score === null ? null : parseFloat(recommendation.raw_score)
+    }));
   } catch (error) {
     console.error('Generate recommendations failed:', error);
     throw error;
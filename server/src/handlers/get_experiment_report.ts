@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { recommendationsTable, userInteractionsTable, watchlistTable } from '../db/schema';
+import { type ExperimentReportInput, type ExperimentReport, type ExperimentArmReport } from '../schema';
+import { eq, and, or, isNull, isNotNull } from 'drizzle-orm';
+import { ownerKey } from '../lib/collaborative';
+import { ACTIVE_EXPERIMENT, EXPERIMENTS, attributeExposures, wilsonInterval } from '../lib/experiments';
+
+export async function getExperimentReport(input: ExperimentReportInput): Promise<ExperimentReport> {
+  try {
+    const experiment = input.experiment ? EXPERIMENTS[input.experiment] : ACTIVE_EXPERIMENT;
+    if (!experiment) {
+      throw new Error(`Experiment ${input.experiment} does not exist`);
+    }
+
+    // Interactions and watchlist entries belong to the same owner and item as the recommendation
+    const sameOwner = <T extends typeof userInteractionsTable | typeof watchlistTable>(table: T) => and(
+      eq(table.media_item_id, recommendationsTable.media_item_id),
+      or(
+        and(isNotNull(recommendationsTable.user_id), eq(table.user_id, recommendationsTable.user_id)),
+        and(isNull(recommendationsTable.user_id), eq(table.session_id, recommendationsTable.session_id))
+      )
+    );
+
+    // Every shown recommendation generated under the experiment, with what its owner did with the item
+    const exposures = await db.select({
+      media_item_id: recommendationsTable.media_item_id,
+      user_id: recommendationsTable.user_id,
+      session_id: recommendationsTable.session_id,
+      experiment_arm: recommendationsTable.experiment_arm,
+      shown_at: recommendationsTable.shown_at,
+      created_at: recommendationsTable.created_at,
+      interaction_type: userInteractionsTable.interaction_type,
+      interacted_at: userInteractionsTable.updated_at,
+      watchlisted_at: watchlistTable.created_at
+    })
+      .from(recommendationsTable)
+      .leftJoin(userInteractionsTable, sameOwner(userInteractionsTable))
+      .leftJoin(watchlistTable, sameOwner(watchlistTable))
+      .where(and(
+        eq(recommendationsTable.experiment, experiment.name),
+        eq(recommendationsTable.shown, true)
+      ))
+      .execute();
+
+    const arms = experiment.arms.map((arm): ExperimentArmReport => {
+      // An item recommended to the same owner more than once is still one exposure with one outcome
+      const armExposures = attributeExposures(exposures
+        .filter(exposure => exposure.experiment_arm === arm.name)
+        .map(exposure => ({
+          owner_key: ownerKey(exposure.user_id, exposure.session_id),
+          media_item_id: exposure.media_item_id,
+          // Rows marked shown before shown_at was tracked count from when they were generated
+          shown_at: exposure.shown_at ?? exposure.created_at,
+          interaction_type: exposure.interaction_type,
+          interacted_at: exposure.interacted_at,
+          watchlisted_at: exposure.watchlisted_at
+        })));
+
+      const owners = new Set(armExposures.map(exposure => exposure.owner_key));
+      const likes = armExposures.filter(exposure => exposure.outcome === 'like').length;
+      const watchlistAdds = armExposures.filter(exposure => exposure.outcome === 'watchlist').length;
+      const dislikes = armExposures.filter(exposure => exposure.outcome === 'dislike').length;
+
+      const conversions = likes + watchlistAdds;
+      const { lower, upper } = wilsonInterval(conversions, armExposures.length);
+      return {
+        arm: arm.name,
+        owners: owners.size,
+        exposures: armExposures.length,
+        likes,
+        watchlist_adds: watchlistAdds,
+        dislikes,
+        conversions,
+        conversion_rate: armExposures.length === 0 ? 0 : conversions / armExposures.length,
+        ci_lower: lower,
+        ci_upper: upper
+      };
+    });
+
+    return {
+      experiment: experiment.name,
+      arms,
+      generated_at: new Date()
+    };
+  } catch (error) {
+    console.error('Experiment report failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { db } from '../db';
+import { groupMatchesTable, mediaItemsTable } from '../db/schema';
+import { type GroupSessionInput, type GroupMatch } from '../schema';
+import { eq, and, gt, asc } from 'drizzle-orm';
+import { getGroupSession } from './get_group_session';
+
+// A group's matches in the order they were made, optionally only those after a given match or for one title
+export async function loadGroupMatches(
+  groupSessionId: number,
+  options: { afterMatchId?: number; mediaItemId?: number } = {}
+): Promise<GroupMatch[]> {
+  const conditions = [eq(groupMatchesTable.group_session_id, groupSessionId)];
+  if (options.afterMatchId !== undefined) {
+    conditions.push(gt(groupMatchesTable.id, options.afterMatchId));
+  }
+  if (options.mediaItemId !== undefined) {
+    conditions.push(eq(groupMatchesTable.media_item_id, options.mediaItemId));
+  }
+
+  const results = await db.select()
+    .from(groupMatchesTable)
+    .innerJoin(mediaItemsTable, eq(groupMatchesTable.media_item_id, mediaItemsTable.id))
+    .where(and(...conditions))
+    .orderBy(asc(groupMatchesTable.id))
+    .execute();
+
+  return results.map(result => ({
+    id: result.group_matches.id,
+    group_session_id: result.group_matches.group_session_id,
+    like_count: result.group_matches.like_count,
+    member_count: result.group_matches.member_count,
+    created_at: result.group_matches.created_at,
+    media_item: {
+      ...result.media_items,
+      vote_average: parseFloat(result.media_items.vote_average),
+      popularity: parseFloat(result.media_items.popularity)
+    }
+  }));
+}
+
+// Match history, most recent first
+export async function getGroupMatches(input: GroupSessionInput): Promise<GroupMatch[]> {
+  try {
+    await getGroupSession(input);
+
+    const matches = await loadGroupMatches(input.group_session_id);
+    return matches.reverse();
+  } catch (error) {
+    console.error('Failed to get group matches:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { groupSessionsTable, groupMembersTable } from '../db/schema';
+import { type GroupSessionInput, type GroupSession } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export async function getGroupSession(input: GroupSessionInput): Promise<GroupSession> {
+  try {
+    const groups = await db.select()
+      .from(groupSessionsTable)
+      .where(eq(groupSessionsTable.id, input.group_session_id))
+      .limit(1)
+      .execute();
+
+    if (groups.length === 0) {
+      throw new Error(`Group session with id ${input.group_session_id} does not exist`);
+    }
+
+    // Members in the order they joined
+    const members = await db.select()
+      .from(groupMembersTable)
+      .where(eq(groupMembersTable.group_session_id, input.group_session_id))
+      .orderBy(asc(groupMembersTable.id))
+      .execute();
+
+    return { ...groups[0], members };
+  } catch (error) {
+    console.error('Failed to get group session:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,183 @@
+import { db } from '../db';
+import { mediaItemsTable, peopleTable, mediaCreditsTable, keywordsTable, mediaItemKeywordsTable, seasonsTable, type MediaItem } from '../db/schema';
+import { type MediaItemDetailsInput, type MediaItemDetails, type MediaCredit } from '../schema';
+import { eq, asc, sql } from 'drizzle-orm';
+import { detailsAreStale, directorNames } from '../lib/media_details';
+import { getMetadataProvider, type MetadataDetails } from '../providers/metadata_provider';
+import { createMediaItem } from './create_media_item';
+
+// Replaces the item's stored credits and keywords with the provider's, upserting the people and keywords they
+// refer to and the show's seasons
+async function storeMediaDetails(mediaItemId: number, details: MetadataDetails): Promise<void> {
+  await db.transaction(async (tx) => {
+    const people = new Map<number, MetadataDetails['credits'][number]>();
+    details.credits.forEach(credit => people.set(credit.person_id, credit));
+    const storedPeople = people.size > 0
+      ? await tx.insert(peopleTable)
+          .values(Array.from(people.values()).map(person => ({
+            tmdb_id: person.person_id,
+            name: person.name,
+            profile_path: person.profile_path
+          })))
+          .onConflictDoUpdate({
+            target: peopleTable.tmdb_id,
+            set: {
+              name: sql`excluded.name`,
+              profile_path: sql`excluded.profile_path`,
+              updated_at: new Date()
+            }
+          })
+          .returning({ id: peopleTable.id, tmdb_id: peopleTable.tmdb_id })
+          .execute()
+      : [];
+    const personIds = new Map(storedPeople.map(person => [person.tmdb_id, person.id]));
+
+    await tx.delete(mediaCreditsTable)
+      .where(eq(mediaCreditsTable.media_item_id, mediaItemId))
+      .execute();
+    if (details.credits.length > 0) {
+      await tx.insert(mediaCreditsTable)
+        .values(details.credits.map(credit => ({
+          media_item_id: mediaItemId,
+          person_id: personIds.get(credit.person_id)!,
+          role: credit.role,
+          character: credit.character,
+          job: credit.job,
+          department: credit.department,
+          credit_order: credit.order
+        })))
+        .execute();
+    }
+
+    const keywords = Array.from(new Map(details.keywords.map(keyword => [keyword.id, keyword])).values());
+    const storedKeywords = keywords.length > 0
+      ? await tx.insert(keywordsTable)
+          .values(keywords.map(keyword => ({ tmdb_id: keyword.id, name: keyword.name })))
+          .onConflictDoUpdate({
+            target: keywordsTable.tmdb_id,
+            set: { name: sql`excluded.name` }
+          })
+          .returning({ id: keywordsTable.id })
+          .execute()
+      : [];
+
+    await tx.delete(mediaItemKeywordsTable)
+      .where(eq(mediaItemKeywordsTable.media_item_id, mediaItemId))
+      .execute();
+    if (storedKeywords.length > 0) {
+      await tx.insert(mediaItemKeywordsTable)
+        .values(storedKeywords.map(keyword => ({ media_item_id: mediaItemId, keyword_id: keyword.id })))
+        .execute();
+    }
+
+    // Season listings only; episodes are fetched per season when a show's seasons are opened
+    if (details.seasons.length > 0) {
+      await tx.insert(seasonsTable)
+        .values(details.seasons.map(season => ({ ...season, media_item_id: mediaItemId })))
+        .onConflictDoUpdate({
+          target: [seasonsTable.media_item_id, seasonsTable.season_number],
+          set: {
+            name: sql`excluded.name`,
+            overview: sql`excluded.overview`,
+            air_date: sql`excluded.air_date`,
+            poster_path: sql`excluded.poster_path`,
+            episode_count: sql`excluded.episode_count`,
+            updated_at: new Date()
+          }
+        })
+        .execute();
+    }
+
+    await tx.update(mediaItemsTable)
+      .set({
+        tagline: details.tagline,
+        status: details.status,
+        details_fetched_at: new Date()
+      })
+      .where(eq(mediaItemsTable.id, mediaItemId))
+      .execute();
+  });
+}
+
+// The media item with its details brought up to date. The provider is only asked when the stored
+// details have gone stale (or a refresh is forced); if it cannot be reached the stored details, however
+// old, are returned instead.
+export async function refreshMediaItemDetails(mediaItemId: number, force = false): Promise<MediaItem> {
+  const existing = await db.select()
+    .from(mediaItemsTable)
+    .where(eq(mediaItemsTable.id, mediaItemId))
+    .execute();
+
+  if (existing.length === 0) {
+    throw new Error(`Media item with id ${mediaItemId} does not exist`);
+  }
+
+  const item = existing[0];
+  if (!force && !detailsAreStale(item)) {
+    return item;
+  }
+
+  try {
+    const details = await getMetadataProvider().details(item.tmdb_id, item.media_type);
+    if (!details) {
+      return item;
+    }
+    await createMediaItem(details);
+    await storeMediaDetails(item.id, details);
+  } catch (error) {
+    console.error(`Fetching details for media item ${item.id} failed:`, error);
+    return item;
+  }
+
+  const [refreshed] = await db.select()
+    .from(mediaItemsTable)
+    .where(eq(mediaItemsTable.id, item.id))
+    .execute();
+  return refreshed;
+}
+
+export async function getMediaItemDetails(input: MediaItemDetailsInput): Promise<MediaItemDetails> {
+  try {
+    const item = await refreshMediaItemDetails(input.media_item_id, input.refresh);
+
+    const credits = await db.select({
+      role: mediaCreditsTable.role,
+      person_id: peopleTable.id,
+      tmdb_person_id: peopleTable.tmdb_id,
+      name: peopleTable.name,
+      profile_path: peopleTable.profile_path,
+      character: mediaCreditsTable.character,
+      job: mediaCreditsTable.job,
+      department: mediaCreditsTable.department
+    })
+      .from(mediaCreditsTable)
+      .innerJoin(peopleTable, eq(mediaCreditsTable.person_id, peopleTable.id))
+      .where(eq(mediaCreditsTable.media_item_id, item.id))
+      .orderBy(asc(mediaCreditsTable.credit_order), asc(mediaCreditsTable.id))
+      .execute();
+
+    const keywords = await db.select({ name: keywordsTable.name })
+      .from(mediaItemKeywordsTable)
+      .innerJoin(keywordsTable, eq(mediaItemKeywordsTable.keyword_id, keywordsTable.id))
+      .where(eq(mediaItemKeywordsTable.media_item_id, item.id))
+      .orderBy(asc(keywordsTable.name))
+      .execute();
+
+    const toCredit = ({ role: _role, ...credit }: typeof credits[number]): MediaCredit => credit;
+    const crew = credits.filter(credit => credit.role === 'crew').map(toCredit);
+
+    // Convert numeric fields back to numbers before returning
+    return {
+      ...item,
+      vote_average: parseFloat(item.vote_average),
+      popularity: parseFloat(item.popularity),
+      directors: directorNames(crew),
+      cast: credits.filter(credit => credit.role === 'cast').map(toCredit),
+      crew,
+      keywords: keywords.map(keyword => keyword.name)
+    };
+  } catch (error) {
+    console.error('Get media item details failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,37 @@
 import { db } from '../db';
 import { recommendationsTable, mediaItemsTable } from '../db/schema';
 import { type GetRecommendationsInput, type Recommendation } from '../schema';
-import { eq, and, desc, isNull, SQL } from 'drizzle-orm';
+import { eq, and, asc, desc, isNull, count, sql, SQL } from 'drizzle-orm';
+import { generateRecommendations } from './generate_recommendations';
+import { ownerKey } from '../lib/collaborative';
+import { contextConditions } from '../lib/context';
+
+// Refill the queue in the background once fewer unshown recommendations than this remain
+const QUEUE_LOW_WATER_MARK = 3;
+// Unshown rows considered per call, in case a concurrent caller claims the best one first
+const CLAIM_ATTEMPTS = 5;
+
+// In-flight refills per owner, so concurrent callers share a single generation
+const pendingRefills = new Map<string, Promise<void>>();
+
+function refillQueue(input: GetRecommendationsInput): Promise<void> {
+  const key = ownerKey(input.user_id, input.session_id);
+  const pending = pendingRefills.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const refill = generateRecommendations(input)
+    .then(() => undefined)
+    .finally(() => pendingRefills.delete(key));
+  pendingRefills.set(key, refill);
+  return refill;
+}
+
+// Resolves once every refill started so far has finished (successfully or not)
+export async function settleRecommendationRefills(): Promise<void> {
+  await Promise.allSettled(Array.from(pendingRefills.values()));
+}
 
 export async function getNextRecommendation(input: GetRecommendationsInput): Promise<Recommendation | null> {
   try {
@@ -25,6 +55,30 @@ export async function getNextRecommendation(input: GetRecommendationsInput): Pro
       );
     }
 
+    // Only serve queued items that fit the request context
+    conditions.push(...contextConditions(input));
+
+    // Only identified owners can have their queue refilled
+    const canRefill = Boolean(input.user_id || input.session_id);
+
+    const countQueued = async () => {
+      const result = await db.select({ queued: count() })
+        .from(recommendationsTable)
+        .innerJoin(mediaItemsTable, eq(recommendationsTable.media_item_id, mediaItemsTable.id))
+        .where(and(...conditions))
+        .execute();
+      return result[0].queued;
+    };
+
+    // An empty queue is refilled before serving
+    let queued = await countQueued();
+    let refilled = false;
+    if (queued === 0 && canRefill) {
+      await refillQueue(input);
+      queued = await countQueued();
+      refilled = true;
+    }
+
     // Build complete query in one go to avoid TypeScript issues
     const results = await db.select({
       id: recommendationsTable.id,
@@ -32,37 +86,71 @@ export async function getNextRecommendation(input: GetRecommendationsInput): Pro
       session_id: recommendationsTable.session_id,
       media_item_id: recommendationsTable.media_item_id,
       reason: recommendationsTable.reason,
+      explanation: recommendationsTable.explanation,
+      queue_position: recommendationsTable.queue_position,
       score: recommendationsTable.score,
+      raw_score: recommendationsTable.raw_score,
       shown: recommendationsTable.shown,
-      created_at: recommendationsTable.created_at
+      shown_at: recommendationsTable.shown_at,
+      response: recommendationsTable.response,
+      responded_at: recommendationsTable.responded_at,
+      resurface_at: recommendationsTable.resurface_at,
+      response_scope: recommendationsTable.response_scope,
+      response_scope_value: recommendationsTable.response_scope_value,
+      experiment: recommendationsTable.experiment,
+      experiment_arm: recommendationsTable.experiment_arm,
+      created_at: recommendationsTable.created_at,
+      updated_at: recommendationsTable.updated_at
     })
       .from(recommendationsTable)
       .innerJoin(mediaItemsTable, eq(recommendationsTable.media_item_id, mediaItemsTable.id))
       .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      .orderBy(desc(recommendationsTable.score))
-      .limit(1)
+      // Generated rows are served in the order their generation placed them, then rows added otherwise by score.
+      // Calibration can give several rows the same score; the raw score, then the title's rating
+      // and popularity, then age settle the order so the same queue always serves the same row
+      .orderBy(
+        sql`${recommendationsTable.queue_position} asc nulls last`,
+        desc(recommendationsTable.score),
+        sql`${recommendationsTable.raw_score} desc nulls last`,
+        desc(mediaItemsTable.vote_average),
+        desc(mediaItemsTable.popularity),
+        asc(recommendationsTable.id)
+      )
+      .limit(CLAIM_ATTEMPTS)
       .execute();
 
-    if (results.length === 0) {
-      return null;
+    // Mark the recommendation as shown, skipping rows a concurrent caller claimed first
+    let recommendationData: typeof results[number] | null = null;
+    for (const candidate of results) {
+      const claimed = await db.update(recommendationsTable)
+        .set({ shown: true, shown_at: new Date() })
+        .where(and(eq(recommendationsTable.id, candidate.id), eq(recommendationsTable.shown, false)))
+        .returning({ id: recommendationsTable.id })
+        .execute();
+
+      if (claimed.length > 0) {
+        recommendationData = candidate;
+        break;
+      }
     }
 
-    // Get the recommendation data
-    const recommendationData = results[0];
-    
-    // Mark the recommendation as shown
-    await db.update(recommendationsTable)
-      .set({ shown: true })
-      .where(eq(recommendationsTable.id, recommendationData.id))
-      .execute();
+    // A queue running low is topped up in the background; failures are logged by the generator
+    if (canRefill && !refilled && queued - 1 < QUEUE_LOW_WATER_MARK) {
+      refillQueue(input).catch(() => {});
+    }
+
+    if (!recommendationData) {
+      return null;
+    }
 
     // Return the recommendation with proper numeric conversion
     return {
       ...recommendationData,
-      score: parseFloat(recommendationData.score)
+      score: parseFloat(recommendationData.score),
+      raw_score: recommendationData.raw_score === null ? null : parseFloat(recommendationData.raw_score)
     };
   } catch (error) {
     console.error('Failed to get next recommendation:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { type OnboardingTitlesInput, type MediaItem } from '../schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { balanceByGenre } from '../lib/onboarding';
+
+// Popular titles considered per seed slot, so that less common genres still get a turn
+const POOL_PER_SLOT = 10;
+
+export async function getOnboardingTitles(input: OnboardingTitlesInput): Promise<MediaItem[]> {
+  try {
+    // Well-known, family-safe titles make the best quick picks
+    const conditions = [eq(mediaItemsTable.adult, false)];
+    if (input.media_type !== 'all') {
+      conditions.push(eq(mediaItemsTable.media_type, input.media_type));
+    }
+
+    const pool = await db.select()
+      .from(mediaItemsTable)
+      .where(and(...conditions))
+      .orderBy(desc(mediaItemsTable.popularity), desc(mediaItemsTable.vote_count), mediaItemsTable.id)
+      .limit(input.limit * POOL_PER_SLOT)
+      .execute();
+
+    // Convert numeric fields back to numbers for the response
+    return balanceByGenre(pool, input.limit).map(item => ({
+      ...item,
+      vote_average: parseFloat(item.vote_average),
+      popularity: parseFloat(item.popularity)
+    }));
+  } catch (error) {
+    console.error('Failed to get onboarding titles:', error);
+    throw error;
+  }
+}
@@ -1,43 +1,146 @@
 import { db } from '../db';
-import { mediaItemsTable } from '../db/schema';
-import { type PopularItemsInput, type MediaItem } from '../schema';
-import { eq, desc, or, and } from 'drizzle-orm';
+import { mediaItemsTable, feedCacheTable } from '../db/schema';
+import { type PopularItemsInput, type MediaItem, type CreateMediaItemInput } from '../schema';
+import { eq, desc, and, inArray, type SQL } from 'drizzle-orm';
+import { getUserPreferences } from './get_user_preferences';
+import { storeMediaItems } from './create_media_item';
+import { preferenceConditions } from '../lib/preference_filters';
+import { getMetadataProvider, metadataProviderConfigured, METADATA_PAGE_SIZE } from '../providers/metadata_provider';
+
+// How long a fetched page of the popular feed is served before the provider is asked again
+export const POPULAR_FEED_TTL_MINUTES = 6 * 60;
+// How long the provider is left alone after a feed fails to refresh
+export const FAILED_FEED_RETRY_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+async function cacheFeed(feedKey: string, mediaItemIds: number[], now: Date, ttlMinutes: number): Promise<void> {
+  const expiresAt = new Date(now.getTime() + ttlMinutes * MINUTE_MS);
+  await db.insert(feedCacheTable)
+    .values({ feed_key: feedKey, media_item_ids: mediaItemIds, fetched_at: now, expires_at: expiresAt })
+    .onConflictDoUpdate({
+      target: feedCacheTable.feed_key,
+      set: { media_item_ids: mediaItemIds, fetched_at: now, expires_at: expiresAt }
+    })
+    .execute();
+}
+
+// Ids of the media items on a provider feed page. While the cached page is fresh it is served from the
+// database alone; once it expires the feed is fetched again and its items upserted. Empty pages are not
+// cached, so a cached page without items marks a failed fetch: the provider is not asked again until it
+// expires, and the expired page, if any, is served meanwhile. Null when there is no page to serve.
+export async function loadFeed(
+  feedKey: string,
+  ttlMinutes: number,
+  fetchFeed: () => Promise<CreateMediaItemInput[]>
+): Promise<number[] | null> {
+  const cached = await db.select()
+    .from(feedCacheTable)
+    .where(eq(feedCacheTable.feed_key, feedKey))
+    .limit(1)
+    .execute();
+
+  const now = new Date();
+  const page = cached.length > 0 && cached[0].media_item_ids.length > 0 ? cached[0].media_item_ids : null;
+  if ((cached.length > 0 && cached[0].expires_at > now) || !metadataProviderConfigured()) {
+    return page;
+  }
 
-export async function getPopularItems(input: PopularItemsInput): Promise<MediaItem[]> {
   try {
-    // Since this is supposed to fetch from TMDB API and cache in database,
-    // but we don't have TMDB API integration in this environment,
-    // we'll simulate by returning popular items from our database
-    // ordered by popularity score, vote_average, and vote_count
-    
-    const limit = 20; // Items per page
-    const offset = (input.page - 1) * limit;
-    
-    // Build query with conditional where clause
-    const baseQuery = db.select().from(mediaItemsTable);
-    
-    const query = input.media_type !== 'all'
-      ? baseQuery.where(eq(mediaItemsTable.media_type, input.media_type))
-      : baseQuery;
-    
-    // Apply ordering and pagination
-    const results = await query
-      .orderBy(
-        desc(mediaItemsTable.popularity),
-        desc(mediaItemsTable.vote_average), 
-        desc(mediaItemsTable.vote_count)
-      )
-      .limit(limit)
-      .offset(offset)
-      .execute();
-    
-    // Convert numeric fields back to numbers for the response
-    return results.map(item => ({
+    const stored = await storeMediaItems(await fetchFeed());
+    const mediaItemIds = stored.map(item => item.id);
+    if (mediaItemIds.length === 0) {
+      return page ?? [];
+    }
+
+    await cacheFeed(feedKey, mediaItemIds, now, ttlMinutes);
+    return mediaItemIds;
+  } catch (error) {
+    console.error(`Refreshing feed ${feedKey} from the metadata provider failed:`, error);
+    await cacheFeed(feedKey, page ?? [], now, FAILED_FEED_RETRY_MINUTES);
+    // An expired page is still better than none
+    return page;
+  }
+}
+
+// The feed's media items in feed order, minus any the conditions rule out
+export async function feedItems(mediaItemIds: number[], conditions: SQL<unknown>[]): Promise<MediaItem[]> {
+  if (mediaItemIds.length === 0) {
+    return [];
+  }
+
+  const results = await db.select()
+    .from(mediaItemsTable)
+    .where(and(inArray(mediaItemsTable.id, mediaItemIds), ...conditions))
+    .execute();
+
+  const position = new Map(mediaItemIds.map((id, index) => [id, index]));
+  return results
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+    .map(item => ({
       ...item,
       vote_average: parseFloat(item.vote_average),
       popularity: parseFloat(item.popularity)
     }));
-    
+}
+
+// Without any provider data the stored catalogue is ranked by popularity, vote_average and vote_count
+export async function popularFromCatalogue(conditions: SQL<unknown>[], page: number): Promise<MediaItem[]> {
+  const limit = METADATA_PAGE_SIZE; // Items per page
+  const offset = (page - 1) * limit;
+
+  const baseQuery = db.select().from(mediaItemsTable);
+  const query = conditions.length > 0
+    ? baseQuery.where(and(...conditions))
+    : baseQuery;
+
+  // Apply ordering and pagination
+  const results = await query
+    .orderBy(
+      desc(mediaItemsTable.popularity),
+      desc(mediaItemsTable.vote_average),
+      desc(mediaItemsTable.vote_count)
+    )
+    .limit(limit)
+    .offset(offset)
+    .execute();
+
+  // Convert numeric fields back to numbers for the response
+  return results.map(item => ({
+    ...item,
+    vote_average: parseFloat(item.vote_average),
+    popularity: parseFloat(item.popularity)
+  }));
+}
+
+// Media type filter and the user's or session's hard exclusions, shared by the feeds
+export async function feedConditions(input: { media_type: 'movie' | 'tv' | 'all'; user_id?: number; session_id?: string }): Promise<SQL<unknown>[]> {
+  const conditions: SQL<unknown>[] = [];
+  if (input.media_type !== 'all') {
+    conditions.push(eq(mediaItemsTable.media_type, input.media_type));
+  }
+
+  // Hide whatever the user or session has excluded
+  if (input.user_id || input.session_id) {
+    const preferences = await getUserPreferences({ user_id: input.user_id, session_id: input.session_id });
+    if (preferences) {
+      conditions.push(...preferenceConditions(preferences));
+    }
+  }
+
+  return conditions;
+}
+
+export async function getPopularItems(input: PopularItemsInput): Promise<MediaItem[]> {
+  try {
+    const conditions = await feedConditions(input);
+
+    const feed = await loadFeed(`popular:${input.media_type}:${input.page}`, POPULAR_FEED_TTL_MINUTES,
+      () => getMetadataProvider().popular(input.media_type, input.page));
+
+    return feed === null
+      ? await popularFromCatalogue(conditions, input.page)
+      : await feedItems(feed, conditions);
   } catch (error) {
     console.error('Failed to get popular items:', error);
     throw error;
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { scoreCalibrationsTable } from '../db/schema';
+import { type ScoreCalibration } from '../schema';
+import { desc } from 'drizzle-orm';
+import { toScoreCalibration } from './fit_score_calibration';
+
+// Diagnostics: the calibration currently applied to recommendation scores, or null if none has been fitted
+export async function getScoreCalibration(): Promise<ScoreCalibration | null> {
+  try {
+    const latest = await db.select()
+      .from(scoreCalibrationsTable)
+      .orderBy(desc(scoreCalibrationsTable.id))
+      .limit(1)
+      .execute();
+
+    return latest.length > 0 ? toScoreCalibration(latest[0]) : null;
+  } catch (error) {
+    console.error('Failed to get score calibration:', error);
+    throw error;
+  }
+}
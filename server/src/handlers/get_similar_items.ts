@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { type SimilarItemsInput, type SimilarItem } from '../schema';
+import { eq, ne, and, desc, arrayOverlaps, type SQL } from 'drizzle-orm';
+import { contentSimilarity, cosineSimilarity, describeSimilarity } from '../lib/content_similarity';
+import { loadTextVectors } from './rebuild_text_vectors';
+
+// Maximum number of candidates compared against the source item
+const CANDIDATE_POOL_SIZE = 500;
+
+export async function getSimilarItems(input: SimilarItemsInput): Promise<SimilarItem[]> {
+  try {
+    const sourceResult = await db.select()
+      .from(mediaItemsTable)
+      .where(eq(mediaItemsTable.id, input.media_item_id))
+      .limit(1)
+      .execute();
+
+    if (sourceResult.length === 0) {
+      throw new Error(`Media item with id ${input.media_item_id} does not exist`);
+    }
+
+    const source = {
+      ...sourceResult[0],
+      vote_average: parseFloat(sourceResult[0].vote_average),
+      popularity: parseFloat(sourceResult[0].popularity)
+    };
+
+    // Candidates share at least one genre with the source item
+    const conditions: SQL<unknown>[] = [ne(mediaItemsTable.id, source.id)];
+    if (source.genres.length > 0) {
+      conditions.push(arrayOverlaps(mediaItemsTable.genres, source.genres));
+    }
+
+    const candidates = await db.select()
+      .from(mediaItemsTable)
+      .where(and(...conditions))
+      .orderBy(desc(mediaItemsTable.popularity))
+      .limit(CANDIDATE_POOL_SIZE)
+      .execute();
+
+    // Story similarity compares TF-IDF vectors of title and overview
+    const vectors = await loadTextVectors([source, ...candidates]);
+    const sourceVector = vectors.get(source.id)!;
+
+    const ranked = candidates
+      .map(candidate => {
+        const item = {
+          ...candidate,
+          vote_average: parseFloat(candidate.vote_average),
+          popularity: parseFloat(candidate.popularity)
+        };
+        const breakdown = contentSimilarity(source, item, cosineSimilarity(sourceVector, vectors.get(candidate.id)!));
+        return {
+          ...item,
+          similarity: breakdown.similarity,
+          reason: describeSimilarity(source.title, breakdown)
+        };
+      })
+      .filter(item => item.similarity > 0);
+
+    // Most similar first; more popular items win ties
+    ranked.sort((a, b) => b.similarity - a.similarity || b.popularity - a.popularity || a.id - b.id);
+
+    return ranked.slice(0, input.limit);
+  } catch (error) {
+    console.error('Failed to get similar items:', error);
+    throw error;
+  }
+}
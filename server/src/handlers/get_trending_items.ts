@@ -0,0 +1,26 @@
+import { type TrendingItemsInput, type MediaItem } from '../schema';
+import { feedConditions, feedItems, loadFeed, popularFromCatalogue } from './get_popular_items';
+import { getMetadataProvider } from '../providers/metadata_provider';
+
+// Daily trends move faster than weekly ones, so they are refetched sooner
+export const TRENDING_FEED_TTL_MINUTES: Record<TrendingItemsInput['time_window'], number> = {
+  day: 60,
+  week: 6 * 60
+};
+
+export async function getTrendingItems(input: TrendingItemsInput): Promise<MediaItem[]> {
+  try {
+    const conditions = await feedConditions(input);
+
+    const feed = await loadFeed(`trending:${input.media_type}:${input.time_window}`, TRENDING_FEED_TTL_MINUTES[input.time_window],
+      () => getMetadataProvider().trending(input.media_type, input.time_window));
+
+    // Before the provider has ever been reached, the most popular stored titles stand in
+    return feed === null
+      ? await popularFromCatalogue(conditions, 1)
+      : await feedItems(feed, conditions);
+  } catch (error) {
+    console.error('Failed to get trending items:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+import { db } from '../db';
+import { mediaItemsTable, seasonsTable, episodesTable, episodeProgressTable, type Episode as EpisodeRow } from '../db/schema';
+import { type TvSeasonsInput, type TvSeason, type Episode, type ShowProgress } from '../schema';
+import { eq, and, asc, inArray, sql, type SQL } from 'drizzle-orm';
+import { seasonEpisodesAreStale, summariseProgress } from '../lib/tv_progress';
+import { getMetadataProvider } from '../providers/metadata_provider';
+import { refreshMediaItemDetails } from './get_media_item_details';
+
+export interface EpisodeOwner {
+  user_id?: number;
+  session_id?: string;
+}
+
+// Progress belongs to the user when there is one, otherwise to the guest session
+export function episodeOwnerCondition(owner: EpisodeOwner): SQL<unknown> | null {
+  if (owner.user_id) {
+    return eq(episodeProgressTable.user_id, owner.user_id);
+  }
+  if (owner.session_id) {
+    return eq(episodeProgressTable.session_id, owner.session_id);
+  }
+  return null;
+}
+
+export function toEpisode({ tmdb_id: _tmdbId, season_id: _seasonId, created_at: _createdAt, updated_at: _updatedAt, ...episode }: EpisodeRow): Episode {
+  return episode;
+}
+
+// Brings a show's seasons and episodes up to date from the metadata provider. Seasons come with the
+// show's details; each season's episodes are fetched on their own staleness policy. Seasons the
+// provider cannot serve keep whatever was stored before.
+export async function syncTvSeasons(mediaItemId: number): Promise<void> {
+  // Movies are turned away before the provider is asked for their details
+  const stored = await db.select({ media_type: mediaItemsTable.media_type })
+    .from(mediaItemsTable)
+    .where(eq(mediaItemsTable.id, mediaItemId))
+    .execute();
+  if (stored.length > 0 && stored[0].media_type !== 'tv') {
+    throw new Error(`Media item with id ${mediaItemId} is not a TV show`);
+  }
+
+  const show = await refreshMediaItemDetails(mediaItemId);
+
+  const seasons = await db.select()
+    .from(seasonsTable)
+    .where(eq(seasonsTable.media_item_id, show.id))
+    .orderBy(asc(seasonsTable.season_number))
+    .execute();
+  const latestSeasonNumber = seasons.reduce((latest, season) => Math.max(latest, season.season_number), 0);
+  const now = new Date();
+
+  for (const season of seasons) {
+    if (!seasonEpisodesAreStale(season, show.status, season.season_number === latestSeasonNumber, now)) {
+      continue;
+    }
+
+    try {
+      const fetched = await getMetadataProvider().season(show.tmdb_id, season.season_number);
+      await db.transaction(async (tx) => {
+        if (fetched && fetched.episodes.length > 0) {
+          await tx.insert(episodesTable)
+            .values(fetched.episodes.map(({ id, ...episode }) => ({
+              ...episode,
+              tmdb_id: id,
+              media_item_id: show.id,
+              season_id: season.id,
+              season_number: season.season_number
+            })))
+            .onConflictDoUpdate({
+              target: episodesTable.tmdb_id,
+              set: {
+                episode_number: sql`excluded.episode_number`,
+                name: sql`excluded.name`,
+                overview: sql`excluded.overview`,
+                air_date: sql`excluded.air_date`,
+                runtime: sql`excluded.runtime`,
+                still_path: sql`excluded.still_path`,
+                updated_at: new Date()
+              }
+            })
+            .execute();
+        }
+        await tx.update(seasonsTable)
+          .set({ episodes_fetched_at: now })
+          .where(eq(seasonsTable.id, season.id))
+          .execute();
+      });
+    } catch (error) {
+      console.error(`Fetching season ${season.season_number} of media item ${show.id} failed:`, error);
+    }
+  }
+}
+
+// Every stored episode of the shows, specials included, in airing order
+export async function loadShowEpisodes(mediaItemIds: number[]): Promise<EpisodeRow[]> {
+  if (mediaItemIds.length === 0) {
+    return [];
+  }
+  return db.select()
+    .from(episodesTable)
+    .where(inArray(episodesTable.media_item_id, mediaItemIds))
+    .orderBy(asc(episodesTable.season_number), asc(episodesTable.episode_number))
+    .execute();
+}
+
+// Where the user or session is up to in a show, from the episodes stored for it
+export async function loadShowProgress(owner: EpisodeOwner, mediaItemId: number, now: Date = new Date()): Promise<ShowProgress> {
+  const [progress] = await loadShowsProgress(owner, [mediaItemId], now);
+  return progress;
+}
+
+// Progress through several shows at once, in the order the ids are given
+export async function loadShowsProgress(owner: EpisodeOwner, mediaItemIds: number[], now: Date = new Date()): Promise<ShowProgress[]> {
+  const ownerCondition = episodeOwnerCondition(owner);
+  const episodes = await loadShowEpisodes(mediaItemIds);
+  const watched = ownerCondition && mediaItemIds.length > 0
+    ? await db.select()
+        .from(episodeProgressTable)
+        .where(and(ownerCondition, inArray(episodeProgressTable.media_item_id, mediaItemIds)))
+        .execute()
+    : [];
+
+  return mediaItemIds.map(mediaItemId => {
+    const progress = summariseProgress(
+      episodes.filter(episode => episode.media_item_id === mediaItemId),
+      watched.filter(entry => entry.media_item_id === mediaItemId),
+      now
+    );
+    return {
+      ...progress,
+      media_item_id: mediaItemId,
+      last_watched_episode: progress.last_watched_episode && toEpisode(progress.last_watched_episode),
+      next_episode: progress.next_episode && toEpisode(progress.next_episode)
+    };
+  });
+}
+
+export async function getTvSeasons(input: TvSeasonsInput): Promise<TvSeason[]> {
+  try {
+    await syncTvSeasons(input.media_item_id);
+
+    const seasons = await db.select()
+      .from(seasonsTable)
+      .where(eq(seasonsTable.media_item_id, input.media_item_id))
+      .orderBy(asc(seasonsTable.season_number))
+      .execute();
+    const episodes = await loadShowEpisodes([input.media_item_id]);
+
+    const ownerCondition = episodeOwnerCondition(input);
+    const watched = ownerCondition
+      ? await db.select({ episode_id: episodeProgressTable.episode_id })
+          .from(episodeProgressTable)
+          .where(and(ownerCondition, eq(episodeProgressTable.media_item_id, input.media_item_id)))
+          .execute()
+      : [];
+    const watchedIds = new Set(watched.map(entry => entry.episode_id));
+
+    return seasons.map(({ episodes_fetched_at: _fetchedAt, created_at: _createdAt, updated_at: _updatedAt, ...season }) => ({
+      ...season,
+      episodes: episodes
+        .filter(episode => episode.season_id === season.id)
+        .map(episode => ({ ...toEpisode(episode), watched: watchedIds.has(episode.id) }))
+    }));
+  } catch (error) {
+    console.error('Get TV seasons failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { userPreferencesTable } from '../db/schema';
+import { type UserPreferencesInput, type UserPreferences } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Returns null for users and sessions that have not saved any preferences
+export async function getUserPreferences(input: UserPreferencesInput): Promise<UserPreferences | null> {
+  try {
+    // Validate that either user_id or session_id is provided
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    const result = await db.select()
+      .from(userPreferencesTable)
+      .where(input.user_id
+        ? eq(userPreferencesTable.user_id, input.user_id)
+        : eq(userPreferencesTable.session_id, input.session_id as string))
+      .limit(1)
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    const preferences = result[0];
+    return {
+      ...preferences,
+      min_vote_average: preferences.min_vote_average === null ? null : parseFloat(preferences.min_vote_average) // Convert numeric field to number
+    };
+  } catch (error) {
+    console.error('Failed to get user preferences:', error);
+    throw error;
+  }
+}
@@ -57,6 +57,10 @@ export async function getWatchlist(input: WatchlistInput): Promise<WatchlistWith
         popularity: parseFloat(result.media_items.popularity), // Convert numeric to number
         adult: result.media_items.adult,
         original_language: result.media_items.original_language,
+        runtime: result.media_items.runtime,
+        content_rating: result.media_items.content_rating,
+        tagline: result.media_items.tagline,
+        status: result.media_items.status,
         created_at: result.media_items.created_at,
         updated_at: result.media_items.updated_at
       }
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { groupSessionsTable, groupMembersTable, userProfilesTable } from '../db/schema';
+import { type JoinGroupSessionInput, type GroupSession } from '../schema';
+import { eq, and, count } from 'drizzle-orm';
+import { getGroupSession } from './get_group_session';
+
+// Adds a user or guest session to a group unless it is already a member
+export async function addGroupMember(
+  groupSessionId: number,
+  member: { user_id?: number; session_id?: string; display_name?: string }
+): Promise<void> {
+  if (!member.user_id && !member.session_id) {
+    throw new Error('Either user_id or session_id must be provided');
+  }
+
+  let username: string | null = null;
+  if (member.user_id) {
+    const users = await db.select()
+      .from(userProfilesTable)
+      .where(eq(userProfilesTable.id, member.user_id))
+      .limit(1)
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with id ${member.user_id} does not exist`);
+    }
+    username = users[0].username;
+  }
+
+  const ownerCondition = member.user_id
+    ? eq(groupMembersTable.user_id, member.user_id)
+    : eq(groupMembersTable.session_id, member.session_id as string);
+  const existing = await db.select()
+    .from(groupMembersTable)
+    .where(and(eq(groupMembersTable.group_session_id, groupSessionId), ownerCondition))
+    .limit(1)
+    .execute();
+  if (existing.length > 0) {
+    return;
+  }
+
+  // Guests without a name are numbered in the order they join
+  let displayName = member.display_name ?? username;
+  if (!displayName) {
+    const [{ members }] = await db.select({ members: count() })
+      .from(groupMembersTable)
+      .where(eq(groupMembersTable.group_session_id, groupSessionId))
+      .execute();
+    displayName = `Guest ${members + 1}`;
+  }
+
+  await db.insert(groupMembersTable)
+    .values({
+      group_session_id: groupSessionId,
+      user_id: member.user_id || null,
+      session_id: member.user_id ? null : member.session_id || null,
+      display_name: displayName
+    })
+    .execute();
+}
+
+export async function joinGroupSession(input: JoinGroupSessionInput): Promise<GroupSession> {
+  try {
+    const groups = await db.select()
+      .from(groupSessionsTable)
+      .where(eq(groupSessionsTable.code, input.code))
+      .limit(1)
+      .execute();
+
+    if (groups.length === 0) {
+      throw new Error(`Group session with code ${input.code} does not exist`);
+    }
+
+    // Joining twice is harmless
+    await addGroupMember(groups[0].id, input);
+
+    return await getGroupSession({ group_session_id: groups[0].id });
+  } catch (error) {
+    console.error('Joining group session failed:', error);
+    throw error;
+  }
+}
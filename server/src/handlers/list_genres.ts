@@ -0,0 +1,255 @@
+import { db } from '../db';
+import { genresTable, mediaItemGenresTable, mediaItemsTable, type Genre as GenreRow, type MediaItem as MediaItemRow } from '../db/schema';
+import { type ListGenresInput, type Genre } from '../schema';
+import { and, eq, exists, inArray, isNull, max, sql } from 'drizzle-orm';
+import { genresAreStale, localizedGenreName, mergeGenreLists, FALLBACK_GENRES, UNKNOWN_GENRE_RESYNC_MINUTES, type SyncedGenre } from '../lib/genres';
+import { getMetadataProvider, METADATA_LANGUAGE, type MetadataMediaType } from '../providers/metadata_provider';
+
+const MINUTE_MS = 60 * 1000;
+// Fallback genres and genres known only by name count as never synced, so a list made only of them is
+// synced as soon as the provider is back
+const NEVER_SYNCED = new Date(0);
+
+// An item's genre names taken from its genre links, in link order. media_item_genres is the source of
+// truth; media_items.genres is only ever written from this, for readers that filter on the array.
+const linkedGenreNames = () => sql<string[]>`coalesce((
+  select array_agg(${genresTable.name} order by ${mediaItemGenresTable.position})
+  from ${mediaItemGenresTable}
+  inner join ${genresTable} on ${genresTable.id} = ${mediaItemGenresTable.genre_id}
+  where ${mediaItemGenresTable.media_item_id} = ${mediaItemsTable.id}
+), '{}')`;
+
+// Upserts the provider's movie and TV genre lists. Canonical names are always refreshed; other
+// languages only add display names.
+export async function syncGenres(language: string = METADATA_LANGUAGE): Promise<void> {
+  const provider = getMetadataProvider();
+  const canonical = mergeGenreLists(await provider.genres('movie'), await provider.genres('tv'));
+  const localized = language === METADATA_LANGUAGE
+    ? []
+    : mergeGenreLists(await provider.genres('movie', language), await provider.genres('tv', language));
+
+  if (canonical.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  await db.transaction(async (tx) => {
+    const stored = await tx.select({ tmdb_id: genresTable.tmdb_id, name: genresTable.name })
+      .from(genresTable)
+      .where(inArray(genresTable.tmdb_id, canonical.map(genre => genre.tmdb_id)))
+      .execute();
+    const renamedIds = canonical
+      .filter(synced => stored.some(genre => genre.tmdb_id === synced.tmdb_id && genre.name !== synced.name))
+      .map(synced => synced.tmdb_id);
+
+    // Genres first stored by name alone take on the ID of a newly listed genre with that name
+    for (const genre of canonical.filter(synced => !stored.some(known => known.tmdb_id === synced.tmdb_id))) {
+      await tx.update(genresTable)
+        .set({ tmdb_id: genre.tmdb_id })
+        .where(and(isNull(genresTable.tmdb_id), eq(genresTable.name, genre.name)))
+        .execute();
+    }
+
+    await tx.insert(genresTable)
+      .values(canonical.map(genre => ({ ...genre, synced_at: now })))
+      .onConflictDoUpdate({
+        target: genresTable.tmdb_id,
+        set: {
+          name: sql`excluded.name`,
+          media_types: sql`excluded.media_types`,
+          synced_at: now,
+          updated_at: now
+        }
+      })
+      .execute();
+
+    // Items linked to a renamed genre pick up its new name
+    if (renamedIds.length > 0) {
+      await tx.update(mediaItemsTable)
+        .set({ genres: linkedGenreNames() })
+        .where(inArray(mediaItemsTable.id, tx.select({ id: mediaItemGenresTable.media_item_id })
+          .from(mediaItemGenresTable)
+          .innerJoin(genresTable, eq(mediaItemGenresTable.genre_id, genresTable.id))
+          .where(inArray(genresTable.tmdb_id, renamedIds))))
+        .execute();
+    }
+
+    for (const genre of localized) {
+      await tx.update(genresTable)
+        .set({ localized_names: sql`${genresTable.localized_names} || ${JSON.stringify({ [language]: genre.name })}::jsonb` })
+        .where(eq(genresTable.tmdb_id, genre.tmdb_id))
+        .execute();
+    }
+  });
+}
+
+// Stores the fallback genres the table does not have yet; genres already synced are left alone
+async function seedFallbackGenres(genres: SyncedGenre[]): Promise<void> {
+  if (genres.length === 0) {
+    return;
+  }
+  await db.insert(genresTable)
+    .values(genres.map(genre => ({ ...genre, synced_at: NEVER_SYNCED })))
+    .onConflictDoNothing()
+    .execute();
+}
+
+// Stored genres for TMDB genre IDs, in the order given. Unknown IDs trigger a sync, unless one ran
+// recently; IDs still unknown afterwards are taken from the fallback list, or left out if it lacks them.
+export async function resolveGenres(genreIds: number[]): Promise<GenreRow[]> {
+  if (genreIds.length === 0) {
+    return [];
+  }
+
+  const load = () => db.select()
+    .from(genresTable)
+    .where(inArray(genresTable.tmdb_id, genreIds))
+    .execute();
+
+  let genres = await load();
+  if (genres.length < new Set(genreIds).size) {
+    const [{ lastSynced }] = await db.select({ lastSynced: max(genresTable.synced_at) })
+      .from(genresTable)
+      .execute();
+    if (lastSynced === null || Date.now() - lastSynced.getTime() >= UNKNOWN_GENRE_RESYNC_MINUTES * MINUTE_MS) {
+      try {
+        await syncGenres();
+        genres = await load();
+      } catch (error) {
+        console.error('Syncing genres failed:', error);
+      }
+    }
+  }
+
+  const missing = FALLBACK_GENRES.filter(fallback =>
+    genreIds.includes(fallback.tmdb_id) && !genres.some(genre => genre.tmdb_id === fallback.tmdb_id));
+  if (missing.length > 0) {
+    await seedFallbackGenres(missing);
+    genres = await load();
+  }
+
+  const byTmdbId = new Map(genres.map(genre => [genre.tmdb_id, genre]));
+  return Array.from(new Set(genreIds))
+    .map(id => byTmdbId.get(id))
+    .filter((genre): genre is GenreRow => genre !== undefined);
+}
+
+// Stored genres matching canonical names, in the order given. Names not stored yet are taken from the
+// fallback list; names no genre has, such as a hand-entered Sci-Fi, become genres of their own without a
+// TMDB ID until a sync lists a genre of that name.
+export async function genresByName(names: string[], mediaType: MetadataMediaType): Promise<GenreRow[]> {
+  if (names.length === 0) {
+    return [];
+  }
+  const load = () => db.select()
+    .from(genresTable)
+    .where(inArray(genresTable.name, names))
+    .execute();
+
+  let genres = await load();
+  const missing = FALLBACK_GENRES.filter(fallback =>
+    names.includes(fallback.name) && !genres.some(genre => genre.name === fallback.name));
+  if (missing.length > 0) {
+    await seedFallbackGenres(missing);
+    genres = await load();
+  }
+
+  const unlisted = Array.from(new Set(names)).filter(name => !genres.some(genre => genre.name === name));
+  if (unlisted.length > 0) {
+    await db.insert(genresTable)
+      .values(unlisted.map(name => ({ tmdb_id: null, name, media_types: [mediaType], synced_at: NEVER_SYNCED })))
+      .onConflictDoNothing()
+      .execute();
+    genres = await load();
+  }
+
+  // A listed genre wins over one of the same name that is only known by name
+  const byName = new Map<string, GenreRow>();
+  genres
+    .filter(genre => genre.tmdb_id === null)
+    .concat(genres.filter(genre => genre.tmdb_id !== null))
+    .forEach(genre => byName.set(genre.name, genre));
+  return Array.from(new Set(names))
+    .map(name => byName.get(name))
+    .filter((genre): genre is GenreRow => genre !== undefined);
+}
+
+// Replaces the media item's genre links and rewrites its genres array from them; returns the updated item
+export async function setMediaItemGenres(mediaItemId: number, genres: GenreRow[]): Promise<MediaItemRow> {
+  return db.transaction(async (tx) => {
+    await tx.delete(mediaItemGenresTable)
+      .where(eq(mediaItemGenresTable.media_item_id, mediaItemId))
+      .execute();
+    if (genres.length > 0) {
+      await tx.insert(mediaItemGenresTable)
+        .values(genres.map((genre, position) => ({ media_item_id: mediaItemId, genre_id: genre.id, position })))
+        .execute();
+    }
+
+    const [mediaItem] = await tx.update(mediaItemsTable)
+      .set({ genres: linkedGenreNames() })
+      .where(eq(mediaItemsTable.id, mediaItemId))
+      .returning()
+      .execute();
+    return mediaItem;
+  });
+}
+
+// Rewrites the genres array of every linked media item whose array no longer matches its links; returns
+// how many were repaired. Items without links are left to the backfill, which links them by name.
+export async function repairMediaItemGenreArrays(): Promise<number> {
+  try {
+    const repaired = await db.update(mediaItemsTable)
+      .set({ genres: linkedGenreNames(), updated_at: new Date() })
+      .where(and(
+        exists(db.select().from(mediaItemGenresTable).where(eq(mediaItemGenresTable.media_item_id, mediaItemsTable.id))),
+        sql`${mediaItemsTable.genres} is distinct from ${linkedGenreNames()}`
+      ))
+      .returning({ id: mediaItemsTable.id })
+      .execute();
+    return repaired.length;
+  } catch (error) {
+    console.error('Repairing media item genres failed:', error);
+    throw error;
+  }
+}
+
+export async function listGenres(input: ListGenresInput): Promise<Genre[]> {
+  try {
+    const language = input.language ?? METADATA_LANGUAGE;
+
+    // Sync when the last successful sync has gone stale or the language has never been fetched; if the
+    // provider cannot be reached the stored list is served. Genres no sync has listed do not count, or a
+    // fallback genre the provider dropped would force a sync on every call.
+    const [{ lastSynced }] = await db.select({ lastSynced: max(genresTable.synced_at) })
+      .from(genresTable)
+      .execute();
+    const [{ translated }] = await db.select({ translated: sql<number>`count(*)::int` })
+      .from(genresTable)
+      .where(sql`${genresTable.localized_names} ? ${language}`)
+      .execute();
+    if (genresAreStale(lastSynced) || (language !== METADATA_LANGUAGE && translated === 0)) {
+      try {
+        await syncGenres(language);
+      } catch (error) {
+        console.error('Syncing genres failed:', error);
+      }
+    }
+
+    const genres = await db.select().from(genresTable).execute();
+
+    return genres
+      .filter(genre => input.media_type === 'all' || genre.media_types.includes(input.media_type))
+      .map(genre => ({
+        id: genre.id,
+        tmdb_id: genre.tmdb_id,
+        name: localizedGenreName(genre, language),
+        canonical_name: genre.name,
+        media_types: genre.media_types
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, language));
+  } catch (error) {
+    console.error('List genres failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,39 @@
+import { on } from 'node:events';
+import { type GroupMatchSubscriptionInput, type GroupMatch } from '../schema';
+import { groupEvents, groupMatchEvent } from '../lib/group_events';
+import { getGroupSession } from './get_group_session';
+import { loadGroupMatches } from './get_group_matches';
+
+// Streams a group's matches as they are made, until the signal aborts. A reconnecting client passes
+// the id of the last match it received and is first sent any it missed.
+export async function* onGroupMatch(input: GroupMatchSubscriptionInput, signal?: AbortSignal): AsyncGenerator<GroupMatch> {
+  await getGroupSession({ group_session_id: input.group_session_id });
+
+  // Listen before replaying so that a match made in between is not lost
+  const events = on(groupEvents, groupMatchEvent(input.group_session_id), { signal });
+  try {
+    let lastMatchId = input.lastEventId ? parseInt(input.lastEventId, 10) : undefined;
+    if (lastMatchId !== undefined) {
+      for (const match of await loadGroupMatches(input.group_session_id, { afterMatchId: lastMatchId })) {
+        lastMatchId = match.id;
+        yield match;
+      }
+    }
+
+    for await (const [match] of events as AsyncIterable<[GroupMatch]>) {
+      // Already sent during the replay
+      if (lastMatchId !== undefined && match.id <= lastMatchId) {
+        continue;
+      }
+      yield match;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return;
+    }
+    console.error('Group match subscription failed:', error);
+    throw error;
+  } finally {
+    await events.return?.();
+  }
+}
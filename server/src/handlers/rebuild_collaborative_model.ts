@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { userInteractionsTable, itemCooccurrencesTable } from '../db/schema';
+import { type CollaborativeModelSummary } from '../schema';
+import { inArray } from 'drizzle-orm';
+import { computeCooccurrences, ownerKey } from '../lib/collaborative';
+
+const INSERT_BATCH_SIZE = 1000;
+
+export async function rebuildCollaborativeModel(): Promise<CollaborativeModelSummary> {
+  try {
+    // Positive interactions from every user and guest session
+    const likes = await db.select({
+      user_id: userInteractionsTable.user_id,
+      session_id: userInteractionsTable.session_id,
+      media_item_id: userInteractionsTable.media_item_id
+    })
+      .from(userInteractionsTable)
+      .where(inArray(userInteractionsTable.interaction_type, ['like', 'watched_liked']))
+      .execute();
+
+    const ownerLikes = likes.map(like => ({
+      owner_key: ownerKey(like.user_id, like.session_id),
+      media_item_id: like.media_item_id
+    }));
+    const pairs = computeCooccurrences(ownerLikes);
+
+    // Replace the previous model atomically so readers never see a partial rebuild
+    await db.transaction(async (tx) => {
+      await tx.delete(itemCooccurrencesTable).execute();
+      for (let i = 0; i < pairs.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(itemCooccurrencesTable)
+          .values(pairs.slice(i, i + INSERT_BATCH_SIZE).map(pair => ({
+            ...pair,
+            similarity: pair.similarity.toFixed(4) // Convert to string for numeric column
+          })))
+          .execute();
+      }
+    });
+
+    return {
+      owners: new Set(ownerLikes.map(like => like.owner_key)).size,
+      pairs: pairs.length,
+      rebuilt_at: new Date()
+    };
+  } catch (error) {
+    console.error('Collaborative model rebuild failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+import { db } from '../db';
+import { mediaItemsTable, mediaItemVectorsTable, termDocumentFrequenciesTable } from '../db/schema';
+import { type TextVectorsSummary } from '../schema';
+import { eq, inArray, lte, count, sql } from 'drizzle-orm';
+import { documentFrequencyDelta, itemTermCounts, tfidfVector, type TermCounts, type VectorisableItem } from '../lib/text_vectors';
+
+const INSERT_BATCH_SIZE = 1000;
+
+// Stores the item's term counts and keeps document frequencies in step; called whenever an item is saved
+export async function refreshMediaItemVector(item: VectorisableItem & { id: number }): Promise<void> {
+  const counts = itemTermCounts(item);
+
+  await db.transaction(async (tx) => {
+    // Lock the previous vector so concurrent refreshes of the same item apply their deltas in turn
+    const previous = await tx.select()
+      .from(mediaItemVectorsTable)
+      .where(eq(mediaItemVectorsTable.media_item_id, item.id))
+      .for('update')
+      .execute();
+
+    const delta = documentFrequencyDelta(previous[0]?.term_counts ?? null, counts);
+    if (delta.size > 0) {
+      await tx.insert(termDocumentFrequenciesTable)
+        .values(Array.from(delta.entries()).map(([term, change]) => ({ term, document_count: change })))
+        .onConflictDoUpdate({
+          target: termDocumentFrequenciesTable.term,
+          set: { document_count: sql`${termDocumentFrequenciesTable.document_count} + excluded.document_count` }
+        })
+        .execute();
+      await tx.delete(termDocumentFrequenciesTable)
+        .where(lte(termDocumentFrequenciesTable.document_count, 0))
+        .execute();
+    }
+
+    await tx.insert(mediaItemVectorsTable)
+      .values({ media_item_id: item.id, term_counts: counts })
+      .onConflictDoUpdate({
+        target: mediaItemVectorsTable.media_item_id,
+        set: { term_counts: counts, updated_at: new Date() }
+      })
+      .execute();
+  });
+}
+
+// TF-IDF vectors for the given items, weighted by current document frequencies. Items saved before
+// vectors existed are vectorised on the fly from their text.
+export async function loadTextVectors(items: (VectorisableItem & { id: number })[]): Promise<Map<number, Map<string, number>>> {
+  if (items.length === 0) {
+    return new Map();
+  }
+
+  const stored = await db.select()
+    .from(mediaItemVectorsTable)
+    .where(inArray(mediaItemVectorsTable.media_item_id, items.map(item => item.id)))
+    .execute();
+  const countsById = new Map<number, TermCounts>(stored.map(row => [row.media_item_id, row.term_counts]));
+  items
+    .filter(item => !countsById.has(item.id))
+    .forEach(item => countsById.set(item.id, itemTermCounts(item)));
+
+  const terms = Array.from(new Set(Array.from(countsById.values()).flatMap(counts => Object.keys(counts))));
+  const frequencies = terms.length > 0
+    ? await db.select()
+        .from(termDocumentFrequenciesTable)
+        .where(inArray(termDocumentFrequenciesTable.term, terms))
+        .execute()
+    : [];
+  const documentFrequencies = new Map(frequencies.map(row => [row.term, row.document_count]));
+  const [{ total }] = await db.select({ total: count() })
+    .from(mediaItemVectorsTable)
+    .execute();
+
+  const vectors = new Map<number, Map<string, number>>();
+  countsById.forEach((counts, id) => vectors.set(id, tfidfVector(counts, documentFrequencies, total)));
+  return vectors;
+}
+
+// Recomputes every item's vector and all document frequencies from scratch, e.g. to backfill existing items
+export async function rebuildTextVectors(): Promise<TextVectorsSummary> {
+  try {
+    const items = await db.select({
+      id: mediaItemsTable.id,
+      title: mediaItemsTable.title,
+      overview: mediaItemsTable.overview
+    })
+      .from(mediaItemsTable)
+      .execute();
+
+    const vectors = items.map(item => ({ media_item_id: item.id, term_counts: itemTermCounts(item) }));
+    const documentFrequencies = new Map<string, number>();
+    vectors.forEach(vector => Object.keys(vector.term_counts).forEach(term => {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }));
+    const frequencyRows = Array.from(documentFrequencies.entries()).map(([term, document_count]) => ({ term, document_count }));
+
+    // Replace the previous vectors atomically so readers never see a partial rebuild
+    await db.transaction(async (tx) => {
+      await tx.delete(mediaItemVectorsTable).execute();
+      await tx.delete(termDocumentFrequenciesTable).execute();
+      for (let i = 0; i < vectors.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(mediaItemVectorsTable)
+          .values(vectors.slice(i, i + INSERT_BATCH_SIZE))
+          .execute();
+      }
+      for (let i = 0; i < frequencyRows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(termDocumentFrequenciesTable)
+          .values(frequencyRows.slice(i, i + INSERT_BATCH_SIZE))
+          .execute();
+      }
+    });
+
+    return {
+      items: vectors.length,
+      terms: frequencyRows.length,
+      rebuilt_at: new Date()
+    };
+  } catch (error) {
+    console.error('Text vector rebuild failed:', error);
+    throw error;
+  }
+}
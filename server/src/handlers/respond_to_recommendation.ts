@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { recommendationsTable, mediaItemsTable } from '../db/schema';
+import { type RespondToRecommendationInput, type Recommendation } from '../schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { franchiseKey, isExcluded } from '../lib/recommendation_responses';
+
+export async function respondToRecommendation(input: RespondToRecommendationInput): Promise<Recommendation> {
+  try {
+    // Validate that either user_id or session_id is provided
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    const existing = await db.select()
+      .from(recommendationsTable)
+      .innerJoin(mediaItemsTable, eq(recommendationsTable.media_item_id, mediaItemsTable.id))
+      .where(eq(recommendationsTable.id, input.recommendation_id))
+      .limit(1)
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Recommendation with id ${input.recommendation_id} does not exist`);
+    }
+
+    const recommendation = existing[0].recommendations;
+    const mediaItem = existing[0].media_items;
+
+    // Only the owner of a recommendation may respond to it
+    const isOwner = input.user_id
+      ? recommendation.user_id === input.user_id
+      : recommendation.session_id === input.session_id;
+    if (!isOwner) {
+      throw new Error(`Recommendation with id ${input.recommendation_id} does not belong to this user or session`);
+    }
+
+    const now = new Date();
+    let resurfaceAt: Date | null = null;
+    let scope: 'item' | 'genre' | 'franchise' | null = null;
+    let scopeValue: string | null = null;
+
+    if (input.response === 'snoozed') {
+      if (!input.resurface_at || input.resurface_at <= now) {
+        throw new Error('A future resurface_at date is required to snooze a recommendation');
+      }
+      resurfaceAt = input.resurface_at;
+    }
+
+    if (input.response === 'not_interested') {
+      scope = input.scope ?? 'item';
+      if (scope === 'genre') {
+        if (!input.genre || !mediaItem.genres.includes(input.genre)) {
+          throw new Error(`Genre must be one of the recommended item's genres: ${mediaItem.genres.join(', ')}`);
+        }
+        scopeValue = input.genre;
+      } else if (scope === 'franchise') {
+        scopeValue = franchiseKey(mediaItem.title);
+      }
+    }
+
+    const result = await db.update(recommendationsTable)
+      .set({
+        response: input.response,
+        responded_at: now,
+        resurface_at: resurfaceAt,
+        response_scope: scope,
+        response_scope_value: scopeValue,
+        // Responding implies the recommendation was seen
+        shown: true,
+        shown_at: recommendation.shown_at ?? now
+      })
+      .where(eq(recommendationsTable.id, recommendation.id))
+      .returning()
+      .execute();
+
+    // Drop queued recommendations that a scoped "not interested" now rules out
+    if (scope === 'genre' || scope === 'franchise') {
+      const ownerCondition = recommendation.user_id
+        ? eq(recommendationsTable.user_id, recommendation.user_id)
+        : eq(recommendationsTable.session_id, recommendation.session_id as string);
+      const queued = await db.select({
+        id: recommendationsTable.id,
+        media_item_id: mediaItemsTable.id,
+        title: mediaItemsTable.title,
+        genres: mediaItemsTable.genres
+      })
+        .from(recommendationsTable)
+        .innerJoin(mediaItemsTable, eq(recommendationsTable.media_item_id, mediaItemsTable.id))
+        .where(and(ownerCondition, eq(recommendationsTable.shown, false)))
+        .execute();
+
+      const exclusions = {
+        media_item_ids: new Set<number>(),
+        genres: new Set(scope === 'genre' ? [scopeValue as string] : []),
+        franchises: new Set(scope === 'franchise' ? [scopeValue as string] : [])
+      };
+      const ruledOut = queued
+        .filter(rec => isExcluded({ id: rec.media_item_id, title: rec.title, genres: rec.genres }, exclusions))
+        .map(rec => rec.id);
+
+      if (ruledOut.length > 0) {
+        await db.delete(recommendationsTable)
+          .where(inArray(recommendationsTable.id, ruledOut))
+          .execute();
+      }
+    }
+
+    const updated = result[0];
+    return {
+      ...updated,
+      score: parseFloat(updated.score), // Convert numeric fields back to numbers
+      raw_score: updated.raw_score === null ? null : parseFloat(updated.raw_score)
+    };
+  } catch (error) {
+    console.error('Respond to recommendation failed:', error);
+    throw error;
+  }
+}
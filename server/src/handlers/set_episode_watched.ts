@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { episodesTable, episodeProgressTable } from '../db/schema';
+import { type SetEpisodeWatchedInput, type ShowProgress } from '../schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { compareEpisodes } from '../lib/tv_progress';
+import { episodeOwnerCondition, loadShowEpisodes, loadShowProgress } from './get_tv_seasons';
+
+export async function setEpisodeWatched(input: SetEpisodeWatchedInput): Promise<ShowProgress> {
+  try {
+    const ownerCondition = episodeOwnerCondition(input);
+    if (!ownerCondition) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    const episodes = await db.select()
+      .from(episodesTable)
+      .where(eq(episodesTable.id, input.episode_id))
+      .execute();
+
+    if (episodes.length === 0) {
+      throw new Error(`Episode with id ${input.episode_id} does not exist`);
+    }
+
+    // Catching up marks every regular episode up to this one; specials are left alone
+    const episode = episodes[0];
+    const affected = input.include_previous
+      ? (await loadShowEpisodes([episode.media_item_id]))
+          .filter(candidate => candidate.id === episode.id ||
+            (candidate.season_number > 0 && compareEpisodes(candidate, episode) < 0))
+      : [episode];
+
+    if (input.watched) {
+      await db.insert(episodeProgressTable)
+        .values(affected.map(candidate => ({
+          user_id: input.user_id || null,
+          session_id: input.session_id || null,
+          media_item_id: candidate.media_item_id,
+          episode_id: candidate.id
+        })))
+        .onConflictDoNothing()
+        .execute();
+    } else {
+      await db.delete(episodeProgressTable)
+        .where(and(ownerCondition, inArray(episodeProgressTable.episode_id, affected.map(candidate => candidate.id))))
+        .execute();
+    }
+
+    return await loadShowProgress(input, episode.media_item_id);
+  } catch (error) {
+    console.error('Set episode watched failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,65 @@
+import { db } from '../db';
+import { onboardingProfilesTable, userProfilesTable, mediaItemsTable } from '../db/schema';
+import { type SubmitOnboardingInput, type OnboardingProfile } from '../schema';
+import { eq, inArray } from 'drizzle-orm';
+
+export async function submitOnboarding(input: SubmitOnboardingInput): Promise<OnboardingProfile> {
+  try {
+    // Validate that either user_id or session_id is provided
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    if (input.user_id) {
+      const userExists = await db.select()
+        .from(userProfilesTable)
+        .where(eq(userProfilesTable.id, input.user_id))
+        .limit(1)
+        .execute();
+
+      if (userExists.length === 0) {
+        throw new Error(`User with id ${input.user_id} does not exist`);
+      }
+    }
+
+    const seedIds = Array.from(new Set(input.liked_media_item_ids));
+    if (seedIds.length > 0) {
+      const existing = await db.select({ id: mediaItemsTable.id })
+        .from(mediaItemsTable)
+        .where(inArray(mediaItemsTable.id, seedIds))
+        .execute();
+      const existingIds = new Set(existing.map(item => item.id));
+      const missing = seedIds.find(id => !existingIds.has(id));
+      if (missing !== undefined) {
+        throw new Error(`Media item with id ${missing} does not exist`);
+      }
+    }
+
+    const favouriteGenres = Array.from(new Set(input.favourite_genres));
+
+    // Retaking the quiz replaces the earlier answers. A signed-in user's profile is kept under their
+    // user id alone, so it never collides with the profile of the guest session they started in.
+    const result = await db.insert(onboardingProfilesTable)
+      .values({
+        user_id: input.user_id || null,
+        session_id: input.user_id ? null : input.session_id || null,
+        favourite_genres: favouriteGenres,
+        seed_media_item_ids: seedIds
+      })
+      .onConflictDoUpdate({
+        target: input.user_id ? onboardingProfilesTable.user_id : onboardingProfilesTable.session_id,
+        set: {
+          favourite_genres: favouriteGenres,
+          seed_media_item_ids: seedIds,
+          updated_at: new Date()
+        }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Onboarding submission failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,94 @@
+import { db } from '../db';
+import { userPreferencesTable, userProfilesTable, recommendationsTable, mediaItemsTable } from '../db/schema';
+import { type UpdateUserPreferencesInput, type UserPreferences } from '../schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getUserPreferences } from './get_user_preferences';
+import { matchesPreferences } from '../lib/preference_filters';
+
+export async function updateUserPreferences(input: UpdateUserPreferencesInput): Promise<UserPreferences> {
+  try {
+    // Validate that either user_id or session_id is provided
+    if (!input.user_id && !input.session_id) {
+      throw new Error('Either user_id or session_id must be provided');
+    }
+
+    if (input.user_id) {
+      const userExists = await db.select()
+        .from(userProfilesTable)
+        .where(eq(userProfilesTable.id, input.user_id))
+        .limit(1)
+        .execute();
+
+      if (userExists.length === 0) {
+        throw new Error(`User with id ${input.user_id} does not exist`);
+      }
+    }
+
+    // Omitted fields keep their current value, null clears a bound
+    const current = await getUserPreferences(input);
+    const keep = <T>(value: T | undefined, fallback: T): T => value === undefined ? fallback : value;
+    const updated = {
+      preferred_genres: keep(input.preferred_genres, current?.preferred_genres ?? []),
+      excluded_genres: keep(input.excluded_genres, current?.excluded_genres ?? []),
+      allowed_languages: keep(input.allowed_languages, current?.allowed_languages ?? []),
+      min_release_year: keep(input.min_release_year, current?.min_release_year ?? null),
+      max_release_year: keep(input.max_release_year, current?.max_release_year ?? null),
+      min_vote_average: keep(input.min_vote_average, current?.min_vote_average ?? null),
+      min_vote_count: keep(input.min_vote_count, current?.min_vote_count ?? null),
+      include_adult: keep(input.include_adult, current?.include_adult ?? false)
+    };
+
+    if (updated.min_release_year !== null && updated.max_release_year !== null && updated.min_release_year > updated.max_release_year) {
+      throw new Error('min_release_year must not be after max_release_year');
+    }
+    const conflicting = updated.preferred_genres.filter(genre => updated.excluded_genres.includes(genre));
+    if (conflicting.length > 0) {
+      throw new Error(`Genres cannot be both preferred and excluded: ${conflicting.join(', ')}`);
+    }
+
+    const values = {
+      ...updated,
+      min_vote_average: updated.min_vote_average === null ? null : updated.min_vote_average.toString() // Convert to string for numeric column
+    };
+    // A signed-in user's preferences are kept under their user id alone, so they never collide with
+    // the preferences of the guest session they started in
+    const result = await db.insert(userPreferencesTable)
+      .values({ ...values, user_id: input.user_id || null, session_id: input.user_id ? null : input.session_id || null })
+      .onConflictDoUpdate({
+        target: input.user_id ? userPreferencesTable.user_id : userPreferencesTable.session_id,
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    // Queued recommendations the new exclusions rule out are dropped before they can be served
+    const ownerCondition = input.user_id
+      ? eq(recommendationsTable.user_id, input.user_id)
+      : eq(recommendationsTable.session_id, input.session_id as string);
+    const queued = await db.select()
+      .from(recommendationsTable)
+      .innerJoin(mediaItemsTable, eq(recommendationsTable.media_item_id, mediaItemsTable.id))
+      .where(and(ownerCondition, eq(recommendationsTable.shown, false)))
+      .execute();
+    const ruledOut = queued
+      .filter(({ media_items }) => !matchesPreferences({
+        ...media_items,
+        vote_average: parseFloat(media_items.vote_average)
+      }, updated))
+      .map(({ recommendations }) => recommendations.id);
+    if (ruledOut.length > 0) {
+      await db.delete(recommendationsTable)
+        .where(inArray(recommendationsTable.id, ruledOut))
+        .execute();
+    }
+
+    const preferences = result[0];
+    return {
+      ...preferences,
+      min_vote_average: preferences.min_vote_average === null ? null : parseFloat(preferences.min_vote_average) // Convert numeric field to number
+    };
+  } catch (error) {
+    console.error('Failed to update user preferences:', error);
+    throw error;
+  }
+}
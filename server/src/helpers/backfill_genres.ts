@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { backfillMediaItemGenres } from '../handlers/backfill_media_item_genres';
+
+// Migration from the genres text array to the genres and media_item_genres tables. The server runs it
+// on startup; to migrate without starting the server, run it after `bun db:push` has created the tables:
+//
+//   bun run backfill:genres
+//
+// Uses the metadata provider configured by METADATA_PROVIDER to sync the genre list first, or the
+// standard genre lists when the provider cannot be reached.
+
+async function main() {
+  try {
+    const result = await backfillMediaItemGenres();
+    console.log(`Linked ${result.links} genres across ${result.media_items} media items`);
+    if (result.unmatched.length > 0) {
+      console.log(`Kept genre names the provider does not list as genres of their own: ${result.unmatched.join(', ')}`);
+    }
+  } finally {
+    await db.$client.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Genre backfill failed:', error);
+  process.exit(1);
+});
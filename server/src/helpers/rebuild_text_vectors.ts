@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { rebuildTextVectors } from '../handlers/rebuild_text_vectors';
+
+// Text vectors are kept up to date as media items are saved. Rebuilding them from scratch is only needed
+// after the vectorisation changes, or to repair the stored document frequencies:
+//
+//   bun run rebuild:vectors
+
+async function main() {
+  try {
+    const result = await rebuildTextVectors();
+    console.log(`Vectorised ${result.items} media items over ${result.terms} terms`);
+  } finally {
+    await db.$client.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Text vector rebuild failed:', error);
+  process.exit(1);
+});
@@ -1,4 +1,4 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, tracked } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
@@ -10,28 +10,71 @@ import {
   createUserProfileInputSchema,
   searchInputSchema,
   popularItemsInputSchema,
+  trendingItemsInputSchema,
   createUserInteractionInputSchema,
   getRecommendationsInputSchema,
   getUserInteractionsInputSchema,
   watchlistInputSchema,
+  tvSeasonsInputSchema,
+  setEpisodeWatchedInputSchema,
+  continueWatchingInputSchema,
   createMediaItemInputSchema,
-  sessionInputSchema
+  mediaItemDetailsInputSchema,
+  listGenresInputSchema,
+  sessionInputSchema,
+  similarItemsInputSchema,
+  respondToRecommendationInputSchema,
+  experimentReportInputSchema,
+  onboardingTitlesInputSchema,
+  submitOnboardingInputSchema,
+  userPreferencesInputSchema,
+  updateUserPreferencesInputSchema,
+  createGroupSessionInputSchema,
+  joinGroupSessionInputSchema,
+  groupSessionInputSchema,
+  groupRecommendationsInputSchema,
+  castGroupVoteInputSchema,
+  groupMatchSubscriptionInputSchema
 } from './schema';
 
 // Import handlers
 import { createUserProfile } from './handlers/create_user_profile';
 import { getPopularItems } from './handlers/get_popular_items';
+import { getTrendingItems } from './handlers/get_trending_items';
 import { searchMedia } from './handlers/search_media';
 import { createUserInteraction } from './handlers/create_user_interaction';
 import { getUserInteractions } from './handlers/get_user_interactions';
 import { generateRecommendations } from './handlers/generate_recommendations';
 import { getNextRecommendation } from './handlers/get_next_recommendation';
+import { getSimilarItems } from './handlers/get_similar_items';
+import { respondToRecommendation } from './handlers/respond_to_recommendation';
+import { rebuildCollaborativeModel } from './handlers/rebuild_collaborative_model';
+import { fitScoreCalibration } from './handlers/fit_score_calibration';
+import { getScoreCalibration } from './handlers/get_score_calibration';
+import { getExperimentReport } from './handlers/get_experiment_report';
+import { getOnboardingTitles } from './handlers/get_onboarding_titles';
+import { submitOnboarding } from './handlers/submit_onboarding';
+import { getUserPreferences } from './handlers/get_user_preferences';
+import { updateUserPreferences } from './handlers/update_user_preferences';
 import { addToWatchlist } from './handlers/add_to_watchlist';
 import { removeFromWatchlist } from './handlers/remove_from_watchlist';
 import { getWatchlist } from './handlers/get_watchlist';
+import { getTvSeasons } from './handlers/get_tv_seasons';
+import { setEpisodeWatched } from './handlers/set_episode_watched';
+import { continueWatching } from './handlers/continue_watching';
 import { createMediaItem } from './handlers/create_media_item';
 import { getMediaItemByTmdbId } from './handlers/get_media_item_by_tmdb_id';
+import { getMediaItemDetails } from './handlers/get_media_item_details';
+import { listGenres, repairMediaItemGenreArrays } from './handlers/list_genres';
+import { backfillMediaItemGenres } from './handlers/backfill_media_item_genres';
 import { createGuestSession } from './handlers/create_guest_session';
+import { createGroupSession } from './handlers/create_group_session';
+import { joinGroupSession } from './handlers/join_group_session';
+import { getGroupSession } from './handlers/get_group_session';
+import { generateGroupRecommendations } from './handlers/generate_group_recommendations';
+import { castGroupVote } from './handlers/cast_group_vote';
+import { getGroupMatches } from './handlers/get_group_matches';
+import { onGroupMatch } from './handlers/on_group_match';
 
 const t = initTRPC.create({
   transformer: superjson,
@@ -55,11 +98,33 @@ const appRouter = router({
   createGuestSession: publicProcedure
     .mutation(() => createGuestSession()),
 
+  // Explicit preferences and hard exclusions
+  getUserPreferences: publicProcedure
+    .input(userPreferencesInputSchema)
+    .query(({ input }) => getUserPreferences(input)),
+
+  updateUserPreferences: publicProcedure
+    .input(updateUserPreferencesInputSchema)
+    .mutation(({ input }) => updateUserPreferences(input)),
+
+  // Cold-start onboarding quiz
+  getOnboardingTitles: publicProcedure
+    .input(onboardingTitlesInputSchema)
+    .query(({ input }) => getOnboardingTitles(input)),
+
+  submitOnboarding: publicProcedure
+    .input(submitOnboardingInputSchema)
+    .mutation(({ input }) => submitOnboarding(input)),
+
   // Media content discovery
   getPopularItems: publicProcedure
     .input(popularItemsInputSchema)
     .query(({ input }) => getPopularItems(input)),
 
+  getTrendingItems: publicProcedure
+    .input(trendingItemsInputSchema)
+    .query(({ input }) => getTrendingItems(input)),
+
   searchMedia: publicProcedure
     .input(searchInputSchema)
     .query(({ input }) => searchMedia(input)),
@@ -73,6 +138,14 @@ const appRouter = router({
     .input(z.number())
     .query(({ input }) => getMediaItemByTmdbId(input)),
 
+  getMediaItemDetails: publicProcedure
+    .input(mediaItemDetailsInputSchema)
+    .query(({ input }) => getMediaItemDetails(input)),
+
+  listGenres: publicProcedure
+    .input(listGenresInputSchema)
+    .query(({ input }) => listGenres(input)),
+
   // User interactions (likes, dislikes, watched, etc.)
   createUserInteraction: publicProcedure
     .input(createUserInteractionInputSchema)
@@ -91,6 +164,58 @@ const appRouter = router({
     .input(getRecommendationsInputSchema)
     .query(({ input }) => getNextRecommendation(input)),
 
+  respondToRecommendation: publicProcedure
+    .input(respondToRecommendationInputSchema)
+    .mutation(({ input }) => respondToRecommendation(input)),
+
+  getSimilarItems: publicProcedure
+    .input(similarItemsInputSchema)
+    .query(({ input }) => getSimilarItems(input)),
+
+  // Score calibration diagnostics: the curve mapping ranking scores to outcome probabilities. Fits run
+  // on the server's rebuild schedule.
+  getScoreCalibration: publicProcedure
+    .query(() => getScoreCalibration()),
+
+  getExperimentReport: publicProcedure
+    .input(experimentReportInputSchema)
+    .query(({ input }) => getExperimentReport(input)),
+
+  // Group sessions ("what should we watch together")
+  createGroupSession: publicProcedure
+    .input(createGroupSessionInputSchema)
+    .mutation(({ input }) => createGroupSession(input)),
+
+  joinGroupSession: publicProcedure
+    .input(joinGroupSessionInputSchema)
+    .mutation(({ input }) => joinGroupSession(input)),
+
+  getGroupSession: publicProcedure
+    .input(groupSessionInputSchema)
+    .query(({ input }) => getGroupSession(input)),
+
+  generateGroupRecommendations: publicProcedure
+    .input(groupRecommendationsInputSchema)
+    .mutation(({ input }) => generateGroupRecommendations(input)),
+
+  // Match mode: members swipe on the same titles until enough of them like one
+  castGroupVote: publicProcedure
+    .input(castGroupVoteInputSchema)
+    .mutation(({ input }) => castGroupVote(input)),
+
+  getGroupMatches: publicProcedure
+    .input(groupSessionInputSchema)
+    .query(({ input }) => getGroupMatches(input)),
+
+  // Server-sent events; the match id lets reconnecting clients resume where they left off
+  onGroupMatch: publicProcedure
+    .input(groupMatchSubscriptionInputSchema)
+    .subscription(async function* ({ input, signal }) {
+      for await (const match of onGroupMatch(input, signal)) {
+        yield tracked(String(match.id), match);
+      }
+    }),
+
   // Watchlist management
   addToWatchlist: publicProcedure
     .input(watchlistInputSchema)
@@ -103,11 +228,29 @@ const appRouter = router({
   getWatchlist: publicProcedure
     .input(watchlistInputSchema)
     .query(({ input }) => getWatchlist(input)),
+
+  // TV seasons and episode progress
+  getTvSeasons: publicProcedure
+    .input(tvSeasonsInputSchema)
+    .query(({ input }) => getTvSeasons(input)),
+
+  setEpisodeWatched: publicProcedure
+    .input(setEpisodeWatchedInputSchema)
+    .mutation(({ input }) => setEpisodeWatched(input)),
+
+  continueWatching: publicProcedure
+    .input(continueWatchingInputSchema)
+    .query(({ input }) => continueWatching(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  // Databases created before genres had their own tables are migrated before any request is served
+  await backfillMediaItemGenres().catch(() => {
+    // Already logged by the handler; the next start will retry
+  });
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
@@ -121,6 +264,15 @@ async function start() {
   server.listen(port);
   console.log(`Next Watch TRPC server listening at port: ${port}`);
   console.log(`🎬 Movie recommendation API ready!`);
+
+  // Rebuild the collaborative filtering model, refit the score calibration and check that media item genre
+  // arrays match their genre links on startup and then periodically
+  const rebuildIntervalMinutes = Number(process.env['COLLABORATIVE_REBUILD_INTERVAL_MINUTES'] || 60);
+  const rebuild = () => Promise.all([rebuildCollaborativeModel(), fitScoreCalibration(), repairMediaItemGenreArrays()]).catch(() => {
+    // Already logged by the handlers; the next scheduled run will retry
+  });
+  rebuild();
+  setInterval(rebuild, rebuildIntervalMinutes * 60 * 1000);
 }
 
 start();
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { type CalibrationPoint, type Recommendation, type ReliabilityBin, type UserInteraction } from '../schema';
+
+// Score calibration: ranking scores are hand-weighted sums, so a raw 0.8 says little about how likely
+// the owner is to interact positively. Isotonic regression on past outcomes maps raw scores to observed
+// rates while keeping their order.
+
+export interface CalibrationOutcome {
+  raw_score: number;
+  positive: boolean;
+}
+
+export interface CalibratedPrediction {
+  predicted: number;
+  positive: boolean;
+}
+
+export interface ShownRecommendation {
+  response: Recommendation['response'];
+  shown_at: Date | null;
+}
+
+// The owner's interactions with the recommended title
+export interface LaterInteraction {
+  interaction_type: UserInteraction['interaction_type'];
+  occurred_at: Date;
+}
+
+// Below this many outcomes a fitted curve is mostly noise, so scores are left uncalibrated
+export const MIN_CALIBRATION_OUTCOMES = 30;
+// A shown recommendation nobody responded to or interacted with counts as ignored once this old
+export const IGNORED_AFTER_HOURS = 24;
+
+const POSITIVE_INTERACTIONS: UserInteraction['interaction_type'][] = ['like', 'watched_liked', 'add_to_watchlist'];
+const NEGATIVE_INTERACTIONS: UserInteraction['interaction_type'][] = ['dislike', 'watched_disliked'];
+
+// Whether a shown recommendation turned out positive: the latest like, dislike or watchlist add since it was
+// shown decides, then the explicit response. Ignored recommendations are negative; snoozed ones and those
+// shown too recently to judge have no outcome (null).
+export function exposureOutcome(recommendation: ShownRecommendation, interactions: LaterInteraction[], now: Date = new Date()): boolean | null {
+  const shownAt = recommendation.shown_at;
+  const latest = interactions
+    .filter(interaction => shownAt === null || interaction.occurred_at >= shownAt)
+    .filter(interaction => POSITIVE_INTERACTIONS.includes(interaction.interaction_type) || NEGATIVE_INTERACTIONS.includes(interaction.interaction_type))
+    .reduce<LaterInteraction | null>((last, interaction) => last && last.occurred_at > interaction.occurred_at ? last : interaction, null);
+  if (latest) {
+    return POSITIVE_INTERACTIONS.includes(latest.interaction_type);
+  }
+
+  switch (recommendation.response) {
+    case 'accepted':
+      return true;
+    case 'skipped':
+    case 'not_interested':
+      return false;
+    case 'snoozed':
+      return null;
+    case null:
+      return shownAt !== null && now.getTime() - shownAt.getTime() >= IGNORED_AFTER_HOURS * 60 * 60 * 1000 ? false : null;
+  }
+}
+// Equal-width bands over [0, 1] in the reliability diagram
+export const RELIABILITY_BIN_COUNT = 10;
+
+// Pool adjacent violators: the non-decreasing step function closest to the outcomes. Equal raw
+// scores always share a block, so ties get one probability.
+export function fitIsotonic(outcomes: CalibrationOutcome[]): CalibrationPoint[] {
+  const sorted = [...outcomes].sort((a, b) => a.raw_score - b.raw_score);
+  const blocks: { last_score: number; score_sum: number; positives: number; count: number }[] = [];
+
+  sorted.forEach(outcome => {
+    const last = blocks[blocks.length - 1];
+    if (last && last.last_score === outcome.raw_score) {
+      last.score_sum += outcome.raw_score;
+      last.positives += outcome.positive ? 1 : 0;
+      last.count++;
+    } else {
+      blocks.push({ last_score: outcome.raw_score, score_sum: outcome.raw_score, positives: outcome.positive ? 1 : 0, count: 1 });
+    }
+
+    // Merge backwards while the newest block's rate does not exceed the one before it
+    while (blocks.length > 1) {
+      const current = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.positives / previous.count < current.positives / current.count) {
+        break;
+      }
+      previous.last_score = current.last_score;
+      previous.score_sum += current.score_sum;
+      previous.positives += current.positives;
+      previous.count += current.count;
+      blocks.pop();
+    }
+  });
+
+  return blocks.map(block => ({
+    raw_score: block.score_sum / block.count,
+    probability: block.positives / block.count,
+    count: block.count
+  }));
+}
+
+// Linear interpolation between the curve's points, flat beyond its ends. Without a curve the raw score is used.
+export function calibrate(rawScore: number, points: CalibrationPoint[]): number {
+  if (points.length === 0) {
+    return rawScore;
+  }
+  if (rawScore <= points[0].raw_score) {
+    return points[0].probability;
+  }
+  const last = points[points.length - 1];
+  if (rawScore >= last.raw_score) {
+    return last.probability;
+  }
+
+  const upper = points.findIndex(point => point.raw_score > rawScore);
+  const lower = points[upper - 1];
+  const fraction = (rawScore - lower.raw_score) / (points[upper].raw_score - lower.raw_score);
+  return lower.probability + fraction * (points[upper].probability - lower.probability);
+}
+
+// Mean squared difference between predicted probabilities and what happened
+export function brierScore(predictions: CalibratedPrediction[]): number {
+  if (predictions.length === 0) {
+    return 0;
+  }
+  const total = predictions.reduce((sum, { predicted, positive }) => sum + (predicted - (positive ? 1 : 0)) ** 2, 0);
+  return total / predictions.length;
+}
+
+// Predicted against observed positive rates per band of predictions; empty bands are left out
+export function reliabilityBins(predictions: CalibratedPrediction[], binCount: number = RELIABILITY_BIN_COUNT): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    predicted_sum: 0,
+    positives: 0
+  }));
+
+  predictions.forEach(({ predicted, positive }) => {
+    const bin = bins[Math.min(Math.floor(Math.min(Math.max(predicted, 0), 1) * binCount), binCount - 1)];
+    bin.count++;
+    bin.predicted_sum += predicted;
+    bin.positives += positive ? 1 : 0;
+  });
+
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      count: bin.count,
+      mean_predicted: bin.predicted_sum / bin.count,
+      observed_rate: bin.positives / bin.count
+    }));
+}
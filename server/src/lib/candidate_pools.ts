@@ -0,0 +1,78 @@
+// Multi-source candidate generation: each source fills its own share of the candidate budget,
+// so titles outside the globally top-rated slice can still be scored against the owner's taste
+
+export type CandidateSource = 'similar_to_liked' | 'genre_matched' | 'trending' | 'recently_added' | 'exploration';
+
+export type PoolQuotas = Record<CandidateSource, number>;
+
+export type CandidatePools<T> = Partial<Record<CandidateSource, T[]>>;
+
+export type SourcedCandidate<T> = T & { sources: CandidateSource[] };
+
+// Merge order: earlier sources claim shared candidates first
+export const CANDIDATE_SOURCES: CandidateSource[] = [
+  'similar_to_liked',
+  'genre_matched',
+  'trending',
+  'recently_added',
+  'exploration'
+];
+
+// Share of the candidate budget each source may fill (sums to 1)
+export const DEFAULT_POOL_SHARES: PoolQuotas = {
+  similar_to_liked: 0.25,
+  genre_matched: 0.35,
+  trending: 0.15,
+  recently_added: 0.15,
+  exploration: 0.1
+};
+
+// Splits a candidate budget into per-source quotas; every source gets at least one slot
+export function poolQuotas(budget: number, shares: PoolQuotas = DEFAULT_POOL_SHARES): PoolQuotas {
+  const quotas = {} as PoolQuotas;
+  CANDIDATE_SOURCES.forEach(source => {
+    quotas[source] = Math.max(1, Math.ceil(budget * shares[source]));
+  });
+  return quotas;
+}
+
+// Merges the pools into one de-duplicated candidate list. Each source contributes up to its quota of
+// candidates no earlier source has claimed; budget left unused by short pools then goes to the
+// remaining candidates in source order. Every candidate records all the sources that produced it.
+export function mergeCandidatePools<T extends { id: number }>(
+  pools: CandidatePools<T>,
+  quotas: PoolQuotas
+): SourcedCandidate<T>[] {
+  const merged = new Map<number, SourcedCandidate<T>>();
+  const budget = CANDIDATE_SOURCES.reduce((sum, source) => sum + quotas[source], 0);
+
+  const add = (source: CandidateSource, candidate: T, allowNew: boolean): boolean => {
+    const existing = merged.get(candidate.id);
+    if (existing) {
+      if (!existing.sources.includes(source)) {
+        existing.sources.push(source);
+      }
+      return false;
+    }
+    if (!allowNew) {
+      return false;
+    }
+    merged.set(candidate.id, { ...candidate, sources: [source] });
+    return true;
+  };
+
+  CANDIDATE_SOURCES.forEach(source => {
+    let taken = 0;
+    (pools[source] ?? []).forEach(candidate => {
+      if (add(source, candidate, taken < quotas[source])) {
+        taken++;
+      }
+    });
+  });
+
+  CANDIDATE_SOURCES.forEach(source => {
+    (pools[source] ?? []).forEach(candidate => add(source, candidate, merged.size < budget));
+  });
+
+  return Array.from(merged.values());
+}
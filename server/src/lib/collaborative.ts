@@ -0,0 +1,136 @@
+import { type CandidateScore } from './preference_model';
+import { explanationReason, scaleFactors } from './explanations';
+
+// A positive interaction attributed to a user ("user:1") or guest session ("session:abc")
+export interface OwnerLike {
+  owner_key: string;
+  media_item_id: number;
+}
+
+export interface CooccurrencePair {
+  media_item_id: number;
+  related_media_item_id: number;
+  co_count: number; // Number of owners who liked both items
+  similarity: number; // Cosine-normalised co-occurrence 0-1
+}
+
+export interface CollaborativeScore {
+  score: number;
+  co_count: number;
+  liked_media_item_id: number; // The liked item that provides the strongest evidence
+  liked_title: string;
+}
+
+export const MIN_SUPPORT = 2; // Pairs liked together by fewer owners are noise
+export const MAX_NEIGHBOURS = 50; // Related items kept per media item
+const MAX_LIKES_PER_OWNER = 200; // Bounds the pairwise work for very active owners
+
+export function ownerKey(userId: number | null | undefined, sessionId: string | null | undefined): string {
+  return userId ? `user:${userId}` : `session:${sessionId}`;
+}
+
+export function computeCooccurrences(likes: OwnerLike[]): CooccurrencePair[] {
+  // Group distinct liked items per owner
+  const likesByOwner = new Map<string, Set<number>>();
+  for (const like of likes) {
+    const items = likesByOwner.get(like.owner_key) ?? new Set<number>();
+    if (items.size < MAX_LIKES_PER_OWNER) {
+      items.add(like.media_item_id);
+    }
+    likesByOwner.set(like.owner_key, items);
+  }
+
+  // Count how many owners liked each item and each pair of items
+  const itemCounts = new Map<number, number>();
+  const pairCounts = new Map<string, number>();
+  likesByOwner.forEach(items => {
+    const ids = Array.from(items).sort((a, b) => a - b);
+    ids.forEach((id, i) => {
+      itemCounts.set(id, (itemCounts.get(id) ?? 0) + 1);
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = `${id}:${ids[j]}`;
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+      }
+    });
+  });
+
+  // Emit both directions of every supported pair
+  const neighbours = new Map<number, CooccurrencePair[]>();
+  pairCounts.forEach((coCount, key) => {
+    if (coCount < MIN_SUPPORT) {
+      return;
+    }
+    const [a, b] = key.split(':').map(Number);
+    const similarity = coCount / Math.sqrt(itemCounts.get(a)! * itemCounts.get(b)!);
+    for (const [from, to] of [[a, b], [b, a]]) {
+      const list = neighbours.get(from) ?? [];
+      list.push({ media_item_id: from, related_media_item_id: to, co_count: coCount, similarity });
+      neighbours.set(from, list);
+    }
+  });
+
+  // Keep only the strongest neighbours per item
+  const pairs: CooccurrencePair[] = [];
+  neighbours.forEach(list => {
+    list.sort((x, y) => y.similarity - x.similarity || y.co_count - x.co_count || x.related_media_item_id - y.related_media_item_id);
+    pairs.push(...list.slice(0, MAX_NEIGHBOURS));
+  });
+
+  return pairs;
+}
+
+// Collaborative score per related item: the strongest link from any liked item
+export function collaborativeScores(
+  pairs: CooccurrencePair[],
+  likedItems: { media_item_id: number; title: string }[]
+): Map<number, CollaborativeScore> {
+  const likedTitles = new Map(likedItems.map(item => [item.media_item_id, item.title]));
+  const scores = new Map<number, CollaborativeScore>();
+
+  for (const pair of pairs) {
+    const likedTitle = likedTitles.get(pair.media_item_id);
+    if (likedTitle === undefined) {
+      continue;
+    }
+    const current = scores.get(pair.related_media_item_id);
+    if (!current || pair.similarity > current.score) {
+      scores.set(pair.related_media_item_id, {
+        score: pair.similarity,
+        co_count: pair.co_count,
+        liked_media_item_id: pair.media_item_id,
+        liked_title: likedTitle
+      });
+    }
+  }
+
+  return scores;
+}
+
+// Blend the collaborative signal into a content score: (1 - weight) * content + weight * collaborative
+export function blendCollaborative(
+  content: CandidateScore,
+  collaborative: CollaborativeScore | undefined,
+  weight: number
+): CandidateScore {
+  const score = (1 - weight) * content.score + weight * (collaborative?.score ?? 0);
+  const factors = scaleFactors(content.explanation.factors, 1 - weight);
+  if (!collaborative) {
+    const explanation = { ...content.explanation, factors };
+    return { score, reason: explanationReason(explanation), explanation };
+  }
+
+  const likedItems = content.explanation.liked_items.some(item => item.media_item_id === collaborative.liked_media_item_id)
+    ? content.explanation.liked_items
+    : [{ media_item_id: collaborative.liked_media_item_id, title: collaborative.liked_title }, ...content.explanation.liked_items];
+  const explanation = {
+    ...content.explanation,
+    factors: [...factors, {
+      kind: 'collaborative' as const,
+      label: `${collaborative.co_count} people who liked "${collaborative.liked_title}" also liked this`,
+      weight: weight * collaborative.score,
+      titles: [collaborative.liked_title]
+    }],
+    liked_items: likedItems
+  };
+  return { score, reason: explanationReason(explanation), explanation };
+}
@@ -0,0 +1,142 @@
+// Minimal view of a media item needed to compare it with another one
+export interface SimilarityItem {
+  title: string;
+  overview: string;
+  genres: string[];
+  release_date: string | null;
+  vote_average: number;
+}
+
+export interface SimilarityBreakdown {
+  similarity: number;
+  genre: number;
+  text: number;
+  era: number;
+  rating: number;
+  shared_genres: string[];
+}
+
+// Relative weight of each similarity component (sums to 1)
+const GENRE_WEIGHT = 0.45;
+const TEXT_WEIGHT = 0.3;
+const ERA_WEIGHT = 0.15;
+const RATING_WEIGHT = 0.1;
+
+const ERA_SPAN_YEARS = 20; // Release years this far apart share no era similarity
+const RATING_SPAN = 5; // vote_average points this far apart share no rating similarity
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'their', 'they', 'them', 'his', 'her',
+  'she', 'him', 'who', 'whom', 'when', 'where', 'what', 'which', 'while', 'will', 'was', 'were', 'are',
+  'has', 'have', 'had', 'but', 'not', 'its', 'out', 'about', 'after', 'before', 'over', 'under', 'one',
+  'two', 'all', 'any', 'can', 'must', 'than', 'then', 'there', 'these', 'those', 'through', 'only', 'own',
+  'more', 'most', 'other', 'some', 'such', 'very', 'just', 'also', 'yet', 'been', 'being', 'each', 'our'
+]);
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 2 && !STOP_WORDS.has(token));
+}
+
+export function termFrequencies(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+  return frequencies;
+}
+
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  a.forEach((value, term) => {
+    normA += value * value;
+    dot += value * (b.get(term) ?? 0);
+  });
+  b.forEach(value => {
+    normB += value * value;
+  });
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Jaccard overlap of two genre lists
+export function genreSimilarity(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const union = new Set([...setA, ...setB]);
+  if (union.size === 0) {
+    return 0;
+  }
+  const intersection = [...setA].filter(genre => setB.has(genre)).length;
+  return intersection / union.size;
+}
+
+export function releaseYear(releaseDate: string | null): number | null {
+  if (!releaseDate) {
+    return null;
+  }
+  const year = parseInt(releaseDate.slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+}
+
+export function eraSimilarity(a: string | null, b: string | null): number {
+  const yearA = releaseYear(a);
+  const yearB = releaseYear(b);
+  if (yearA === null || yearB === null) {
+    return 0;
+  }
+  return Math.max(0, 1 - Math.abs(yearA - yearB) / ERA_SPAN_YEARS);
+}
+
+export function ratingSimilarity(a: number, b: number): number {
+  return Math.max(0, 1 - Math.abs(a - b) / RATING_SPAN);
+}
+
+const itemText = (item: SimilarityItem) => termFrequencies(tokenize(`${item.title} ${item.overview}`));
+
+// The text component defaults to raw term overlap; callers with TF-IDF vectors pass their cosine instead
+export function contentSimilarity(
+  source: SimilarityItem,
+  candidate: SimilarityItem,
+  text: number = cosineSimilarity(itemText(source), itemText(candidate))
+): SimilarityBreakdown {
+  const genre = genreSimilarity(source.genres, candidate.genres);
+  const era = eraSimilarity(source.release_date, candidate.release_date);
+  const rating = ratingSimilarity(source.vote_average, candidate.vote_average);
+
+  return {
+    similarity: genre * GENRE_WEIGHT + text * TEXT_WEIGHT + era * ERA_WEIGHT + rating * RATING_WEIGHT,
+    genre,
+    text,
+    era,
+    rating,
+    shared_genres: candidate.genres.filter(g => source.genres.includes(g))
+  };
+}
+
+export function describeSimilarity(sourceTitle: string, breakdown: SimilarityBreakdown): string {
+  const reasons: string[] = [];
+
+  if (breakdown.shared_genres.length > 0) {
+    reasons.push(`shares ${breakdown.shared_genres.join(', ')}`);
+  }
+  if (breakdown.text >= 0.15) {
+    reasons.push('has a similar story');
+  }
+  if (breakdown.era >= 0.75) {
+    reasons.push('is from the same era');
+  }
+  if (breakdown.rating >= 0.8) {
+    reasons.push('is similarly rated');
+  }
+
+  if (reasons.length === 0) {
+    return `Related to "${sourceTitle}"`;
+  }
+  return `Like "${sourceTitle}", it ${reasons.join(' and ')}`;
+}
@@ -0,0 +1,110 @@
+import { eq, or, and, gte, lte, isNull, inArray, arrayOverlaps, type SQL } from 'drizzle-orm';
+import { mediaItemsTable } from '../db/schema';
+import { type Audience, type ExplanationFactor, type GetRecommendationsInput, type Mood } from '../schema';
+import { explanationReason } from './explanations';
+import { type CandidateScore } from './preference_model';
+
+// The situation a request is made in: who is watching, how much time there is and what they feel like
+export type RecommendationContext = Pick<GetRecommendationsInput,
+  'moods' | 'max_runtime' | 'media_type' | 'audience' | 'min_release_year' | 'max_release_year'>;
+
+export interface ContextItem {
+  genres: string[];
+  media_type: 'movie' | 'tv';
+  release_date: string | null;
+  adult: boolean;
+  runtime: number | null;
+  content_rating: string | null;
+}
+
+// Genres that suit each mood, and genres that work against it
+export const MOOD_GENRES: Record<Mood, { suits: string[]; clashes: string[] }> = {
+  light: { suits: ['Comedy', 'Animation', 'Family', 'Romance', 'Music', 'Kids'], clashes: ['Horror', 'War', 'Crime', 'Thriller', 'War & Politics'] },
+  dark: { suits: ['Thriller', 'Crime', 'Horror', 'Mystery', 'War', 'War & Politics'], clashes: ['Comedy', 'Family', 'Animation', 'Kids'] },
+  thoughtful: { suits: ['Drama', 'Documentary', 'History', 'War & Politics'], clashes: ['Reality'] },
+  exciting: { suits: ['Action', 'Adventure', 'Science Fiction', 'Thriller', 'Action & Adventure', 'Sci-Fi & Fantasy'], clashes: ['Documentary', 'Talk'] },
+  romantic: { suits: ['Romance'], clashes: ['Horror', 'War'] }
+};
+
+// Content ratings, movie and TV, suitable for each audience; solo viewing has no restriction
+export const AUDIENCE_RATINGS: Record<Exclude<Audience, 'solo'>, string[]> = {
+  kids: ['G', 'TV-Y', 'TV-Y7', 'TV-G'],
+  family: ['G', 'PG', 'TV-Y', 'TV-Y7', 'TV-G', 'TV-PG']
+};
+
+// Genres that make an unrated title acceptable for a family or kids audience
+export const AUDIENCE_GENRES = ['Family', 'Kids'];
+
+// Score modifiers
+export const MOOD_MATCH_BONUS = 0.15; // Per mood the item suits
+export const MOOD_CLASH_PENALTY = 0.2; // Per mood the item works against
+export const AUDIENCE_GENRE_BONUS = 0.1; // Family or kids titles for a family or kids audience
+export const SHORT_RUNTIME_BONUS = 0.05; // Known to fit in the time available
+
+// Hard filters on mediaItemsTable. Moods only modify scores; unknown runtimes are not ruled out.
+export function contextConditions(context: RecommendationContext): SQL<unknown>[] {
+  const conditions: SQL<unknown>[] = [];
+
+  if (context.media_type) {
+    conditions.push(eq(mediaItemsTable.media_type, context.media_type));
+  }
+  if (context.max_runtime) {
+    conditions.push(or(isNull(mediaItemsTable.runtime), lte(mediaItemsTable.runtime, context.max_runtime))!);
+  }
+  if (context.audience && context.audience !== 'solo') {
+    conditions.push(eq(mediaItemsTable.adult, false));
+    conditions.push(or(
+      inArray(mediaItemsTable.content_rating, AUDIENCE_RATINGS[context.audience]),
+      and(isNull(mediaItemsTable.content_rating), arrayOverlaps(mediaItemsTable.genres, AUDIENCE_GENRES))
+    )!);
+  }
+  // Release dates are stored as ISO strings, so they compare correctly as text
+  if (context.min_release_year !== undefined) {
+    conditions.push(gte(mediaItemsTable.release_date, `${context.min_release_year}-01-01`));
+  }
+  if (context.max_release_year !== undefined) {
+    conditions.push(lte(mediaItemsTable.release_date, `${context.max_release_year}-12-31`));
+  }
+
+  return conditions;
+}
+
+// Score modifiers for the request context, as explanation factors
+export function contextFactors(item: ContextItem, context: RecommendationContext): ExplanationFactor[] {
+  const factors: ExplanationFactor[] = [];
+
+  (context.moods ?? []).forEach(mood => {
+    const { suits, clashes } = MOOD_GENRES[mood];
+    if (item.genres.some(genre => suits.includes(genre))) {
+      factors.push({ kind: 'context', label: `your ${mood} mood`, weight: MOOD_MATCH_BONUS, titles: [] });
+    } else if (item.genres.some(genre => clashes.includes(genre))) {
+      factors.push({ kind: 'context', label: `a poor fit for your ${mood} mood`, weight: -MOOD_CLASH_PENALTY, titles: [] });
+    }
+  });
+
+  if ((context.audience === 'family' || context.audience === 'kids') && item.genres.some(genre => AUDIENCE_GENRES.includes(genre))) {
+    const label = context.audience === 'kids' ? 'watching with kids' : 'family viewing';
+    factors.push({ kind: 'context', label, weight: AUDIENCE_GENRE_BONUS, titles: [] });
+  }
+
+  if (context.max_runtime && item.runtime !== null && item.runtime <= context.max_runtime) {
+    factors.push({ kind: 'context', label: `a runtime within ${context.max_runtime} minutes`, weight: SHORT_RUNTIME_BONUS, titles: [] });
+  }
+
+  return factors;
+}
+
+// Adds the context factors to an already scored candidate, keeping the score within [0, 1]
+export function applyContext(scored: CandidateScore, item: ContextItem, context: RecommendationContext): CandidateScore {
+  const factors = contextFactors(item, context);
+  if (factors.length === 0) {
+    return scored;
+  }
+  const explanation = { ...scored.explanation, factors: [...scored.explanation.factors, ...factors] };
+  const score = factors.reduce((sum, factor) => sum + factor.weight, scored.score);
+  return {
+    score: Math.min(Math.max(score, 0), 1),
+    reason: explanationReason(explanation),
+    explanation
+  };
+}
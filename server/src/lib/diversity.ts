@@ -0,0 +1,86 @@
+import { genreSimilarity, releaseYear } from './content_similarity';
+
+// Minimal view of a scored candidate needed for diversity re-ranking
+export interface DiversityCandidate {
+  genres: string[];
+  release_date: string | null;
+  original_language: string;
+  media_type: 'movie' | 'tv';
+  score: number;
+}
+
+export interface DiversityOptions {
+  limit: number;
+  diversity: number; // 0 = pure relevance, 1 = pure novelty
+  maxGenreShare?: number; // Maximum share of the batch any single genre may occupy
+}
+
+// Relative weight of each attribute when judging how alike two candidates are (sums to 1)
+const GENRE_WEIGHT = 0.5;
+const DECADE_WEIGHT = 0.2;
+const LANGUAGE_WEIGHT = 0.15;
+const MEDIA_TYPE_WEIGHT = 0.15;
+
+const decade = (releaseDate: string | null) => {
+  const year = releaseYear(releaseDate);
+  return year === null ? null : Math.floor(year / 10);
+};
+
+export function candidateSimilarity(a: DiversityCandidate, b: DiversityCandidate): number {
+  const decadeA = decade(a.release_date);
+  const sameDecade = decadeA !== null && decadeA === decade(b.release_date);
+
+  return genreSimilarity(a.genres, b.genres) * GENRE_WEIGHT +
+    (sameDecade ? DECADE_WEIGHT : 0) +
+    (a.original_language === b.original_language ? LANGUAGE_WEIGHT : 0) +
+    (a.media_type === b.media_type ? MEDIA_TYPE_WEIGHT : 0);
+}
+
+// Most items any single genre may occupy in a batch of `limit`; always at least one
+export function genreCap(limit: number, maxGenreShare = 1): number {
+  return Math.max(1, Math.floor(maxGenreShare * limit));
+}
+
+export function reachesGenreCap(genres: string[], genreCounts: Map<string, number>, cap: number): boolean {
+  return genres.some(genre => (genreCounts.get(genre) ?? 0) >= cap);
+}
+
+// Maximal marginal relevance: repeatedly pick the candidate that best trades its own score
+// against its similarity to what has already been picked. Genres at their cap are skipped,
+// so the batch may come back shorter than the limit rather than break the cap.
+export function rerankForDiversity<T extends DiversityCandidate>(candidates: T[], options: DiversityOptions): T[] {
+  const { limit, diversity, maxGenreShare } = options;
+  const maxPerGenre = genreCap(limit, maxGenreShare);
+
+  const remaining = [...candidates];
+  const selected: T[] = [];
+  const genreCounts = new Map<string, number>();
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      if (reachesGenreCap(candidate.genres, genreCounts, maxPerGenre)) {
+        return;
+      }
+      const redundancy = selected.reduce((max, picked) => Math.max(max, candidateSimilarity(candidate, picked)), 0);
+      const value = (1 - diversity) * candidate.score - diversity * redundancy;
+      // Strict comparison keeps the earlier (higher-scored) candidate on ties
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex === -1) {
+      break;
+    }
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    picked.genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1));
+    selected.push(picked);
+  }
+
+  return selected;
+}
@@ -0,0 +1,322 @@
+import { z } from 'zod';
+import { type UserInteraction } from '../schema';
+import { buildPreferenceModel, scoreCandidate, type PreferenceSignal } from './preference_model';
+import { blendCollaborative, collaborativeScores, computeCooccurrences } from './collaborative';
+import { candidateSimilarity, rerankForDiversity } from './diversity';
+
+// Catalogue entry as seen by the evaluator (numeric columns already converted)
+export interface EvaluationMediaItem {
+  id: number;
+  title: string;
+  media_type: 'movie' | 'tv';
+  genres: string[];
+  release_date: string | null;
+  original_language: string;
+  vote_average: number;
+  popularity: number;
+}
+
+export interface EvaluationInteraction {
+  owner_key: string; // "user:1" or "session:abc"
+  media_item_id: number;
+  interaction_type: UserInteraction['interaction_type'];
+  created_at: Date;
+}
+
+export interface EvaluationDataset {
+  media_items: EvaluationMediaItem[];
+  interactions: EvaluationInteraction[];
+}
+
+// Fixture files use the same shape, with ISO date strings
+export const evaluationDatasetSchema = z.object({
+  media_items: z.array(z.object({
+    id: z.number(),
+    title: z.string(),
+    media_type: z.enum(['movie', 'tv']),
+    genres: z.array(z.string()),
+    release_date: z.string().nullable(),
+    original_language: z.string(),
+    vote_average: z.number(),
+    popularity: z.number()
+  })),
+  interactions: z.array(z.object({
+    owner_key: z.string(),
+    media_item_id: z.number(),
+    interaction_type: z.enum(['like', 'dislike', 'watched_liked', 'watched_disliked', 'add_to_watchlist', 'remove_from_watchlist']),
+    created_at: z.coerce.date()
+  }))
+});
+
+// Everything a strategy may learn from: the catalogue and interactions before the holdout cutoff
+export interface TrainingData {
+  catalog: EvaluationMediaItem[];
+  interactions: EvaluationInteraction[];
+}
+
+// Ranks catalogue items for one owner given that owner's training history; returns media item ids
+export type Ranker = (history: EvaluationInteraction[], k: number) => number[];
+
+export interface RankingStrategy {
+  name: string;
+  description: string;
+  train: (data: TrainingData) => Ranker;
+}
+
+export interface EvaluationOptions {
+  k: number;
+  test_fraction: number; // Share of interactions (most recent first) held out for testing
+}
+
+export interface StrategyResult {
+  strategy: string;
+  description: string;
+  precision_at_k: number;
+  recall_at_k: number;
+  ndcg_at_k: number;
+  catalog_coverage: number;
+  intra_list_diversity: number;
+}
+
+export interface EvaluationReport {
+  generated_at: Date;
+  k: number;
+  test_fraction: number;
+  cutoff: Date | null;
+  catalog_size: number;
+  train_interactions: number;
+  test_interactions: number;
+  owners_evaluated: number;
+  results: StrategyResult[];
+}
+
+const POSITIVE_TYPES: UserInteraction['interaction_type'][] = ['like', 'watched_liked'];
+
+const isPositive = (interaction: EvaluationInteraction) => POSITIVE_TYPES.includes(interaction.interaction_type);
+
+// Time-based holdout: everything from the cutoff onwards is test data
+export function splitByTime(interactions: EvaluationInteraction[], testFraction: number) {
+  const sorted = [...interactions].sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+  const cutoffIndex = Math.floor(sorted.length * (1 - testFraction));
+  if (cutoffIndex >= sorted.length) {
+    return { cutoff: null, train: sorted, test: [] };
+  }
+
+  const cutoff = sorted[cutoffIndex].created_at;
+  return {
+    cutoff,
+    train: sorted.filter(interaction => interaction.created_at < cutoff),
+    test: sorted.filter(interaction => interaction.created_at >= cutoff)
+  };
+}
+
+export function precisionAtK(ranked: number[], relevant: Set<number>, k: number): number {
+  const hits = ranked.slice(0, k).filter(id => relevant.has(id)).length;
+  return hits / k;
+}
+
+export function recallAtK(ranked: number[], relevant: Set<number>, k: number): number {
+  if (relevant.size === 0) {
+    return 0;
+  }
+  const hits = ranked.slice(0, k).filter(id => relevant.has(id)).length;
+  return hits / relevant.size;
+}
+
+// Binary-relevance normalised discounted cumulative gain
+export function ndcgAtK(ranked: number[], relevant: Set<number>, k: number): number {
+  const dcg = ranked.slice(0, k)
+    .reduce((sum, id, i) => sum + (relevant.has(id) ? 1 / Math.log2(i + 2) : 0), 0);
+  let idcg = 0;
+  for (let i = 0; i < Math.min(relevant.size, k); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+  return idcg === 0 ? 0 : dcg / idcg;
+}
+
+// Average pairwise dissimilarity of a recommendation list
+export function intraListDiversity(items: EvaluationMediaItem[]): number {
+  if (items.length < 2) {
+    return 0;
+  }
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      total += 1 - candidateSimilarity({ ...items[i], score: 0 }, { ...items[j], score: 0 });
+      pairs++;
+    }
+  }
+  return total / pairs;
+}
+
+const average = (values: number[]) => values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export function evaluate(dataset: EvaluationDataset, strategies: RankingStrategy[], options: EvaluationOptions): EvaluationReport {
+  const { k, test_fraction } = options;
+  const catalogById = new Map(dataset.media_items.map(item => [item.id, item]));
+  const { cutoff, train, test } = splitByTime(dataset.interactions, test_fraction);
+
+  // Per owner: training history and the items they went on to like after the cutoff
+  const historyByOwner = new Map<string, EvaluationInteraction[]>();
+  train.forEach(interaction => {
+    const history = historyByOwner.get(interaction.owner_key) ?? [];
+    history.push(interaction);
+    historyByOwner.set(interaction.owner_key, history);
+  });
+  const relevantByOwner = new Map<string, Set<number>>();
+  test.filter(isPositive).forEach(interaction => {
+    const seen = (historyByOwner.get(interaction.owner_key) ?? []).some(h => h.media_item_id === interaction.media_item_id);
+    if (!seen && catalogById.has(interaction.media_item_id)) {
+      const relevant = relevantByOwner.get(interaction.owner_key) ?? new Set<number>();
+      relevant.add(interaction.media_item_id);
+      relevantByOwner.set(interaction.owner_key, relevant);
+    }
+  });
+  const owners = Array.from(relevantByOwner.keys()).sort();
+
+  const results = strategies.map(strategy => {
+    const rank = strategy.train({ catalog: dataset.media_items, interactions: train });
+    const recommended = new Set<number>();
+    const precision: number[] = [];
+    const recall: number[] = [];
+    const ndcg: number[] = [];
+    const diversity: number[] = [];
+
+    owners.forEach(owner => {
+      const relevant = relevantByOwner.get(owner)!;
+      const ranked = rank(historyByOwner.get(owner) ?? [], k).slice(0, k);
+      ranked.forEach(id => recommended.add(id));
+
+      precision.push(precisionAtK(ranked, relevant, k));
+      recall.push(recallAtK(ranked, relevant, k));
+      ndcg.push(ndcgAtK(ranked, relevant, k));
+      diversity.push(intraListDiversity(ranked.map(id => catalogById.get(id)!).filter(Boolean)));
+    });
+
+    return {
+      strategy: strategy.name,
+      description: strategy.description,
+      precision_at_k: average(precision),
+      recall_at_k: average(recall),
+      ndcg_at_k: average(ndcg),
+      catalog_coverage: dataset.media_items.length === 0 ? 0 : recommended.size / dataset.media_items.length,
+      intra_list_diversity: average(diversity)
+    };
+  });
+
+  return {
+    generated_at: new Date(),
+    k,
+    test_fraction,
+    cutoff,
+    catalog_size: dataset.media_items.length,
+    train_interactions: train.length,
+    test_interactions: test.length,
+    owners_evaluated: owners.length,
+    results
+  };
+}
+
+export function formatMarkdownReport(report: EvaluationReport): string {
+  const fixed = (value: number) => value.toFixed(4);
+  const lines = [
+    '# Recommender evaluation',
+    '',
+    `- Generated: ${report.generated_at.toISOString()}`,
+    `- Holdout: most recent ${Math.round(report.test_fraction * 100)}% of interactions` +
+      (report.cutoff ? ` (from ${report.cutoff.toISOString()})` : ''),
+    `- Train / test interactions: ${report.train_interactions} / ${report.test_interactions}`,
+    `- Owners evaluated: ${report.owners_evaluated}`,
+    `- Catalog size: ${report.catalog_size}`,
+    '',
+    `| Strategy | Precision@${report.k} | Recall@${report.k} | NDCG@${report.k} | Coverage | Intra-list diversity |`,
+    '| --- | --- | --- | --- | --- | --- |',
+    ...report.results.map(result =>
+      `| ${result.strategy} | ${fixed(result.precision_at_k)} | ${fixed(result.recall_at_k)} | ${fixed(result.ndcg_at_k)} | ` +
+      `${fixed(result.catalog_coverage)} | ${fixed(result.intra_list_diversity)} |`
+    ),
+    ''
+  ];
+  return lines.join('\n');
+}
+
+// Built-in strategies
+
+const toSignals = (history: EvaluationInteraction[], catalogById: Map<number, EvaluationMediaItem>): PreferenceSignal[] =>
+  history
+    .filter(interaction => catalogById.has(interaction.media_item_id))
+    .map(interaction => {
+      const item = catalogById.get(interaction.media_item_id)!;
+      return {
+        media_item_id: item.id,
+        interaction_type: interaction.interaction_type,
+        title: item.title,
+        genres: item.genres,
+        media_type: item.media_type,
+        original_language: item.original_language,
+        occurred_at: interaction.created_at
+      };
+    });
+
+// Same ordering the generator uses to pick its top-rated candidates
+const byRating = (a: EvaluationMediaItem, b: EvaluationMediaItem) =>
+  b.vote_average - a.vote_average || b.popularity - a.popularity || a.id - b.id;
+
+export const popularityStrategy: RankingStrategy = {
+  name: 'popularity',
+  description: 'Top-rated catalogue order, ignoring the user',
+  train: ({ catalog }) => {
+    const ordered = [...catalog].sort(byRating);
+    return (history, k) => {
+      const seen = new Set(history.map(interaction => interaction.media_item_id));
+      return ordered.filter(item => !seen.has(item.id)).slice(0, k).map(item => item.id);
+    };
+  }
+};
+
+export function heuristicStrategy(options: { diversity: number; collaborative_weight?: number }): RankingStrategy {
+  const collaborativeWeight = options.collaborative_weight ?? 0;
+  return {
+    name: collaborativeWeight > 0 ? 'collaborative_blend' : 'heuristic',
+    description: collaborativeWeight > 0
+      ? `Preference model blended with co-occurrence (weight ${collaborativeWeight}), diversity ${options.diversity}`
+      : `Preference model scoring, diversity ${options.diversity}`,
+    train: ({ catalog, interactions }) => {
+      const catalogById = new Map(catalog.map(item => [item.id, item]));
+      const ordered = [...catalog].sort(byRating);
+      // Signals age relative to the end of the training period, as they would have when it was replayed live
+      const now = new Date(interactions.reduce((latest, interaction) => Math.max(latest, interaction.created_at.getTime()), 0));
+      const pairs = collaborativeWeight > 0
+        ? computeCooccurrences(interactions.filter(isPositive).map(interaction => ({
+            owner_key: interaction.owner_key,
+            media_item_id: interaction.media_item_id
+          })))
+        : [];
+
+      return (history, k) => {
+        const model = buildPreferenceModel(toSignals(history, catalogById), { now });
+        const seen = new Set(history.map(interaction => interaction.media_item_id));
+        const collaborative = collaborativeScores(pairs, model.liked_items);
+        const weight = collaborative.size > 0 ? collaborativeWeight : 0;
+
+        const scored = ordered
+          .filter(item => !seen.has(item.id))
+          .map(item => ({
+            ...item,
+            score: blendCollaborative(scoreCandidate(item, model), collaborative.get(item.id), weight).score
+          }));
+        // Stable sort keeps the catalogue order for equal scores
+        scored.sort((a, b) => b.score - a.score);
+
+        return rerankForDiversity(scored, { limit: k, diversity: options.diversity }).map(item => item.id);
+      };
+    }
+  };
+}
+
+export const STRATEGIES: Record<string, RankingStrategy> = {
+  popularity: popularityStrategy,
+  heuristic: heuristicStrategy({ diversity: 0.3 }),
+  collaborative_blend: heuristicStrategy({ diversity: 0.3, collaborative_weight: 0.3 })
+};
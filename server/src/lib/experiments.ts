@@ -0,0 +1,141 @@
+import { type GetRecommendationsInput, type UserInteraction } from '../schema';
+
+// Ranking settings an experiment arm may control
+export type ArmSettings = Pick<GetRecommendationsInput, 'collaborative_weight' | 'diversity' | 'exploration_rate'>;
+
+export interface ExperimentArm {
+  name: string;
+  weight: number; // Relative share of owners bucketed into this arm
+  settings: ArmSettings;
+}
+
+export interface Experiment {
+  name: string;
+  arms: ExperimentArm[];
+}
+
+export type ExperimentOutcome = 'like' | 'watchlist' | 'dislike';
+
+export const EXPERIMENTS: Record<string, Experiment> = {
+  ranking_strategy: {
+    name: 'ranking_strategy',
+    arms: [
+      { name: 'heuristic', weight: 1, settings: { collaborative_weight: 0 } },
+      { name: 'collaborative_blend', weight: 1, settings: { collaborative_weight: 0.3 } }
+    ]
+  }
+};
+
+// The experiment new recommendations are enrolled in
+export const ACTIVE_EXPERIMENT = EXPERIMENTS['ranking_strategy'];
+
+// z-score for a two-sided 95% confidence interval
+const Z_95 = 1.96;
+
+// 32-bit FNV-1a, stable across processes and restarts
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Deterministically buckets an owner into one of the experiment's arms, honouring arm weights
+export function assignArm(experiment: Experiment, ownerKey: string): ExperimentArm {
+  const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+  // Salt with the experiment name so owners are reshuffled between experiments
+  const point = (hash(`${experiment.name}:${ownerKey}`) / 0x100000000) * totalWeight;
+
+  let cumulative = 0;
+  for (const arm of experiment.arms) {
+    cumulative += arm.weight;
+    if (point < cumulative) {
+      return arm;
+    }
+  }
+  return experiment.arms[experiment.arms.length - 1];
+}
+
+// Requests that set any arm-controlled setting themselves are not enrolled, so they cannot skew the results
+export function resolveArm(experiment: Experiment, ownerKey: string, input: ArmSettings): ExperimentArm | null {
+  const overridden = experiment.arms.some(arm =>
+    (Object.keys(arm.settings) as (keyof ArmSettings)[]).some(setting => input[setting] !== undefined)
+  );
+  return overridden ? null : assignArm(experiment, ownerKey);
+}
+
+// What a shown recommendation led to: the owner's interaction with the item after it was shown,
+// or failing that a watchlist add after it was shown
+export function attributeOutcome(exposure: {
+  shown_at: Date;
+  interaction_type: UserInteraction['interaction_type'] | null;
+  interacted_at: Date | null;
+  watchlisted_at: Date | null;
+}): ExperimentOutcome | null {
+  if (exposure.interaction_type && exposure.interacted_at && exposure.interacted_at >= exposure.shown_at) {
+    switch (exposure.interaction_type) {
+      case 'like':
+      case 'watched_liked':
+        return 'like';
+      case 'dislike':
+      case 'watched_disliked':
+        return 'dislike';
+      case 'add_to_watchlist':
+        return 'watchlist';
+    }
+  }
+  if (exposure.watchlisted_at && exposure.watchlisted_at >= exposure.shown_at) {
+    return 'watchlist';
+  }
+  return null;
+}
+
+// When an owner did several things with an item after it was shown, the strongest signal counts
+const OUTCOME_PRECEDENCE: ExperimentOutcome[] = ['like', 'watchlist', 'dislike'];
+
+export interface ExposureRow {
+  owner_key: string;
+  media_item_id: number;
+  shown_at: Date;
+  interaction_type: UserInteraction['interaction_type'] | null;
+  interacted_at: Date | null;
+  watchlisted_at: Date | null;
+}
+
+// One exposure per owner and item, however often the item was recommended (and however many
+// interaction and watchlist rows were joined to it), timed from when the owner first saw it
+export function attributeExposures(rows: ExposureRow[]): { owner_key: string; media_item_id: number; outcome: ExperimentOutcome | null }[] {
+  const exposures = new Map<string, ExposureRow[]>();
+  rows.forEach(row => {
+    const key = `${row.owner_key}:${row.media_item_id}`;
+    exposures.set(key, [...(exposures.get(key) ?? []), row]);
+  });
+
+  return Array.from(exposures.values()).map(group => {
+    const firstShown = new Date(Math.min(...group.map(row => row.shown_at.getTime())));
+    const outcomes = new Set(group.map(row => attributeOutcome({ ...row, shown_at: firstShown })));
+    return {
+      owner_key: group[0].owner_key,
+      media_item_id: group[0].media_item_id,
+      outcome: OUTCOME_PRECEDENCE.find(outcome => outcomes.has(outcome)) ?? null
+    };
+  });
+}
+
+// Wilson score interval for a binomial proportion; better behaved than the normal approximation for small samples
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): { lower: number; upper: number } {
+  if (trials === 0) {
+    return { lower: 0, upper: 0 };
+  }
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const centre = p + z2 / (2 * trials);
+  const margin = z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials));
+  return {
+    lower: Math.max(0, (centre - margin) / denominator),
+    upper: Math.min(1, (centre + margin) / denominator)
+  };
+}
@@ -0,0 +1,49 @@
+import { type ExplanationFactor, type RecommendationExplanation } from '../schema';
+import { describeExploration } from './exploration';
+
+// Derives the one-line reason shown where there is no room for the full explanation, e.g.
+// 'Because of genres you enjoy: Action and highly rated (8.5/10); fewer Horror because you disliked "X"'
+export function explanationReason(explanation: RecommendationExplanation): string {
+  const { factors } = explanation;
+
+  const exploration = factors.find(factor => factor.kind === 'exploration');
+  if (exploration) {
+    return describeExploration(exploration.label);
+  }
+
+  const reasons: string[] = [];
+  const enjoyedGenres = factors.filter(factor => factor.kind === 'genre' && factor.weight > 0);
+  if (enjoyedGenres.length > 0) {
+    reasons.push(`genres you enjoy: ${enjoyedGenres.map(factor => factor.label).join(', ')}`);
+  }
+  factors
+    .filter(factor => factor.kind === 'rating')
+    .forEach(factor => reasons.push(factor.label));
+  factors
+    .filter(factor => factor.kind === 'media_type' && factor.weight > 0)
+    .forEach(factor => reasons.push(`you like ${factor.label}s`));
+  factors
+    .filter(factor => factor.kind === 'context' && factor.weight > 0)
+    .forEach(factor => reasons.push(factor.label));
+
+  let reason = 'Recommended for you';
+  if (reasons.length > 0) {
+    reason = `Because of ${reasons.join(' and ')}`;
+  } else if (explanation.liked_items.length > 0) {
+    reason = `Because you liked "${explanation.liked_items[0].title}"`;
+  }
+
+  const penalties = factors
+    .filter(factor => (factor.kind === 'genre' || factor.kind === 'media_type') && factor.weight < 0 && factor.titles.length > 0)
+    .map(factor => `fewer ${factor.kind === 'genre' ? factor.label : `${factor.label}s`} because you disliked "${factor.titles[0]}"`);
+  const collaborative = factors
+    .filter(factor => factor.kind === 'collaborative')
+    .map(factor => factor.label);
+
+  return [reason, ...penalties, ...collaborative].join('; ');
+}
+
+// Rescales every factor, e.g. when the content score only makes up part of a blended score
+export function scaleFactors(factors: ExplanationFactor[], scale: number): ExplanationFactor[] {
+  return factors.map(factor => ({ ...factor, weight: factor.weight * scale }));
+}
@@ -0,0 +1,130 @@
+// Thompson sampling over genre arms: each genre keeps a Beta posterior over the chance that
+// something from it lands with this user, and exploration slots go to the genre with the highest draw
+
+export type Random = () => number; // Uniform on [0, 1), injectable for tests
+
+export interface GenreEvidence {
+  genres: string[];
+  reward: 0 | 1; // 1 when the item landed (like, watchlist add, accepted), 0 when it did not
+}
+
+export interface BetaPosterior {
+  alpha: number;
+  beta: number;
+}
+
+export interface ExplorationCandidate {
+  id: number;
+  genres: string[];
+}
+
+export interface ExplorationPick<T> {
+  candidate: T;
+  genre: string;
+  position: number; // Slot in the final batch
+}
+
+// Uniform Beta(1, 1) prior: a genre nobody has evidence for is maximally uncertain
+const PRIOR: BetaPosterior = { alpha: 1, beta: 1 };
+
+// Observations after which a genre's posterior is considered settled and no longer worth exploring
+export const SETTLED_OBSERVATIONS = 5;
+
+export const EXPLORATION_REASON_PREFIX = 'Exploring';
+
+export function buildGenrePosteriors(evidence: GenreEvidence[]): Map<string, BetaPosterior> {
+  const posteriors = new Map<string, BetaPosterior>();
+  evidence.forEach(({ genres, reward }) => {
+    genres.forEach(genre => {
+      const posterior = posteriors.get(genre) ?? { ...PRIOR };
+      if (reward === 1) {
+        posterior.alpha++;
+      } else {
+        posterior.beta++;
+      }
+      posteriors.set(genre, posterior);
+    });
+  });
+  return posteriors;
+}
+
+// Genres with enough evidence that a draw would only confirm what is already known; every other genre,
+// reacted to or not, stays open to exploration
+export function settledGenres(posteriors: Map<string, BetaPosterior>): string[] {
+  return Array.from(posteriors.entries())
+    .filter(([, { alpha, beta }]) => alpha + beta - PRIOR.alpha - PRIOR.beta >= SETTLED_OBSERVATIONS)
+    .map(([genre]) => genre);
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(random: Random): number {
+  const u = 1 - random(); // (0, 1] so the log is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia-Tsang gamma sampler, valid for shape >= 1 (posteriors never go below the prior)
+function sampleGamma(shape: number, random: Random): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) {
+      continue;
+    }
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+export function sampleBeta(posterior: BetaPosterior, random: Random): number {
+  const x = sampleGamma(posterior.alpha, random);
+  const y = sampleGamma(posterior.beta, random);
+  return x / (x + y);
+}
+
+// Each slot of the batch is independently given to exploration with probability `rate`; for each such slot
+// a genre is drawn by Thompson sampling and its best remaining candidate (candidates arrive in preference order) is picked
+export function pickExplorations<T extends ExplorationCandidate>(
+  pool: T[],
+  posteriors: Map<string, BetaPosterior>,
+  options: { limit: number; rate: number; random: Random }
+): ExplorationPick<T>[] {
+  const { limit, rate, random } = options;
+  const remaining = [...pool];
+  const picks: ExplorationPick<T>[] = [];
+
+  for (let position = 0; position < limit && remaining.length > 0; position++) {
+    if (random() >= rate) {
+      continue;
+    }
+
+    const genres = Array.from(new Set(remaining.flatMap(candidate => candidate.genres))).sort();
+    if (genres.length === 0) {
+      break;
+    }
+
+    let bestGenre = genres[0];
+    let bestDraw = -1;
+    genres.forEach(genre => {
+      const draw = sampleBeta(posteriors.get(genre) ?? PRIOR, random);
+      if (draw > bestDraw) {
+        bestDraw = draw;
+        bestGenre = genre;
+      }
+    });
+
+    const index = remaining.findIndex(candidate => candidate.genres.includes(bestGenre));
+    picks.push({ candidate: remaining[index], genre: bestGenre, position });
+    remaining.splice(index, 1);
+  }
+
+  return picks;
+}
+
+export function describeExploration(genre: string): string {
+  return `${EXPLORATION_REASON_PREFIX} something new: a ${genre} pick outside your usual recommendations`;
+}
@@ -0,0 +1,85 @@
+import { type MetadataGenre, type MetadataMediaType } from '../providers/metadata_provider';
+
+// Genres are synced from the provider's movie and TV genre lists. Their IDs are stable; names rarely change.
+export const GENRE_SYNC_MAX_AGE_DAYS = 30;
+// A title with a genre ID we have not seen triggers a sync, at most this often
+export const UNKNOWN_GENRE_RESYNC_MINUTES = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SyncedGenre {
+  tmdb_id: number;
+  name: string;
+  media_types: MetadataMediaType[];
+}
+
+// One entry per genre ID; genres such as Drama appear in both lists
+export function mergeGenreLists(movie: MetadataGenre[], tv: MetadataGenre[]): SyncedGenre[] {
+  const merged = new Map<number, SyncedGenre>();
+  const add = (genres: MetadataGenre[], mediaType: MetadataMediaType) => genres.forEach(genre => {
+    const existing = merged.get(genre.id);
+    if (existing) {
+      existing.media_types.push(mediaType);
+    } else {
+      merged.set(genre.id, { tmdb_id: genre.id, name: genre.name, media_types: [mediaType] });
+    }
+  });
+  add(movie, 'movie');
+  add(tv, 'tv');
+  return Array.from(merged.values());
+}
+
+// Never synced counts as stale
+export function genresAreStale(syncedAt: Date | null, now: Date = new Date()): boolean {
+  return syncedAt === null || now.getTime() - syncedAt.getTime() >= GENRE_SYNC_MAX_AGE_DAYS * DAY_MS;
+}
+
+// Falls back to the canonical name where the provider has no translation
+export function localizedGenreName(genre: { name: string; localized_names: Record<string, string> }, language: string): string {
+  return genre.localized_names[language] ?? genre.name;
+}
+
+// TMDB's standard genre lists. They seed any genre the provider could not be asked about, so titles are not
+// stored without genres while the provider is down; the next successful sync takes over from them.
+const FALLBACK_MOVIE_GENRES: MetadataGenre[] = [
+  { id: 28, name: 'Action' },
+  { id: 12, name: 'Adventure' },
+  { id: 16, name: 'Animation' },
+  { id: 35, name: 'Comedy' },
+  { id: 80, name: 'Crime' },
+  { id: 99, name: 'Documentary' },
+  { id: 18, name: 'Drama' },
+  { id: 10751, name: 'Family' },
+  { id: 14, name: 'Fantasy' },
+  { id: 36, name: 'History' },
+  { id: 27, name: 'Horror' },
+  { id: 10402, name: 'Music' },
+  { id: 9648, name: 'Mystery' },
+  { id: 10749, name: 'Romance' },
+  { id: 878, name: 'Science Fiction' },
+  { id: 10770, name: 'TV Movie' },
+  { id: 53, name: 'Thriller' },
+  { id: 10752, name: 'War' },
+  { id: 37, name: 'Western' }
+];
+
+const FALLBACK_TV_GENRES: MetadataGenre[] = [
+  { id: 10759, name: 'Action & Adventure' },
+  { id: 16, name: 'Animation' },
+  { id: 35, name: 'Comedy' },
+  { id: 80, name: 'Crime' },
+  { id: 99, name: 'Documentary' },
+  { id: 18, name: 'Drama' },
+  { id: 10751, name: 'Family' },
+  { id: 10762, name: 'Kids' },
+  { id: 9648, name: 'Mystery' },
+  { id: 10763, name: 'News' },
+  { id: 10764, name: 'Reality' },
+  { id: 10765, name: 'Sci-Fi & Fantasy' },
+  { id: 10766, name: 'Soap' },
+  { id: 10767, name: 'Talk' },
+  { id: 10768, name: 'War & Politics' },
+  { id: 37, name: 'Western' }
+];
+
+export const FALLBACK_GENRES: SyncedGenre[] = mergeGenreLists(FALLBACK_MOVIE_GENRES, FALLBACK_TV_GENRES);
@@ -0,0 +1,14 @@
+import { EventEmitter } from 'node:events';
+import { type GroupMatch } from '../schema';
+
+// In-process bus for match mode: a vote that completes a match publishes it to every subscribed member
+export const groupEvents = new EventEmitter();
+groupEvents.setMaxListeners(0); // One listener per connected member, with no fixed limit
+
+export function groupMatchEvent(groupSessionId: number): string {
+  return `match:${groupSessionId}`;
+}
+
+export function publishGroupMatch(match: GroupMatch): void {
+  groupEvents.emit(groupMatchEvent(match.group_session_id), match);
+}
@@ -0,0 +1,73 @@
+import { type GroupStrategy, type GroupVoteType } from '../schema';
+
+// Group recommendations: every member's predicted score for a candidate is combined into one group score
+
+// A member counts as satisfied by (and approving of) a pick they are predicted to score at least this high
+export const APPROVAL_THRESHOLD = 0.5;
+
+// least_misery: the group is only as happy as its least happy member
+// average: mean of the members' scores
+// approval: share of members who would approve of the pick
+export function aggregateGroupScore(scores: number[], strategy: GroupStrategy): number {
+  if (scores.length === 0) {
+    return 0;
+  }
+  switch (strategy) {
+    case 'least_misery':
+      return Math.min(...scores);
+    case 'average':
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    case 'approval':
+      return scores.filter(score => score >= APPROVAL_THRESHOLD).length / scores.length;
+  }
+}
+
+export interface MemberVote {
+  member_id: number;
+  media_item_id: number;
+  vote: GroupVoteType;
+}
+
+// Likes a title needs to become a match; a quorum larger than the group would make matches impossible
+export function votesNeeded(matchQuorum: number | null, memberCount: number): number {
+  return Math.min(matchQuorum ?? memberCount, memberCount);
+}
+
+// Titles there is no point swiping on again: every member has voted on them, or enough members passed
+// that the rest can no longer reach the quorum. Votes from members who have left are ignored.
+export function decidedTitles(votes: MemberVote[], memberIds: number[], needed: number): number[] {
+  const members = new Set(memberIds);
+  const tallies = new Map<number, { voters: number; passes: number }>();
+  votes
+    .filter(vote => members.has(vote.member_id))
+    .forEach(vote => {
+      const tally = tallies.get(vote.media_item_id) ?? { voters: 0, passes: 0 };
+      tally.voters++;
+      if (vote.vote === 'pass') {
+        tally.passes++;
+      }
+      tallies.set(vote.media_item_id, tally);
+    });
+
+  return Array.from(tallies.entries())
+    .filter(([, { voters, passes }]) => voters >= members.size || members.size - passes < needed)
+    .map(([mediaItemId]) => mediaItemId);
+}
+
+function joinNames(names: string[]): string {
+  if (names.length <= 1) {
+    return names.join('');
+  }
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+// e.g. 'Suits everyone: Alice, Bob and Sam' or 'Suits the tastes of Alice and Sam'
+export function describeGroupPick(satisfied: string[], members: string[]): string {
+  if (satisfied.length === 0) {
+    return `A compromise for ${joinNames(members)}`;
+  }
+  if (satisfied.length === members.length && members.length > 1) {
+    return `Suits everyone: ${joinNames(satisfied)}`;
+  }
+  return `Suits the tastes of ${joinNames(satisfied)}`;
+}
@@ -0,0 +1,47 @@
+// Media details (tagline, status, credits and keywords) are fetched lazily and refreshed on a staleness policy
+
+// Titles that are finished change rarely; anything still being made or aired changes often
+export const SETTLED_DETAILS_MAX_AGE_DAYS = 30;
+export const ACTIVE_DETAILS_MAX_AGE_DAYS = 1;
+export const UNKNOWN_STATUS_DETAILS_MAX_AGE_DAYS = 7;
+
+export const SETTLED_STATUSES = ['Released', 'Ended', 'Canceled'];
+export const ACTIVE_STATUSES = ['Returning Series', 'In Production', 'Post Production', 'Planned', 'Rumored', 'Pilot'];
+
+// Crew jobs listed as a title's directors; TV shows rarely credit one, so their creators stand in
+export const DIRECTOR_JOBS = ['Director', 'Creator'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DetailsFreshness {
+  status: string | null;
+  details_fetched_at: Date | null;
+}
+
+export function detailsMaxAgeDays(status: string | null): number {
+  if (status !== null && SETTLED_STATUSES.includes(status)) {
+    return SETTLED_DETAILS_MAX_AGE_DAYS;
+  }
+  if (status !== null && ACTIVE_STATUSES.includes(status)) {
+    return ACTIVE_DETAILS_MAX_AGE_DAYS;
+  }
+  return UNKNOWN_STATUS_DETAILS_MAX_AGE_DAYS;
+}
+
+// Details that were never fetched are always stale
+export function detailsAreStale(item: DetailsFreshness, now: Date = new Date()): boolean {
+  if (item.details_fetched_at === null) {
+    return true;
+  }
+  return now.getTime() - item.details_fetched_at.getTime() >= detailsMaxAgeDays(item.status) * DAY_MS;
+}
+
+// Director names in credit order, without repeats (e.g. a director who is also credited as creator)
+export function directorNames(crew: { name: string; job: string | null }[]): string[] {
+  const directors = crew.filter(member => member.job !== null && DIRECTOR_JOBS.includes(member.job));
+  // Films list their directors; shows without a credited director fall back to their creators
+  const preferred = directors.some(member => member.job === 'Director')
+    ? directors.filter(member => member.job === 'Director')
+    : directors;
+  return Array.from(new Set(preferred.map(member => member.name)));
+}
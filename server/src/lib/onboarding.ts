@@ -0,0 +1,38 @@
+// Cold-start onboarding: a genre-balanced seed list for the quiz, and how much the answers count
+// while a user or guest session has few real interactions
+
+export interface SeedCandidate {
+  id: number;
+  genres: string[];
+}
+
+// Real taste signals after which onboarding answers stop counting
+export const ONBOARDING_FADE_INTERACTIONS = 10;
+
+// Interleaves candidates by primary genre so no genre dominates the quiz. Candidates arrive best first;
+// genres take turns in the order their best candidate appears.
+export function balanceByGenre<T extends SeedCandidate>(candidates: T[], limit: number): T[] {
+  const byGenre = new Map<string, T[]>();
+  candidates.forEach(candidate => {
+    const genre = candidate.genres[0] ?? '';
+    const group = byGenre.get(genre) ?? [];
+    group.push(candidate);
+    byGenre.set(genre, group);
+  });
+
+  const groups = Array.from(byGenre.values());
+  const selected: T[] = [];
+  for (let round = 0; selected.length < limit; round++) {
+    const picks = groups.filter(group => round < group.length).map(group => group[round]);
+    if (picks.length === 0) {
+      break;
+    }
+    selected.push(...picks.slice(0, limit - selected.length));
+  }
+  return selected;
+}
+
+// Onboarding answers count fully for a new owner and fade out linearly as real interactions accumulate
+export function onboardingStrength(realSignals: number): number {
+  return Math.max(0, 1 - realSignals / ONBOARDING_FADE_INTERACTIONS);
+}
@@ -0,0 +1,72 @@
+import { eq, gte, lte, not, inArray, arrayOverlaps, type SQL } from 'drizzle-orm';
+import { mediaItemsTable } from '../db/schema';
+import { type UserPreferences } from '../schema';
+import { releaseYear } from './content_similarity';
+
+// The parts of a preference profile that are hard exclusions rather than soft preferences
+export type ContentFilters = Pick<UserPreferences,
+  'excluded_genres' | 'allowed_languages' | 'min_release_year' | 'max_release_year' |
+  'min_vote_average' | 'min_vote_count' | 'include_adult'>;
+
+export interface FilterableItem {
+  genres: string[];
+  original_language: string;
+  release_date: string | null;
+  vote_average: number;
+  vote_count: number;
+  adult: boolean;
+}
+
+// Conditions on mediaItemsTable that keep only items the preferences allow
+export function preferenceConditions(filters: ContentFilters): SQL<unknown>[] {
+  const conditions: SQL<unknown>[] = [];
+
+  if (filters.excluded_genres.length > 0) {
+    conditions.push(not(arrayOverlaps(mediaItemsTable.genres, filters.excluded_genres)));
+  }
+  if (filters.allowed_languages.length > 0) {
+    conditions.push(inArray(mediaItemsTable.original_language, filters.allowed_languages));
+  }
+  // Release dates are stored as ISO strings, so they compare correctly as text; undated items fail either bound
+  if (filters.min_release_year !== null) {
+    conditions.push(gte(mediaItemsTable.release_date, `${filters.min_release_year}-01-01`));
+  }
+  if (filters.max_release_year !== null) {
+    conditions.push(lte(mediaItemsTable.release_date, `${filters.max_release_year}-12-31`));
+  }
+  if (filters.min_vote_average !== null) {
+    conditions.push(gte(mediaItemsTable.vote_average, filters.min_vote_average.toString()));
+  }
+  if (filters.min_vote_count !== null) {
+    conditions.push(gte(mediaItemsTable.vote_count, filters.min_vote_count));
+  }
+  if (!filters.include_adult) {
+    conditions.push(eq(mediaItemsTable.adult, false));
+  }
+
+  return conditions;
+}
+
+// Same rules as preferenceConditions, for items that are already in memory
+export function matchesPreferences(item: FilterableItem, filters: ContentFilters): boolean {
+  if (item.genres.some(genre => filters.excluded_genres.includes(genre))) {
+    return false;
+  }
+  if (filters.allowed_languages.length > 0 && !filters.allowed_languages.includes(item.original_language)) {
+    return false;
+  }
+  const year = releaseYear(item.release_date);
+  if (filters.min_release_year !== null && (year === null || year < filters.min_release_year)) {
+    return false;
+  }
+  if (filters.max_release_year !== null && (year === null || year > filters.max_release_year)) {
+    return false;
+  }
+  if (filters.min_vote_average !== null && item.vote_average < filters.min_vote_average) {
+    return false;
+  }
+  if (filters.min_vote_count !== null && item.vote_count < filters.min_vote_count) {
+    return false;
+  }
+  return filters.include_adult || !item.adult;
+}
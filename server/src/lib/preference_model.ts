@@ -0,0 +1,234 @@
+import { type UserInteraction, type ExplanationFactor, type RecommendationExplanation } from '../schema';
+import { explanationReason } from './explanations';
+
+// A user interaction joined with the media item it refers to
+export interface PreferenceSignal {
+  media_item_id: number;
+  interaction_type: UserInteraction['interaction_type'];
+  title: string;
+  genres: string[];
+  media_type: 'movie' | 'tv';
+  original_language: string;
+  occurred_at?: Date; // When the interaction was last made; undated signals never decay
+  strength?: number; // Multiplier for signals that did not come from a real interaction, such as onboarding picks
+}
+
+// Positive and negative evidence collected for one feature value (a genre, media type or language)
+export interface FeatureWeight {
+  positive: number;
+  negative: number;
+  liked_titles: string[];
+  disliked_titles: string[];
+}
+
+export interface PreferenceModel {
+  genres: Map<string, FeatureWeight>;
+  media_types: Map<string, FeatureWeight>;
+  languages: Map<string, FeatureWeight>;
+  liked_items: PreferenceSignal[];
+  disliked_items: PreferenceSignal[];
+}
+
+// Minimal view of a media item needed to score it against a preference model
+export interface ScoringCandidate {
+  genres: string[];
+  media_type: 'movie' | 'tv';
+  original_language: string;
+  vote_average: number;
+  popularity: number;
+}
+
+export interface PreferenceModelOptions {
+  now?: Date; // Clock the signal ages are measured against
+  half_life_days?: number; // Age at which a signal counts half as much
+}
+
+export interface CandidateScore {
+  score: number;
+  reason: string; // Derived from the explanation
+  explanation: RecommendationExplanation;
+}
+
+// How much each interaction type says about taste; having watched something makes the verdict count more,
+// watchlist changes carry no taste signal
+const SIGNAL_WEIGHTS: Record<PreferenceSignal['interaction_type'], number> = {
+  like: 1,
+  watched_liked: 1.5,
+  dislike: -1,
+  watched_disliked: -1.5,
+  add_to_watchlist: 0,
+  remove_from_watchlist: 0
+};
+
+// Scoring constants
+export const BASE_SCORE = 0.3;
+export const GENRE_WEIGHT = 0.2; // Per genre, scaled by net preference in [-1, 1]
+export const MEDIA_TYPE_WEIGHT = 0.1;
+export const LANGUAGE_WEIGHT = 0.05;
+export const HIGH_RATING_BONUS = 0.2; // vote_average >= 8.0
+export const GOOD_RATING_BONUS = 0.1; // vote_average >= 7.0
+export const POPULARITY_BONUS = 0.05; // popularity > 50
+
+// Time decay constants
+export const DEFAULT_HALF_LIFE_DAYS = 180;
+export const MOOD_WINDOW_HOURS = 24; // Interactions this recent reflect the current mood
+export const MOOD_BOOST = 1; // Extra weight, relative to the decayed weight, for interactions in the mood window
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyWeight = (): FeatureWeight => ({
+  positive: 0,
+  negative: 0,
+  liked_titles: [],
+  disliked_titles: []
+});
+
+// Each title is listed once per feature, however many signals it contributed; evidence that did not come
+// from a title, such as a declared favourite genre, only adds weight
+const addEvidence = (features: Map<string, FeatureWeight>, key: string, weight: number, title?: string) => {
+  const feature = features.get(key) ?? emptyWeight();
+  const titles = weight > 0 ? feature.liked_titles : feature.disliked_titles;
+  if (weight > 0) {
+    feature.positive += weight;
+  } else {
+    feature.negative += -weight;
+  }
+  if (title !== undefined && !titles.includes(title)) {
+    titles.push(title);
+  }
+  features.set(key, feature);
+};
+
+// How much a signal still counts given its age: halves every half-life, boosted while it reflects the current mood
+export function signalDecay(occurredAt: Date | undefined, options: PreferenceModelOptions = {}): number {
+  if (!occurredAt) {
+    return 1;
+  }
+  const now = options.now ?? new Date();
+  const halfLifeDays = options.half_life_days ?? DEFAULT_HALF_LIFE_DAYS;
+  const ageMs = Math.max(now.getTime() - occurredAt.getTime(), 0);
+
+  const decay = Math.pow(0.5, ageMs / DAY_MS / halfLifeDays);
+  const inMoodWindow = ageMs < MOOD_WINDOW_HOURS * 60 * 60 * 1000;
+  return inMoodWindow ? decay * (1 + MOOD_BOOST) : decay;
+}
+
+export function buildPreferenceModel(signals: PreferenceSignal[], options: PreferenceModelOptions = {}): PreferenceModel {
+  const model: PreferenceModel = {
+    genres: new Map(),
+    media_types: new Map(),
+    languages: new Map(),
+    liked_items: [],
+    disliked_items: []
+  };
+
+  for (const signal of signals) {
+    const weight = SIGNAL_WEIGHTS[signal.interaction_type] * signalDecay(signal.occurred_at, options) * (signal.strength ?? 1);
+    if (weight === 0) {
+      continue;
+    }
+
+    if (weight > 0) {
+      model.liked_items.push(signal);
+    } else {
+      model.disliked_items.push(signal);
+    }
+
+    signal.genres.forEach(genre => addEvidence(model.genres, genre, weight, signal.title));
+    addEvidence(model.media_types, signal.media_type, weight, signal.title);
+    addEvidence(model.languages, signal.original_language, weight, signal.title);
+  }
+
+  return model;
+}
+
+// Genres the user declared as favourites (for example during onboarding), counted as liked with the given weight
+export function addFavouriteGenres(model: PreferenceModel, genres: string[], weight: number): void {
+  if (weight <= 0) {
+    return;
+  }
+  genres.forEach(genre => addEvidence(model.genres, genre, weight));
+}
+
+// Net preference for a feature value: positive means liked, negative means disliked
+export function netWeight(feature: FeatureWeight | undefined): number {
+  return feature ? feature.positive - feature.negative : 0;
+}
+
+// Media types the user has a net positive preference for
+export function preferredMediaTypes(model: PreferenceModel): ('movie' | 'tv')[] {
+  return Array.from(model.media_types.entries())
+    .filter(([, feature]) => netWeight(feature) > 0)
+    .map(([mediaType]) => mediaType as 'movie' | 'tv');
+}
+
+export function scoreCandidate(candidate: ScoringCandidate, model: PreferenceModel): CandidateScore {
+  const factors: ExplanationFactor[] = [];
+
+  // Genre affinity - boosts liked genres and penalises disliked ones
+  const matchedGenres: string[] = [];
+  for (const genre of candidate.genres) {
+    const feature = model.genres.get(genre);
+    const net = Math.min(Math.max(netWeight(feature), -1), 1);
+    if (net > 0 && feature) {
+      matchedGenres.push(genre);
+      factors.push({ kind: 'genre', label: genre, weight: net * GENRE_WEIGHT, titles: feature.liked_titles.slice(0, 3) });
+    } else if (net < 0 && feature) {
+      factors.push({ kind: 'genre', label: genre, weight: net * GENRE_WEIGHT, titles: feature.disliked_titles.slice(0, 3) });
+    }
+  }
+
+  // High rating bonus
+  if (candidate.vote_average >= 8.0) {
+    factors.push({ kind: 'rating', label: `highly rated (${candidate.vote_average}/10)`, weight: HIGH_RATING_BONUS, titles: [] });
+  } else if (candidate.vote_average >= 7.0) {
+    factors.push({ kind: 'rating', label: `well-rated (${candidate.vote_average}/10)`, weight: GOOD_RATING_BONUS, titles: [] });
+  }
+
+  // Media type preference
+  const mediaTypeFeature = model.media_types.get(candidate.media_type);
+  const mediaTypeNet = netWeight(mediaTypeFeature);
+  if (mediaTypeNet > 0 && mediaTypeFeature) {
+    factors.push({ kind: 'media_type', label: candidate.media_type, weight: MEDIA_TYPE_WEIGHT, titles: mediaTypeFeature.liked_titles.slice(0, 3) });
+  } else if (mediaTypeNet < 0 && mediaTypeFeature) {
+    factors.push({ kind: 'media_type', label: candidate.media_type, weight: -MEDIA_TYPE_WEIGHT, titles: mediaTypeFeature.disliked_titles.slice(0, 3) });
+  }
+
+  // Original language preference
+  const languageFeature = model.languages.get(candidate.original_language);
+  const languageNet = netWeight(languageFeature);
+  if (languageNet !== 0 && languageFeature) {
+    factors.push({
+      kind: 'language',
+      label: candidate.original_language,
+      weight: languageNet > 0 ? LANGUAGE_WEIGHT : -LANGUAGE_WEIGHT,
+      titles: (languageNet > 0 ? languageFeature.liked_titles : languageFeature.disliked_titles).slice(0, 3)
+    });
+  }
+
+  // Popularity bonus for discovery
+  if (candidate.popularity > 50) {
+    factors.push({ kind: 'popularity', label: 'popular right now', weight: POPULARITY_BONUS, titles: [] });
+  }
+
+  // The liked items behind the match: those sharing a genre the user enjoys with this candidate
+  const likedItems = model.liked_items
+    .filter(item => item.genres.some(genre => matchedGenres.includes(genre)))
+    .filter((item, index, items) => items.findIndex(other => other.media_item_id === item.media_item_id) === index)
+    .slice(0, 3)
+    .map(item => ({ media_item_id: item.media_item_id, title: item.title }));
+
+  const explanation: RecommendationExplanation = {
+    factors,
+    liked_items: likedItems,
+    matched_genres: matchedGenres
+  };
+  const score = factors.reduce((sum, factor) => sum + factor.weight, BASE_SCORE);
+
+  // Ensure score is between 0 and 1
+  return {
+    score: Math.min(Math.max(score, 0), 1),
+    reason: explanationReason(explanation),
+    explanation
+  };
+}
@@ -0,0 +1,79 @@
+// The parts of a recommendation row that decide whether its media item may be recommended again
+export interface RecommendationHistory {
+  media_item_id: number;
+  shown: boolean;
+  shown_at: Date | null;
+  created_at: Date;
+  response: 'accepted' | 'skipped' | 'snoozed' | 'not_interested' | null;
+  resurface_at: Date | null;
+  response_scope: 'item' | 'genre' | 'franchise' | null;
+  response_scope_value: string | null;
+}
+
+export interface ResponseExclusions {
+  media_item_ids: Set<number>;
+  genres: Set<string>;
+  franchises: Set<string>;
+}
+
+const normaliseTitle = (title: string) => title
+  .replace(/[^\p{L}\p{N}\s]/gu, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Titles in the same franchise share a key, e.g. "Toy Story 3" and "Toy Story: The Lost Toys" both map to
+// "toy story". Subtitles after a colon or spaced dash and trailing sequel numbers are dropped. Only 2-9 and
+// II-IX count as sequel numbers, so titles such as "Malcolm X" and "Apollo 13" keep theirs. A title with
+// nothing left, such as "(500) Days of Summer", keeps the whole of it.
+export function franchiseKey(title: string): string {
+  const lower = title.toLowerCase();
+  const key = normaliseTitle(lower
+    .split(/:| [-–—] |\(/)[0]
+    .replace(/\s+(part|chapter|vol\.?|volume)\s+\S+$/, '')
+    .replace(/\s+([2-9]|ii|iii|iv|v|vi|vii|viii|ix)$/, ''));
+  return key || normaliseTitle(lower);
+}
+
+export function buildResponseExclusions(history: RecommendationHistory[], now: Date, cooldownDays: number): ResponseExclusions {
+  const cooldownStart = new Date(now.getTime() - cooldownDays * 24 * 60 * 60 * 1000);
+  const exclusions: ResponseExclusions = {
+    media_item_ids: new Set(),
+    genres: new Set(),
+    franchises: new Set()
+  };
+
+  for (const rec of history) {
+    switch (rec.response) {
+      case 'accepted':
+        exclusions.media_item_ids.add(rec.media_item_id);
+        break;
+      case 'not_interested':
+        exclusions.media_item_ids.add(rec.media_item_id);
+        if (rec.response_scope === 'genre' && rec.response_scope_value) {
+          exclusions.genres.add(rec.response_scope_value);
+        } else if (rec.response_scope === 'franchise' && rec.response_scope_value) {
+          exclusions.franchises.add(rec.response_scope_value);
+        }
+        break;
+      case 'snoozed':
+        // Snoozed items come back on the date the user picked, regardless of the cooldown
+        if (rec.resurface_at && rec.resurface_at > now) {
+          exclusions.media_item_ids.add(rec.media_item_id);
+        }
+        break;
+      default:
+        // Skipped, or shown and ignored: cool down before recommending again
+        if (rec.shown && (rec.shown_at ?? rec.created_at) >= cooldownStart) {
+          exclusions.media_item_ids.add(rec.media_item_id);
+        }
+    }
+  }
+
+  return exclusions;
+}
+
+export function isExcluded(item: { id: number; title: string; genres: string[] }, exclusions: ResponseExclusions): boolean {
+  return exclusions.media_item_ids.has(item.id) ||
+    item.genres.some(genre => exclusions.genres.has(genre)) ||
+    exclusions.franchises.has(franchiseKey(item.title));
+}
@@ -0,0 +1,49 @@
+import { tokenize, termFrequencies } from './content_similarity';
+
+// TF-IDF text vectors over a media item's title and overview. Term counts are stored per item and
+// document frequencies per term, so vectors are weighted against the current catalogue when compared.
+
+// Raw term counts of one document
+export type TermCounts = Record<string, number>;
+
+export interface VectorisableItem {
+  title: string;
+  overview: string;
+}
+
+export function itemTermCounts(item: VectorisableItem): TermCounts {
+  return Object.fromEntries(termFrequencies(tokenize(`${item.title} ${item.overview}`)));
+}
+
+// Smoothed IDF: never zero, and 1 for every term of an empty catalogue
+export function inverseDocumentFrequency(documentCount: number, totalDocuments: number): number {
+  return Math.log((1 + totalDocuments) / (1 + documentCount)) + 1;
+}
+
+// Weights each term count by how rare the term is across the catalogue; terms missing from the
+// frequency table are treated as appearing in no other document
+export function tfidfVector(
+  counts: TermCounts,
+  documentFrequencies: Map<string, number>,
+  totalDocuments: number
+): Map<string, number> {
+  const vector = new Map<string, number>();
+  Object.entries(counts).forEach(([term, count]) => {
+    vector.set(term, count * inverseDocumentFrequency(documentFrequencies.get(term) ?? 0, totalDocuments));
+  });
+  return vector;
+}
+
+// Per-term change in document frequency when a document's counts go from previous to next
+export function documentFrequencyDelta(previous: TermCounts | null, next: TermCounts): Map<string, number> {
+  const delta = new Map<string, number>();
+  const before = new Set(Object.keys(previous ?? {}));
+  const after = new Set(Object.keys(next));
+  after.forEach(term => {
+    if (!before.has(term)) delta.set(term, 1);
+  });
+  before.forEach(term => {
+    if (!after.has(term)) delta.set(term, -1);
+  });
+  return delta;
+}
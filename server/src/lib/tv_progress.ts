@@ -0,0 +1,84 @@
+import { detailsAreStale } from './media_details';
+
+// Episode progress through TV shows. Specials (season 0) are listed but never count towards progress.
+
+export interface ProgressEpisode {
+  id: number;
+  season_number: number;
+  episode_number: number;
+  air_date: string | null;
+}
+
+export interface WatchedEpisode {
+  episode_id: number;
+  watched_at: Date;
+}
+
+export interface EpisodeProgressSummary<T extends ProgressEpisode> {
+  watched_episodes: number;
+  aired_episodes: number;
+  last_watched_episode: T | null;
+  next_episode: T | null;
+  last_watched_at: Date | null;
+  new_season: boolean;
+}
+
+// Release dates are ISO strings, so they compare correctly as text
+export function hasAired(episode: { air_date: string | null }, now: Date): boolean {
+  return episode.air_date !== null && episode.air_date <= now.toISOString().slice(0, 10);
+}
+
+export function compareEpisodes(a: ProgressEpisode, b: ProgressEpisode): number {
+  return a.season_number - b.season_number || a.episode_number - b.episode_number;
+}
+
+// Finished seasons do not change, so only the latest season of a running show is refreshed as often as
+// the show itself; earlier seasons follow the policy for finished titles
+export function seasonEpisodesAreStale(
+  season: { episodes_fetched_at: Date | null },
+  showStatus: string | null,
+  isLatestSeason: boolean,
+  now: Date = new Date()
+): boolean {
+  return detailsAreStale({
+    status: isLatestSeason ? showStatus : 'Ended',
+    details_fetched_at: season.episodes_fetched_at
+  }, now);
+}
+
+// The next episode up is the first aired, unwatched episode after the furthest one watched. Episodes
+// skipped earlier in the show are not brought back. A new season is flagged when the next episode opens
+// a season that started airing after the last episode was watched.
+export function summariseProgress<T extends ProgressEpisode>(
+  episodes: T[],
+  watched: WatchedEpisode[],
+  now: Date = new Date()
+): EpisodeProgressSummary<T> {
+  const regular = episodes.filter(episode => episode.season_number > 0).sort(compareEpisodes);
+  const watchedAt = new Map(watched.map(entry => [entry.episode_id, entry.watched_at]));
+  const watchedEpisodes = regular.filter(episode => watchedAt.has(episode.id));
+  const lastWatched = watchedEpisodes.length > 0 ? watchedEpisodes[watchedEpisodes.length - 1] : null;
+  const lastWatchedAt = watched.length > 0
+    ? new Date(watched.reduce((latest, entry) => Math.max(latest, entry.watched_at.getTime()), 0))
+    : null;
+
+  const next = regular.find(episode =>
+    (lastWatched === null || compareEpisodes(episode, lastWatched) > 0) &&
+    !watchedAt.has(episode.id) &&
+    hasAired(episode, now)
+  ) ?? null;
+
+  const seasonStart = next && next.episode_number === 1 ? next.air_date : null;
+  const newSeason = lastWatched !== null && lastWatchedAt !== null && seasonStart !== null &&
+    next!.season_number > lastWatched.season_number &&
+    seasonStart > lastWatchedAt.toISOString().slice(0, 10);
+
+  return {
+    watched_episodes: watchedEpisodes.length,
+    aired_episodes: regular.filter(episode => hasAired(episode, now)).length,
+    last_watched_episode: lastWatched,
+    next_episode: next,
+    last_watched_at: lastWatchedAt,
+    new_season: newSeason
+  };
+}
@@ -0,0 +1,80 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { METADATA_LANGUAGE, METADATA_PAGE_SIZE, type MetadataGenre, type MetadataMediaType, type MetadataProvider } from './metadata_provider';
+import { isListableMedia, toMediaDetails, toMediaItemInput, toMediaSeason, type TMDBMediaItem, type TMDBSeason } from './tmdb_provider';
+
+// Recorded TMDB responses, see fixtures/tmdb/catalog.json
+export interface FixtureCatalog {
+  genres: Record<MetadataMediaType, MetadataGenre[]>; // In METADATA_LANGUAGE
+  localized_genres: Record<string, Record<MetadataMediaType, MetadataGenre[]>>; // By language code
+  items: (TMDBMediaItem & { media_type: MetadataMediaType })[]; // Full details records
+  trending: Record<'day' | 'week', number[]>; // TMDB ids, most trending first
+  seasons: Record<string, TMDBSeason[]>; // Season details by show TMDB id; only some seasons are recorded
+}
+
+// Serves a recorded catalogue the way TMDB would, with no network access. List endpoints drop the
+// detail fields, as TMDB does, so both providers store the same data.
+export function createFixtureProvider(directory: string): MetadataProvider {
+  let catalog: Promise<FixtureCatalog> | null = null;
+  const load = () => {
+    catalog ??= readFile(join(directory, 'catalog.json'), 'utf8').then(text => JSON.parse(text) as FixtureCatalog);
+    return catalog;
+  };
+
+  const asListed = ({
+    genres, runtime, episode_run_time, release_dates, content_ratings, tagline, status, created_by, credits, keywords, seasons, ...item
+  }: TMDBMediaItem) => ({
+    ...item,
+    genre_ids: item.genre_ids ?? (genres ?? []).map(genre => genre.id)
+  });
+
+  const ofType = (items: FixtureCatalog['items'], mediaType: MetadataMediaType | 'all') =>
+    items.filter(item => mediaType === 'all' || item.media_type === mediaType);
+
+  const page = (items: FixtureCatalog['items'], pageNumber: number) => items
+    .slice((pageNumber - 1) * METADATA_PAGE_SIZE, pageNumber * METADATA_PAGE_SIZE)
+    .filter(isListableMedia)
+    .map(item => toMediaItemInput(asListed(item), item.media_type));
+
+  return {
+    name: 'fixtures',
+
+    async search(query, mediaType, pageNumber) {
+      const { items } = await load();
+      const needle = query.toLowerCase();
+      return page(ofType(items, mediaType)
+        .filter(item => (item.title || item.name || '').toLowerCase().includes(needle)), pageNumber);
+    },
+
+    async popular(mediaType, pageNumber) {
+      const { items } = await load();
+      return page(ofType(items, mediaType).sort((a, b) => b.popularity - a.popularity), pageNumber);
+    },
+
+    async trending(mediaType, window) {
+      const { items, trending } = await load();
+      const trendingItems = trending[window]
+        .map(id => items.find(item => item.id === id))
+        .filter((item): item is FixtureCatalog['items'][number] => item !== undefined);
+      return page(ofType(trendingItems, mediaType), 1);
+    },
+
+    async details(tmdbId, mediaType) {
+      const { items } = await load();
+      const item = items.find(candidate => candidate.id === tmdbId && candidate.media_type === mediaType);
+      return item ? toMediaDetails(item, mediaType) : null;
+    },
+
+    async season(tmdbId, seasonNumber) {
+      const { seasons } = await load();
+      const season = (seasons[String(tmdbId)] ?? []).find(candidate => candidate.season_number === seasonNumber);
+      return season ? toMediaSeason(season) : null;
+    },
+
+    async genres(mediaType, language = METADATA_LANGUAGE) {
+      const { genres, localized_genres } = await load();
+      // Unrecorded languages fall back to the canonical names
+      return localized_genres[language]?.[mediaType] ?? genres[mediaType];
+    }
+  };
+}
@@ -0,0 +1,118 @@
+import { join } from 'node:path';
+import { type CreateMediaItemInput } from '../schema';
+import { createTmdbProvider } from './tmdb_provider';
+import { createFixtureProvider } from './fixture_provider';
+
+// Where media metadata comes from. Handlers only talk to this interface, so the app can run
+// against TMDB or, offline and in tests, against recorded fixtures.
+
+export type MetadataMediaType = 'movie' | 'tv';
+export type TrendingWindow = 'day' | 'week';
+
+export interface MetadataGenre {
+  id: number;
+  name: string;
+}
+
+// Someone in a title's cast or crew; person_id is the provider's id for the person
+export interface MetadataCredit {
+  person_id: number;
+  name: string;
+  profile_path: string | null;
+  role: 'cast' | 'crew';
+  character: string | null; // cast only
+  job: string | null; // crew only
+  department: string | null; // crew only
+  order: number; // billing order within the role
+}
+
+export interface MetadataKeyword {
+  id: number;
+  name: string;
+}
+
+// A season of a TV show as its details list it
+export interface MetadataSeasonSummary {
+  season_number: number; // 0 holds specials
+  name: string;
+  overview: string | null;
+  air_date: string | null;
+  poster_path: string | null;
+  episode_count: number;
+}
+
+export interface MetadataEpisode {
+  id: number;
+  episode_number: number;
+  name: string;
+  overview: string | null;
+  air_date: string | null; // ISO date; null until announced
+  runtime: number | null;
+  still_path: string | null;
+}
+
+export interface MetadataSeason extends Omit<MetadataSeasonSummary, 'episode_count'> {
+  episodes: MetadataEpisode[];
+}
+
+// Everything the details endpoints add to the list-level fields
+export interface MetadataDetails extends CreateMediaItemInput {
+  tagline: string | null;
+  status: string | null; // e.g. Released, Returning Series, Ended
+  credits: MetadataCredit[];
+  keywords: MetadataKeyword[];
+  seasons: MetadataSeasonSummary[]; // TV only
+}
+
+export interface MetadataProvider {
+  name: string;
+  search(query: string, mediaType: MetadataMediaType | 'all', page: number): Promise<CreateMediaItemInput[]>;
+  popular(mediaType: MetadataMediaType | 'all', page: number): Promise<CreateMediaItemInput[]>;
+  trending(mediaType: MetadataMediaType | 'all', window: TrendingWindow): Promise<CreateMediaItemInput[]>;
+  // Null when the provider does not know the title
+  details(tmdbId: number, mediaType: MetadataMediaType): Promise<MetadataDetails | null>;
+  // A TV season with its episodes; null when the provider does not know the season
+  season(tmdbId: number, seasonNumber: number): Promise<MetadataSeason | null>;
+  // Genre names in the given language, METADATA_LANGUAGE by default
+  genres(mediaType: MetadataMediaType, language?: string): Promise<MetadataGenre[]>;
+}
+
+// Results per page, matching TMDB
+export const METADATA_PAGE_SIZE = 20;
+
+// Language of the canonical genre names stored on media items; other languages are display names only
+export const METADATA_LANGUAGE = 'en-US';
+
+export const DEFAULT_FIXTURES_DIR = join(import.meta.dir, '../../fixtures/tmdb');
+
+let providerOverride: MetadataProvider | null = null;
+
+// Replaces the configured provider until reset with null
+export function setMetadataProvider(provider: MetadataProvider | null): void {
+  providerOverride = provider;
+}
+
+// Whether the configured provider can be asked at all; TMDB cannot without an API key
+export function metadataProviderConfigured(): boolean {
+  if (providerOverride) {
+    return true;
+  }
+  return (process.env['METADATA_PROVIDER'] || 'tmdb') !== 'tmdb' || Boolean(process.env['TMDB_API_KEY']);
+}
+
+// METADATA_PROVIDER selects 'tmdb' (the default, needs TMDB_API_KEY) or 'fixtures' (reads METADATA_FIXTURES_DIR)
+export function getMetadataProvider(): MetadataProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  const name = process.env['METADATA_PROVIDER'] || 'tmdb';
+  switch (name) {
+    case 'tmdb':
+      return createTmdbProvider(process.env['TMDB_API_KEY']);
+    case 'fixtures':
+      return createFixtureProvider(process.env['METADATA_FIXTURES_DIR'] || DEFAULT_FIXTURES_DIR);
+    default:
+      throw new Error(`Unknown metadata provider: ${name}`);
+  }
+}
@@ -0,0 +1,250 @@
+import { type CreateMediaItemInput } from '../schema';
+import { METADATA_LANGUAGE, type MetadataCredit, type MetadataDetails, type MetadataMediaType, type MetadataProvider, type MetadataSeason } from './metadata_provider';
+
+const TMDB_API_URL = 'https://api.themoviedb.org/3';
+// Country whose certifications are used as content ratings
+const RATING_COUNTRY = 'US';
+// Billed cast members kept per title
+export const MAX_CAST = 20;
+// Crew jobs worth keeping; the full crew of a film runs into the hundreds
+export const KEY_CREW_JOBS = ['Director', 'Creator', 'Screenplay', 'Writer', 'Novel', 'Producer', 'Original Music Composer', 'Director of Photography'];
+
+// TMDB API types
+interface TMDBListResult {
+  page: number;
+  results: TMDBMediaItem[];
+  total_pages: number;
+  total_results: number;
+}
+
+// A movie or TV show as TMDB lists it; the optional detail fields only come with the details endpoints
+export interface TMDBMediaItem {
+  id: number;
+  title?: string; // for movies
+  name?: string; // for TV shows
+  media_type?: 'movie' | 'tv' | 'person';
+  poster_path: string | null;
+  backdrop_path: string | null;
+  overview: string;
+  release_date?: string; // for movies
+  first_air_date?: string; // for TV shows
+  genre_ids?: number[]; // in lists
+  genres?: { id: number; name: string }[]; // in details
+  vote_average: number;
+  vote_count: number;
+  popularity: number;
+  adult?: boolean;
+  original_language: string;
+  runtime?: number | null; // movie details
+  episode_run_time?: number[]; // TV details
+  release_dates?: { results: { iso_3166_1: string; release_dates: { certification: string }[] }[] }; // movie details
+  content_ratings?: { results: { iso_3166_1: string; rating: string }[] }; // TV details
+  tagline?: string | null; // details
+  status?: string | null; // details
+  created_by?: { id: number; name: string; profile_path: string | null }[]; // TV details
+  credits?: {
+    cast: { id: number; name: string; profile_path: string | null; character: string | null; order: number }[];
+    crew: { id: number; name: string; profile_path: string | null; job: string; department: string }[];
+  };
+  keywords?: { keywords?: { id: number; name: string }[]; results?: { id: number; name: string }[] }; // movies use keywords, TV results
+  seasons?: { season_number: number; name: string; overview: string; air_date: string | null; poster_path: string | null; episode_count: number }[]; // TV details
+}
+
+// A TV season as the season details endpoint returns it
+export interface TMDBSeason {
+  season_number: number;
+  name: string;
+  overview: string;
+  air_date: string | null;
+  poster_path: string | null;
+  episodes: {
+    id: number;
+    episode_number: number;
+    name: string;
+    overview: string;
+    air_date: string | null;
+    runtime: number | null;
+    still_path: string | null;
+  }[];
+}
+
+// Movies and TV shows with the essentials; people and untitled entries are dropped
+export function isListableMedia(item: TMDBMediaItem): boolean {
+  return item.media_type !== 'person' && Boolean((item.title || item.name) && item.overview);
+}
+
+// Maps a TMDB record onto our media item fields. Runtime and content rating are only set from details,
+// so list results leave stored values alone.
+export function toMediaItemInput(item: TMDBMediaItem, mediaType?: MetadataMediaType): CreateMediaItemInput {
+  const input: CreateMediaItemInput = {
+    tmdb_id: item.id,
+    title: item.title || item.name || 'Unknown Title',
+    media_type: mediaType ?? (item.media_type === 'tv' || (!item.media_type && !item.title) ? 'tv' : 'movie'),
+    poster_path: item.poster_path,
+    backdrop_path: item.backdrop_path,
+    overview: item.overview,
+    release_date: item.release_date || item.first_air_date || null,
+    // Lists only carry genre IDs; their names are looked up in the genres table when the item is stored
+    genres: (item.genres ?? []).map(genre => genre.name),
+    genre_ids: item.genres ? item.genres.map(genre => genre.id) : (item.genre_ids ?? []),
+    vote_average: item.vote_average,
+    vote_count: item.vote_count,
+    popularity: item.popularity,
+    adult: item.adult ?? false,
+    original_language: item.original_language
+  };
+
+  if (item.runtime !== undefined || item.episode_run_time !== undefined) {
+    input.runtime = item.runtime || item.episode_run_time?.[0] || null;
+  }
+  if (item.release_dates) {
+    const country = item.release_dates.results.find(result => result.iso_3166_1 === RATING_COUNTRY);
+    input.content_rating = country?.release_dates.find(release => release.certification)?.certification ?? null;
+  } else if (item.content_ratings) {
+    input.content_rating = item.content_ratings.results.find(result => result.iso_3166_1 === RATING_COUNTRY)?.rating ?? null;
+  }
+
+  return input;
+}
+
+// Maps a TMDB details record, with credits and keywords appended, onto our details fields
+export function toMediaDetails(item: TMDBMediaItem, mediaType: MetadataMediaType): MetadataDetails {
+  const cast: MetadataCredit[] = (item.credits?.cast ?? [])
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .slice(0, MAX_CAST)
+    .map((member, index) => ({
+      person_id: member.id,
+      name: member.name,
+      profile_path: member.profile_path,
+      role: 'cast',
+      character: member.character || null,
+      job: null,
+      department: null,
+      order: index
+    }));
+
+  // TV creators are not part of the crew list, so they are added as crew with the job Creator
+  const crewMembers = [
+    ...(item.created_by ?? []).map(creator => ({ ...creator, job: 'Creator', department: 'Writing' })),
+    ...(item.credits?.crew ?? []).filter(member => KEY_CREW_JOBS.includes(member.job))
+  ];
+  const crew: MetadataCredit[] = crewMembers.map((member, index) => ({
+    person_id: member.id,
+    name: member.name,
+    profile_path: member.profile_path,
+    role: 'crew',
+    character: null,
+    job: member.job,
+    department: member.department,
+    order: index
+  }));
+
+  return {
+    ...toMediaItemInput(item, mediaType),
+    tagline: item.tagline || null,
+    status: item.status || null,
+    credits: [...cast, ...crew],
+    keywords: item.keywords?.keywords ?? item.keywords?.results ?? [],
+    seasons: (item.seasons ?? []).map(season => ({
+      season_number: season.season_number,
+      name: season.name,
+      overview: season.overview || null,
+      air_date: season.air_date || null,
+      poster_path: season.poster_path,
+      episode_count: season.episode_count
+    }))
+  };
+}
+
+export function toMediaSeason(season: TMDBSeason): MetadataSeason {
+  return {
+    season_number: season.season_number,
+    name: season.name,
+    overview: season.overview || null,
+    air_date: season.air_date || null,
+    poster_path: season.poster_path,
+    episodes: season.episodes.map(episode => ({
+      id: episode.id,
+      episode_number: episode.episode_number,
+      name: episode.name,
+      overview: episode.overview || null,
+      air_date: episode.air_date || null,
+      runtime: episode.runtime ?? null,
+      still_path: episode.still_path
+    }))
+  };
+}
+
+export function createTmdbProvider(apiKey: string | undefined): MetadataProvider {
+  // Null for a 404 when allowNotFound is set
+  const request = async <T>(path: string, params: Record<string, string | number> = {}, allowNotFound = false): Promise<T | null> => {
+    if (!apiKey) {
+      throw new Error('TMDB_API_KEY environment variable is required');
+    }
+
+    const query = Object.entries(params)
+      .map(([key, value]) => `&${key}=${encodeURIComponent(String(value))}`)
+      .join('');
+    const response = await fetch(`${TMDB_API_URL}${path}?api_key=${apiKey}${query}`);
+
+    if (allowNotFound && response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`TMDB API error: ${response.status} ${response.statusText}`);
+    }
+    return await response.json() as T;
+  };
+
+  // Single endpoint lists omit media_type, so it is passed on explicitly
+  const list = async (path: string, params: Record<string, string | number>, mediaType?: MetadataMediaType) => {
+    const data = await request<TMDBListResult>(path, params);
+    return data!.results
+      .filter(isListableMedia)
+      .map(item => toMediaItemInput(item, mediaType));
+  };
+
+  return {
+    name: 'tmdb',
+
+    search(query, mediaType, page) {
+      return mediaType === 'all'
+        ? list('/search/multi', { query, page })
+        : list(`/search/${mediaType}`, { query, page }, mediaType);
+    },
+
+    async popular(mediaType, page) {
+      if (mediaType !== 'all') {
+        return list(`/${mediaType}/popular`, { page }, mediaType);
+      }
+      // TMDB has no combined popular list, so the two are interleaved by popularity
+      const [movies, shows] = await Promise.all([
+        list('/movie/popular', { page }, 'movie'),
+        list('/tv/popular', { page }, 'tv')
+      ]);
+      return [...movies, ...shows].sort((a, b) => b.popularity - a.popularity);
+    },
+
+    trending(mediaType, window) {
+      return list(`/trending/${mediaType}/${window}`, {}, mediaType === 'all' ? undefined : mediaType);
+    },
+
+    async details(tmdbId, mediaType) {
+      const item = await request<TMDBMediaItem>(`/${mediaType}/${tmdbId}`, {
+        append_to_response: `credits,keywords,${mediaType === 'movie' ? 'release_dates' : 'content_ratings'}`
+      }, true);
+      return item ? toMediaDetails(item, mediaType) : null;
+    },
+
+    async season(tmdbId, seasonNumber) {
+      const season = await request<TMDBSeason>(`/tv/${tmdbId}/season/${seasonNumber}`, {}, true);
+      return season ? toMediaSeason(season) : null;
+    },
+
+    async genres(mediaType, language = METADATA_LANGUAGE) {
+      const data = await request<{ genres: { id: number; name: string }[] }>(`/genre/${mediaType}/list`, { language });
+      return data!.genres;
+    }
+  };
+}
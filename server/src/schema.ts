@@ -35,12 +35,147 @@ export const mediaItemSchema = z.object({
   popularity: z.number(),
   adult: z.boolean(),
   original_language: z.string(),
+  runtime: z.number().int().nullable(), // Minutes; per episode for TV shows
+  content_rating: z.string().nullable(), // Certification such as PG-13 or TV-Y7
+  tagline: z.string().nullable(), // Null until details have been fetched
+  status: z.string().nullable(), // e.g. Released or Returning Series; null until details have been fetched
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type MediaItem = z.infer<typeof mediaItemSchema>;
 
+// A cast or crew member of a media item
+export const mediaCreditSchema = z.object({
+  person_id: z.number(),
+  tmdb_person_id: z.number(),
+  name: z.string(),
+  profile_path: z.string().nullable(),
+  character: z.string().nullable(), // Cast only
+  job: z.string().nullable(), // Crew only
+  department: z.string().nullable() // Crew only
+});
+
+export type MediaCredit = z.infer<typeof mediaCreditSchema>;
+
+// Media item with its details, cast, crew and keywords
+export const mediaItemDetailsSchema = mediaItemSchema.extend({
+  directors: z.array(z.string()), // Creators for TV shows without a credited director
+  cast: z.array(mediaCreditSchema), // In billing order
+  crew: z.array(mediaCreditSchema),
+  keywords: z.array(z.string()),
+  details_fetched_at: z.coerce.date().nullable() // Null while the provider has never been reached for this title
+});
+
+export type MediaItemDetails = z.infer<typeof mediaItemDetailsSchema>;
+
+// Input schema for media item details
+export const mediaItemDetailsInputSchema = z.object({
+  media_item_id: z.number(),
+  refresh: z.boolean().default(false) // Fetch again even if the stored details are still fresh
+});
+
+export type MediaItemDetailsInput = z.infer<typeof mediaItemDetailsInputSchema>;
+
+// TV episode schema
+export const episodeSchema = z.object({
+  id: z.number(),
+  media_item_id: z.number(),
+  season_number: z.number().int(),
+  episode_number: z.number().int(),
+  name: z.string(),
+  overview: z.string().nullable(),
+  air_date: z.string().nullable(), // ISO date; null until announced
+  runtime: z.number().int().nullable(), // Minutes
+  still_path: z.string().nullable()
+});
+
+export type Episode = z.infer<typeof episodeSchema>;
+
+// TV season with its episodes; watched is set for the requesting user or session
+export const tvSeasonSchema = z.object({
+  id: z.number(),
+  media_item_id: z.number(),
+  season_number: z.number().int(),
+  name: z.string(),
+  overview: z.string().nullable(),
+  air_date: z.string().nullable(),
+  poster_path: z.string().nullable(),
+  episode_count: z.number().int(),
+  episodes: z.array(episodeSchema.extend({ watched: z.boolean() }))
+});
+
+export type TvSeason = z.infer<typeof tvSeasonSchema>;
+
+// Input schema for a show's seasons
+export const tvSeasonsInputSchema = z.object({
+  media_item_id: z.number(),
+  user_id: z.number().optional(), // Marks the episodes this user or session has watched
+  session_id: z.string().optional()
+});
+
+export type TvSeasonsInput = z.infer<typeof tvSeasonsInputSchema>;
+
+// Input schema for marking an episode watched or unwatched
+export const setEpisodeWatchedInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  episode_id: z.number(),
+  watched: z.boolean().default(true),
+  include_previous: z.boolean().default(false) // Also mark every earlier episode of the show watched
+});
+
+export type SetEpisodeWatchedInput = z.infer<typeof setEpisodeWatchedInputSchema>;
+
+// Where a user or session is up to in a show
+export const showProgressSchema = z.object({
+  media_item_id: z.number(),
+  watched_episodes: z.number().int(),
+  aired_episodes: z.number().int(), // Specials are not counted
+  last_watched_episode: episodeSchema.nullable(), // Furthest episode watched
+  next_episode: episodeSchema.nullable(), // Next aired episode after it; null when caught up
+  last_watched_at: z.coerce.date().nullable(),
+  new_season: z.boolean() // The next episode opens a season that started after the previous one was watched
+});
+
+export type ShowProgress = z.infer<typeof showProgressSchema>;
+
+// A show the user or session is part way through
+export const continueWatchingItemSchema = showProgressSchema.extend({
+  media_item: mediaItemSchema,
+  next_episode: episodeSchema // Shows without a next episode are not listed
+});
+
+export type ContinueWatchingItem = z.infer<typeof continueWatchingItemSchema>;
+
+// Input schema for continue watching
+export const continueWatchingInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  limit: z.number().int().positive().max(50).default(10)
+});
+
+export type ContinueWatchingInput = z.infer<typeof continueWatchingInputSchema>;
+
+// Genre schema, as listed for filters
+export const genreSchema = z.object({
+  id: z.number(),
+  tmdb_id: z.number().nullable(), // Stable TMDB genre ID; null for a genre only known by name
+  name: z.string(), // In the requested language
+  canonical_name: z.string(), // As stored in media item genres and used by filters
+  media_types: z.array(z.enum(['movie', 'tv']))
+});
+
+export type Genre = z.infer<typeof genreSchema>;
+
+// Input schema for listing genres
+export const listGenresInputSchema = z.object({
+  media_type: z.enum(['movie', 'tv', 'all']).default('all'),
+  language: z.string().optional() // e.g. de-DE; canonical names when omitted
+});
+
+export type ListGenresInput = z.infer<typeof listGenresInputSchema>;
+
 // Input schema for creating media items
 export const createMediaItemInputSchema = z.object({
   tmdb_id: z.number(),
@@ -51,11 +186,14 @@ export const createMediaItemInputSchema = z.object({
   overview: z.string(),
   release_date: z.string().nullable(),
   genres: z.array(z.string()),
+  genre_ids: z.array(z.number()).optional(), // TMDB genre IDs; when given, genre names come from the genres table
   vote_average: z.number(),
   vote_count: z.number(),
   popularity: z.number(),
   adult: z.boolean(),
-  original_language: z.string()
+  original_language: z.string(),
+  runtime: z.number().int().positive().nullable().optional(), // Left unchanged on update when omitted
+  content_rating: z.string().nullable().optional() // Left unchanged on update when omitted
 });
 
 export type CreateMediaItemInput = z.infer<typeof createMediaItemInputSchema>;
@@ -83,6 +221,28 @@ export const createUserInteractionInputSchema = z.object({
 
 export type CreateUserInteractionInput = z.infer<typeof createUserInteractionInputSchema>;
 
+// One contribution to a recommendation's score, e.g. a liked genre or a high rating
+export const explanationFactorSchema = z.object({
+  kind: z.enum(['genre', 'rating', 'media_type', 'language', 'popularity', 'collaborative', 'exploration', 'context']),
+  label: z.string(), // Genre name, media type, language code or a short phrase
+  weight: z.number(), // Contribution to the score; negative for penalties
+  titles: z.array(z.string()) // Liked or disliked titles behind this factor, strongest first
+});
+
+export type ExplanationFactor = z.infer<typeof explanationFactorSchema>;
+
+// Structured "Why am I seeing this?" payload; the reason text is derived from it
+export const recommendationExplanationSchema = z.object({
+  factors: z.array(explanationFactorSchema),
+  liked_items: z.array(z.object({ // The user's liked items that drove the match
+    media_item_id: z.number(),
+    title: z.string()
+  })),
+  matched_genres: z.array(z.string()) // Genres of the item the user likes
+});
+
+export type RecommendationExplanation = z.infer<typeof recommendationExplanationSchema>;
+
 // Recommendation schema
 export const recommendationSchema = z.object({
   id: z.number(),
@@ -90,9 +250,21 @@ export const recommendationSchema = z.object({
   session_id: z.string().nullable(),
   media_item_id: z.number(),
   reason: z.string(), // AI-generated reason like "Because you liked X"
-  score: z.number(), // Recommendation confidence score
+  score: z.number(), // Calibrated probability of a positive outcome
+  raw_score: z.number().nullable(), // Uncalibrated ranking score; null for rows from before calibration
   shown: z.boolean().default(false), // Whether this recommendation was already shown
-  created_at: z.coerce.date()
+  shown_at: z.coerce.date().nullable(), // When it was shown, null while still queued
+  response: z.enum(['accepted', 'skipped', 'snoozed', 'not_interested']).nullable(), // User feedback, null until given
+  responded_at: z.coerce.date().nullable(),
+  resurface_at: z.coerce.date().nullable(), // When a snoozed recommendation may come back
+  response_scope: z.enum(['item', 'genre', 'franchise']).nullable(), // What "not interested" applies to
+  response_scope_value: z.string().nullable(), // Genre name or franchise key
+  experiment: z.string().nullable(), // Experiment this recommendation was generated under, if any
+  experiment_arm: z.string().nullable(),
+  explanation: recommendationExplanationSchema.nullable(), // Null for rows generated before explanations existed
+  queue_position: z.number().int().nullable(), // Serving order from the latest generation, null for rows added otherwise
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
 });
 
 export type Recommendation = z.infer<typeof recommendationSchema>;
@@ -108,6 +280,19 @@ export const createRecommendationInputSchema = z.object({
 
 export type CreateRecommendationInput = z.infer<typeof createRecommendationInputSchema>;
 
+// Input schema for responding to a shown recommendation
+export const respondToRecommendationInputSchema = z.object({
+  recommendation_id: z.number(),
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  response: z.enum(['accepted', 'skipped', 'snoozed', 'not_interested']),
+  resurface_at: z.coerce.date().optional(), // Required when snoozing
+  scope: z.enum(['item', 'genre', 'franchise']).optional(), // For not_interested, defaults to 'item'
+  genre: z.string().optional() // Required when scope is 'genre'
+});
+
+export type RespondToRecommendationInput = z.infer<typeof respondToRecommendationInputSchema>;
+
 // Watchlist schema
 export const watchlistSchema = z.object({
   id: z.number(),
@@ -132,7 +317,9 @@ export type WatchlistInput = z.infer<typeof watchlistInputSchema>;
 export const searchInputSchema = z.object({
   query: z.string().min(1),
   media_type: z.enum(['movie', 'tv', 'all']).default('all'),
-  page: z.number().int().positive().default(1)
+  page: z.number().int().positive().default(1),
+  user_id: z.number().optional(), // Applies this user's or session's hard exclusions
+  session_id: z.string().optional()
 });
 
 export type SearchInput = z.infer<typeof searchInputSchema>;
@@ -140,20 +327,227 @@ export type SearchInput = z.infer<typeof searchInputSchema>;
 // Popular items input schema
 export const popularItemsInputSchema = z.object({
   media_type: z.enum(['movie', 'tv', 'all']).default('all'),
-  page: z.number().int().positive().default(1)
+  page: z.number().int().positive().default(1),
+  user_id: z.number().optional(), // Applies this user's or session's hard exclusions
+  session_id: z.string().optional()
 });
 
 export type PopularItemsInput = z.infer<typeof popularItemsInputSchema>;
 
+// Input schema for trending items
+export const trendingItemsInputSchema = z.object({
+  media_type: z.enum(['movie', 'tv', 'all']).default('all'),
+  time_window: z.enum(['day', 'week']).default('week'), // Trending today or over the past week
+  user_id: z.number().optional(), // Applies this user's or session's hard exclusions
+  session_id: z.string().optional()
+});
+
+export type TrendingItemsInput = z.infer<typeof trendingItemsInputSchema>;
+
+// Moods a recommendation request can ask for
+export const moodSchema = z.enum(['light', 'dark', 'thoughtful', 'exciting', 'romantic']);
+
+export type Mood = z.infer<typeof moodSchema>;
+
+// Who is watching
+export const audienceSchema = z.enum(['solo', 'family', 'kids']);
+
+export type Audience = z.infer<typeof audienceSchema>;
+
 // Get recommendations input schema
 export const getRecommendationsInputSchema = z.object({
   user_id: z.number().optional(),
   session_id: z.string().optional(),
-  limit: z.number().int().positive().default(10)
+  limit: z.number().int().positive().default(10),
+  collaborative_weight: z.number().min(0).max(1).optional(), // Share of the score from collaborative filtering
+  diversity: z.number().min(0).max(1).optional(), // 0 = rank purely by relevance, 1 = favour variety
+  max_genre_share: z.number().gt(0).max(1).optional(), // Cap on the share of a batch any single genre may take
+  exploration_rate: z.number().min(0).max(1).optional(), // Chance that each slot explores outside the user's usual picks
+  half_life_days: z.number().positive().optional(), // Age at which an interaction counts half as much
+  // Context of this request, applied as filters and score modifiers
+  moods: z.array(moodSchema).optional(),
+  max_runtime: z.number().int().positive().optional(), // Minutes
+  media_type: z.enum(['movie', 'tv']).optional(),
+  audience: audienceSchema.optional(),
+  min_release_year: z.number().int().optional(),
+  max_release_year: z.number().int().optional()
 });
 
 export type GetRecommendationsInput = z.infer<typeof getRecommendationsInputSchema>;
 
+// Collaborative model rebuild summary schema
+export const collaborativeModelSummarySchema = z.object({
+  owners: z.number(), // Users and guest sessions with at least one like
+  pairs: z.number(), // Item pairs stored in the model
+  rebuilt_at: z.coerce.date()
+});
+
+export type CollaborativeModelSummary = z.infer<typeof collaborativeModelSummarySchema>;
+
+// Text vector rebuild summary schema
+export const textVectorsSummarySchema = z.object({
+  items: z.number(), // Media items vectorised
+  terms: z.number(), // Distinct terms across all items
+  rebuilt_at: z.coerce.date()
+});
+
+export type TextVectorsSummary = z.infer<typeof textVectorsSummarySchema>;
+
+// One point of the calibration curve: raw scores around raw_score turned out positive with this probability
+export const calibrationPointSchema = z.object({
+  raw_score: z.number(),
+  probability: z.number(),
+  count: z.number().int() // Outcomes pooled into this point
+});
+
+export type CalibrationPoint = z.infer<typeof calibrationPointSchema>;
+
+// Predicted against observed positive rate for one band of predictions
+export const reliabilityBinSchema = z.object({
+  lower: z.number(),
+  upper: z.number(),
+  count: z.number().int(),
+  mean_predicted: z.number(),
+  observed_rate: z.number()
+});
+
+export type ReliabilityBin = z.infer<typeof reliabilityBinSchema>;
+
+// Score calibration schema (the fitted curve and how well it fits)
+export const scoreCalibrationSchema = z.object({
+  id: z.number(),
+  points: z.array(calibrationPointSchema), // Empty while there are too few outcomes; scores are then left as they are
+  reliability: z.array(reliabilityBinSchema), // For calibrated scores, on the outcomes the curve was fitted to
+  outcomes: z.number().int(), // Responses the curve was fitted to
+  positives: z.number().int(),
+  brier_score_raw: z.number(), // Mean squared error of raw scores as probabilities, lower is better
+  brier_score_calibrated: z.number(),
+  fitted_at: z.coerce.date()
+});
+
+export type ScoreCalibration = z.infer<typeof scoreCalibrationSchema>;
+
+// Experiment report input schema
+export const experimentReportInputSchema = z.object({
+  experiment: z.string().optional() // Defaults to the active experiment
+});
+
+export type ExperimentReportInput = z.infer<typeof experimentReportInputSchema>;
+
+// Outcomes attributed to one experiment arm
+export const experimentArmReportSchema = z.object({
+  arm: z.string(),
+  owners: z.number().int(), // Users and guest sessions shown at least one recommendation
+  exposures: z.number().int(), // Distinct items shown to each owner
+  likes: z.number().int(),
+  watchlist_adds: z.number().int(),
+  dislikes: z.number().int(),
+  conversions: z.number().int(), // Exposures that led to a like or watchlist add
+  conversion_rate: z.number(),
+  ci_lower: z.number(), // 95% Wilson confidence interval for the conversion rate
+  ci_upper: z.number()
+});
+
+export type ExperimentArmReport = z.infer<typeof experimentArmReportSchema>;
+
+export const experimentReportSchema = z.object({
+  experiment: z.string(),
+  arms: z.array(experimentArmReportSchema),
+  generated_at: z.coerce.date()
+});
+
+export type ExperimentReport = z.infer<typeof experimentReportSchema>;
+
+// User preferences schema
+export const userPreferencesSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  session_id: z.string().nullable(),
+  preferred_genres: z.array(z.string()),
+  excluded_genres: z.array(z.string()), // Never shown
+  allowed_languages: z.array(z.string()), // original_language values; empty allows all
+  min_release_year: z.number().int().nullable(),
+  max_release_year: z.number().int().nullable(),
+  min_vote_average: z.number().nullable(),
+  min_vote_count: z.number().int().nullable(),
+  include_adult: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+// User preferences lookup input schema
+export const userPreferencesInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional()
+});
+
+export type UserPreferencesInput = z.infer<typeof userPreferencesInputSchema>;
+
+// User preferences update input schema - omitted fields keep their value, null clears a bound
+export const updateUserPreferencesInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  preferred_genres: z.array(z.string()).optional(),
+  excluded_genres: z.array(z.string()).optional(),
+  allowed_languages: z.array(z.string()).optional(),
+  min_release_year: z.number().int().nullable().optional(),
+  max_release_year: z.number().int().nullable().optional(),
+  min_vote_average: z.number().min(0).max(10).nullable().optional(),
+  min_vote_count: z.number().int().nonnegative().nullable().optional(),
+  include_adult: z.boolean().optional()
+});
+
+export type UpdateUserPreferencesInput = z.infer<typeof updateUserPreferencesInputSchema>;
+
+// Onboarding seed titles input schema
+export const onboardingTitlesInputSchema = z.object({
+  media_type: z.enum(['movie', 'tv', 'all']).default('all'),
+  limit: z.number().int().positive().max(50).default(12)
+});
+
+export type OnboardingTitlesInput = z.infer<typeof onboardingTitlesInputSchema>;
+
+// Onboarding answers input schema
+export const submitOnboardingInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  favourite_genres: z.array(z.string()).default([]),
+  liked_media_item_ids: z.array(z.number()).default([]) // Quick picks from the seed titles
+});
+
+export type SubmitOnboardingInput = z.infer<typeof submitOnboardingInputSchema>;
+
+// Onboarding profile schema
+export const onboardingProfileSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  session_id: z.string().nullable(),
+  favourite_genres: z.array(z.string()),
+  seed_media_item_ids: z.array(z.number()),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type OnboardingProfile = z.infer<typeof onboardingProfileSchema>;
+
+// Similar items ("More like this") input schema
+export const similarItemsInputSchema = z.object({
+  media_item_id: z.number(),
+  limit: z.number().int().positive().default(10)
+});
+
+export type SimilarItemsInput = z.infer<typeof similarItemsInputSchema>;
+
+// Media item ranked by similarity to another media item
+export const similarItemSchema = mediaItemSchema.extend({
+  similarity: z.number(), // Similarity score 0-1
+  reason: z.string() // Human-readable explanation like "Like X, it shares Action"
+});
+
+export type SimilarItem = z.infer<typeof similarItemSchema>;
+
 // User interactions query input schema
 export const getUserInteractionsInputSchema = z.object({
   user_id: z.number().optional(),
@@ -168,4 +562,151 @@ export const sessionInputSchema = z.object({
   session_id: z.string()
 });
 
-export type SessionInput = z.infer<typeof sessionInputSchema>;
\ No newline at end of file
+export type SessionInput = z.infer<typeof sessionInputSchema>;
+
+// How a group's individual tastes are combined into one ranking
+export const groupStrategySchema = z.enum(['least_misery', 'average', 'approval']);
+
+export type GroupStrategy = z.infer<typeof groupStrategySchema>;
+
+// Group member schema (a user or guest session in a shared room)
+export const groupMemberSchema = z.object({
+  id: z.number(),
+  group_session_id: z.number(),
+  user_id: z.number().nullable(),
+  session_id: z.string().nullable(),
+  display_name: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type GroupMember = z.infer<typeof groupMemberSchema>;
+
+// Group session schema
+export const groupSessionSchema = z.object({
+  id: z.number(),
+  code: z.string(), // Shared with others so they can join
+  name: z.string(),
+  strategy: groupStrategySchema,
+  match_quorum: z.number().int().nullable(), // Likes needed for a match; null means every member
+  members: z.array(groupMemberSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type GroupSession = z.infer<typeof groupSessionSchema>;
+
+// Input schema for creating a group session; the creator joins it straight away
+export const createGroupSessionInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  display_name: z.string().min(1).optional(), // Defaults to the username, or a guest label
+  name: z.string().min(1),
+  strategy: groupStrategySchema.optional(), // Defaults to least_misery
+  match_quorum: z.number().int().positive().optional() // Defaults to every member
+});
+
+export type CreateGroupSessionInput = z.infer<typeof createGroupSessionInputSchema>;
+
+// Input schema for joining a group session by its code
+export const joinGroupSessionInputSchema = z.object({
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  display_name: z.string().min(1).optional(),
+  code: z.string()
+});
+
+export type JoinGroupSessionInput = z.infer<typeof joinGroupSessionInputSchema>;
+
+// Input schema for looking up a group session
+export const groupSessionInputSchema = z.object({
+  group_session_id: z.number()
+});
+
+export type GroupSessionInput = z.infer<typeof groupSessionInputSchema>;
+
+// Input schema for group recommendations
+export const groupRecommendationsInputSchema = z.object({
+  group_session_id: z.number(),
+  strategy: groupStrategySchema.optional(), // Defaults to the group's strategy
+  limit: z.number().int().positive().default(10)
+});
+
+export type GroupRecommendationsInput = z.infer<typeof groupRecommendationsInputSchema>;
+
+// One member's predicted score for a group pick
+export const memberScoreSchema = z.object({
+  member_id: z.number(),
+  display_name: z.string(),
+  score: z.number(),
+  satisfied: z.boolean() // Whether the pick suits this member's tastes
+});
+
+export type MemberScore = z.infer<typeof memberScoreSchema>;
+
+// Group recommendation schema
+export const groupRecommendationSchema = z.object({
+  media_item: mediaItemSchema,
+  score: z.number(), // Aggregated with the strategy below
+  strategy: groupStrategySchema,
+  reason: z.string(), // Names whose tastes the pick satisfies
+  member_scores: z.array(memberScoreSchema)
+});
+
+export type GroupRecommendation = z.infer<typeof groupRecommendationSchema>;
+
+// A member's swipe on a title in match mode
+export const groupVoteTypeSchema = z.enum(['like', 'pass']);
+
+export type GroupVoteType = z.infer<typeof groupVoteTypeSchema>;
+
+// Group vote schema
+export const groupVoteSchema = z.object({
+  id: z.number(),
+  group_session_id: z.number(),
+  member_id: z.number(),
+  media_item_id: z.number(),
+  vote: groupVoteTypeSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type GroupVote = z.infer<typeof groupVoteSchema>;
+
+// Group match schema (a title enough members liked)
+export const groupMatchSchema = z.object({
+  id: z.number(),
+  group_session_id: z.number(),
+  media_item: mediaItemSchema,
+  like_count: z.number().int(),
+  member_count: z.number().int(), // Group size when the match was made
+  created_at: z.coerce.date()
+});
+
+export type GroupMatch = z.infer<typeof groupMatchSchema>;
+
+// Input schema for swiping on a title in a group; changing a vote replaces it
+export const castGroupVoteInputSchema = z.object({
+  group_session_id: z.number(),
+  user_id: z.number().optional(),
+  session_id: z.string().optional(),
+  media_item_id: z.number(),
+  vote: groupVoteTypeSchema
+});
+
+export type CastGroupVoteInput = z.infer<typeof castGroupVoteInputSchema>;
+
+// Result of a vote: the title's match, if enough members have now liked it
+export const castGroupVoteResultSchema = z.object({
+  vote: groupVoteSchema,
+  match: groupMatchSchema.nullable()
+});
+
+export type CastGroupVoteResult = z.infer<typeof castGroupVoteResultSchema>;
+
+// Input schema for the match subscription; lastEventId is sent by reconnecting clients
+export const groupMatchSubscriptionInputSchema = z.object({
+  group_session_id: z.number(),
+  lastEventId: z.string().regex(/^\d+$/, 'lastEventId must be a match id').nullish() // Id of the last match received
+});
+
+export type GroupMatchSubscriptionInput = z.infer<typeof groupMatchSubscriptionInputSchema>;
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, mediaItemGenresTable, genresTable } from '../db/schema';
+import { backfillMediaItemGenres } from '../handlers/backfill_media_item_genres';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+import { eq } from 'drizzle-orm';
+
+const storedItem = (tmdbId: number, genres: string[]) => ({
+  tmdb_id: tmdbId,
+  title: `Stored ${tmdbId}`,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'Stored before genres had their own table',
+  release_date: '2020-01-01',
+  genres,
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+describe('backfillMediaItemGenres', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(createFixtureProvider(DEFAULT_FIXTURES_DIR));
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should link stored genre names and keep names the provider does not list', async () => {
+    const [comedy, unknown] = await db.insert(mediaItemsTable)
+      .values([storedItem(1, ['Comedy', 'Drama']), storedItem(2, ['Unknown', 'Thriller'])])
+      .returning()
+      .execute();
+
+    const result = await backfillMediaItemGenres();
+
+    expect(result).toEqual({ media_items: 2, links: 4, unmatched: ['Unknown'] });
+    const links = await db.select({ media_item_id: mediaItemGenresTable.media_item_id, name: genresTable.name })
+      .from(mediaItemGenresTable)
+      .innerJoin(genresTable, eq(mediaItemGenresTable.genre_id, genresTable.id))
+      .orderBy(mediaItemGenresTable.media_item_id, mediaItemGenresTable.position)
+      .execute();
+    expect(links).toEqual([
+      { media_item_id: comedy.id, name: 'Comedy' },
+      { media_item_id: comedy.id, name: 'Drama' },
+      { media_item_id: unknown.id, name: 'Unknown' },
+      { media_item_id: unknown.id, name: 'Thriller' }
+    ]);
+    const [kept] = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.id, unknown.id)).execute();
+    expect(kept.genres).toEqual(['Unknown', 'Thriller']);
+  });
+
+  it('should be safe to run again', async () => {
+    await db.insert(mediaItemsTable).values(storedItem(1, ['Comedy'])).execute();
+
+    await backfillMediaItemGenres();
+    const again = await backfillMediaItemGenres();
+
+    expect(again).toEqual({ media_items: 0, links: 0, unmatched: [] });
+    expect(await db.select().from(mediaItemGenresTable).execute()).toHaveLength(1);
+  });
+
+  it('should link to the standard genres when the genre list cannot be synced', async () => {
+    setMetadataProvider({
+      ...createFixtureProvider(DEFAULT_FIXTURES_DIR),
+      genres: () => Promise.reject(new Error('Network unreachable'))
+    } as MetadataProvider);
+    const [item] = await db.insert(mediaItemsTable)
+      .values(storedItem(1, ['Comedy', 'Anime']))
+      .returning()
+      .execute();
+
+    const result = await backfillMediaItemGenres();
+
+    expect(result).toEqual({ media_items: 1, links: 2, unmatched: ['Anime'] });
+    const [migrated] = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.id, item.id)).execute();
+    expect(migrated.genres).toEqual(['Comedy', 'Anime']);
+    const [comedy] = await db.select().from(genresTable).where(eq(genresTable.name, 'Comedy')).execute();
+    expect(comedy.tmdb_id).toEqual(35);
+  });
+});
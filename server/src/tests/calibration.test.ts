@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import { brierScore, calibrate, fitIsotonic, reliabilityBins, exposureOutcome, IGNORED_AFTER_HOURS } from '../lib/calibration';
+
+const outcomes = (rawScore: number, positives: number, negatives: number) => [
+  ...Array.from({ length: positives }, () => ({ raw_score: rawScore, positive: true })),
+  ...Array.from({ length: negatives }, () => ({ raw_score: rawScore, positive: false }))
+];
+
+describe('fitIsotonic', () => {
+  it('should pool scores whose outcomes run against the ordering', () => {
+    const points = fitIsotonic([...outcomes(0.2, 1, 3), ...outcomes(0.4, 0, 4), ...outcomes(0.8, 3, 1)]);
+
+    // 0.2 did better than 0.4, so the two are pooled at their shared rate
+    expect(points.map(point => [point.probability, point.count])).toEqual([[0.125, 8], [0.75, 4]]);
+    expect(points[0].raw_score).toBeCloseTo(0.3, 10);
+    expect(points[1].raw_score).toBeCloseTo(0.8, 10);
+  });
+
+  it('should give tied raw scores a single probability', () => {
+    const points = fitIsotonic([...outcomes(1, 3, 1), ...outcomes(0.5, 1, 3)]);
+
+    expect(points.map(point => point.raw_score)).toEqual([0.5, 1]);
+    expect(points[1].probability).toEqual(0.75);
+  });
+});
+
+describe('calibrate', () => {
+  const points = [
+    { raw_score: 0.2, probability: 0.1, count: 10 },
+    { raw_score: 0.6, probability: 0.3, count: 10 }
+  ];
+
+  it('should interpolate between points and stay flat beyond the ends', () => {
+    expect(calibrate(0.4, points)).toBeCloseTo(0.2, 10);
+    expect(calibrate(0, points)).toEqual(0.1);
+    expect(calibrate(1, points)).toEqual(0.3);
+  });
+
+  it('should leave scores as they are without a curve', () => {
+    expect(calibrate(0.73, [])).toEqual(0.73);
+  });
+});
+
+describe('brierScore', () => {
+  it('should average the squared errors', () => {
+    expect(brierScore([{ predicted: 1, positive: true }, { predicted: 0.5, positive: false }])).toEqual(0.125);
+    expect(brierScore([])).toEqual(0);
+  });
+});
+
+describe('reliabilityBins', () => {
+  it('should compare predicted and observed rates per band, leaving out empty bands', () => {
+    const bins = reliabilityBins([
+      { predicted: 0.1, positive: false },
+      { predicted: 0.15, positive: true },
+      { predicted: 1, positive: true }
+    ], 4);
+
+    expect(bins).toEqual([
+      { lower: 0, upper: 0.25, count: 2, mean_predicted: 0.125, observed_rate: 0.5 },
+      { lower: 0.75, upper: 1, count: 1, mean_predicted: 1, observed_rate: 1 }
+    ]);
+  });
+});
+
+describe('exposureOutcome', () => {
+  const now = new Date('2024-06-10T12:00:00Z');
+  const shownAt = new Date('2024-06-01T12:00:00Z');
+  const at = (iso: string) => new Date(iso);
+
+  it('should count likes and watchlist adds after the recommendation was shown as positive', () => {
+    expect(exposureOutcome({ response: null, shown_at: shownAt }, [{ interaction_type: 'like', occurred_at: at('2024-06-02T00:00:00Z') }], now)).toBe(true);
+    expect(exposureOutcome({ response: 'skipped', shown_at: shownAt }, [{ interaction_type: 'add_to_watchlist', occurred_at: at('2024-06-02T00:00:00Z') }], now)).toBe(true);
+  });
+
+  it('should let the latest interaction decide and ignore those from before it was shown', () => {
+    expect(exposureOutcome({ response: 'accepted', shown_at: shownAt }, [
+      { interaction_type: 'like', occurred_at: at('2024-06-02T00:00:00Z') },
+      { interaction_type: 'watched_disliked', occurred_at: at('2024-06-05T00:00:00Z') }
+    ], now)).toBe(false);
+    expect(exposureOutcome({ response: 'skipped', shown_at: shownAt }, [
+      { interaction_type: 'like', occurred_at: at('2024-05-01T00:00:00Z') }
+    ], now)).toBe(false);
+  });
+
+  it('should fall back to the response, and count ignored recommendations as negative once old enough', () => {
+    expect(exposureOutcome({ response: 'accepted', shown_at: shownAt }, [], now)).toBe(true);
+    expect(exposureOutcome({ response: 'not_interested', shown_at: shownAt }, [], now)).toBe(false);
+    expect(exposureOutcome({ response: 'snoozed', shown_at: shownAt }, [], now)).toBeNull();
+    expect(exposureOutcome({ response: null, shown_at: shownAt }, [], now)).toBe(false);
+
+    const justShown = new Date(now.getTime() - (IGNORED_AFTER_HOURS - 1) * 60 * 60 * 1000);
+    expect(exposureOutcome({ response: null, shown_at: justShown }, [], now)).toBeNull();
+  });
+});
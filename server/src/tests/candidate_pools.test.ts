@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'bun:test';
+import { mergeCandidatePools, poolQuotas, type PoolQuotas } from '../lib/candidate_pools';
+
+const items = (...ids: number[]) => ids.map(id => ({ id }));
+
+const quotas = (overrides: Partial<PoolQuotas>): PoolQuotas => ({
+  similar_to_liked: 0,
+  genre_matched: 0,
+  trending: 0,
+  recently_added: 0,
+  exploration: 0,
+  ...overrides
+});
+
+describe('poolQuotas', () => {
+  it('should split the budget by share and give every source a slot', () => {
+    expect(poolQuotas(20)).toEqual({
+      similar_to_liked: 5,
+      genre_matched: 7,
+      trending: 3,
+      recently_added: 3,
+      exploration: 2
+    });
+    Object.values(poolQuotas(1)).forEach(quota => expect(quota).toEqual(1));
+  });
+});
+
+describe('mergeCandidatePools', () => {
+  it('should take up to each quota of unclaimed candidates and record every source', () => {
+    const merged = mergeCandidatePools({
+      similar_to_liked: items(1, 2),
+      genre_matched: items(2, 3, 4, 5),
+      trending: items(1, 6)
+    }, quotas({ similar_to_liked: 2, genre_matched: 2, trending: 1 }));
+
+    expect(merged.map(candidate => candidate.id)).toEqual([1, 2, 3, 4, 6]);
+    expect(merged.find(candidate => candidate.id === 2)!.sources).toEqual(['similar_to_liked', 'genre_matched']);
+    expect(merged.find(candidate => candidate.id === 1)!.sources).toEqual(['similar_to_liked', 'trending']);
+  });
+
+  it('should give budget left by short pools to the remaining candidates', () => {
+    const merged = mergeCandidatePools({
+      genre_matched: items(1, 2, 3, 4),
+      trending: items(5)
+    }, quotas({ similar_to_liked: 2, genre_matched: 1, trending: 1 }));
+
+    // Four slots in total: one genre match, one trending title and two more genre matches
+    expect(merged.map(candidate => candidate.id)).toEqual([1, 5, 2, 3]);
+  });
+});
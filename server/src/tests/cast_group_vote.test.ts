@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, groupVotesTable, groupMatchesTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+import { joinGroupSession } from '../handlers/join_group_session';
+import { castGroupVote } from '../handlers/cast_group_vote';
+import { groupEvents, groupMatchEvent } from '../lib/group_events';
+import { type GroupMatch } from '../schema';
+
+const testMediaItem = {
+  tmdb_id: 1,
+  title: 'Paddington 2',
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'A bear looks for the perfect present',
+  release_date: '2017-11-10',
+  genres: ['Family', 'Comedy'],
+  vote_average: '7.6',
+  vote_count: 3000,
+  popularity: '40.0',
+  adult: false,
+  original_language: 'en'
+};
+
+describe('castGroupVote', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setUp = async (matchQuorum?: number) => {
+    const [media] = await db.insert(mediaItemsTable).values(testMediaItem).returning().execute();
+    const created = await createGroupSession({ session_id: 'guest_a', name: 'Sofa', match_quorum: matchQuorum });
+    await joinGroupSession({ code: created.code, session_id: 'guest_b' });
+    const group = await joinGroupSession({ code: created.code, session_id: 'guest_c' });
+    return { group, media };
+  };
+
+  it('should match once every member likes the title and announce it once', async () => {
+    const { group, media } = await setUp();
+    const announced: GroupMatch[] = [];
+    const listener = (match: GroupMatch) => announced.push(match);
+    groupEvents.on(groupMatchEvent(group.id), listener);
+
+    try {
+      const vote = { group_session_id: group.id, media_item_id: media.id, vote: 'like' as const };
+      const first = await castGroupVote({ ...vote, session_id: 'guest_a' });
+      await castGroupVote({ ...vote, session_id: 'guest_b' });
+      const last = await castGroupVote({ ...vote, session_id: 'guest_c' });
+      const again = await castGroupVote({ ...vote, session_id: 'guest_c' });
+
+      expect(first.match).toBeNull();
+      expect(first.vote.vote).toEqual('like');
+      expect(last.match).not.toBeNull();
+      expect(last.match!.media_item.title).toEqual('Paddington 2');
+      expect(typeof last.match!.media_item.vote_average).toBe('number');
+      expect(last.match!.like_count).toEqual(3);
+      expect(last.match!.member_count).toEqual(3);
+      expect(again.match!.id).toEqual(last.match!.id);
+      expect(announced).toHaveLength(1);
+      expect(announced[0].id).toEqual(last.match!.id);
+    } finally {
+      groupEvents.off(groupMatchEvent(group.id), listener);
+    }
+  });
+
+  it('should match on a quorum of likes', async () => {
+    const { group, media } = await setUp(2);
+    const vote = { group_session_id: group.id, media_item_id: media.id };
+
+    await castGroupVote({ ...vote, session_id: 'guest_a', vote: 'pass' });
+    await castGroupVote({ ...vote, session_id: 'guest_b', vote: 'like' });
+    const result = await castGroupVote({ ...vote, session_id: 'guest_c', vote: 'like' });
+
+    expect(result.match).not.toBeNull();
+    expect(result.match!.like_count).toEqual(2);
+  });
+
+  it('should replace a member\'s earlier vote on the same title', async () => {
+    const { group, media } = await setUp(2);
+    const vote = { group_session_id: group.id, media_item_id: media.id, session_id: 'guest_a' };
+
+    await castGroupVote({ ...vote, vote: 'like' });
+    await castGroupVote({ ...vote, vote: 'pass' });
+    await castGroupVote({ ...vote, session_id: 'guest_b', vote: 'like' });
+
+    const votes = await db.select().from(groupVotesTable).execute();
+    const matches = await db.select().from(groupMatchesTable).execute();
+    expect(votes).toHaveLength(2);
+    expect(votes.find(saved => saved.vote === 'pass')).toBeDefined();
+    expect(matches).toHaveLength(0);
+  });
+
+  it('should only accept votes from members of the group', async () => {
+    const { group, media } = await setUp();
+    const vote = { group_session_id: group.id, media_item_id: media.id, vote: 'like' as const };
+
+    await expect(castGroupVote({ ...vote, session_id: 'guest_z' })).rejects.toThrow(/Not a member of group session/);
+    await expect(castGroupVote(vote)).rejects.toThrow(/Either user_id or session_id must be provided/);
+    await expect(castGroupVote({ ...vote, session_id: 'guest_a', media_item_id: 99999 })).rejects.toThrow(/Media item with id 99999 does not exist/);
+    await expect(castGroupVote({ ...vote, session_id: 'guest_a', group_session_id: 99999 })).rejects.toThrow(/Group session with id 99999 does not exist/);
+  });
+});
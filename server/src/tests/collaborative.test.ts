@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  blendCollaborative,
+  collaborativeScores,
+  computeCooccurrences,
+  ownerKey,
+  type OwnerLike
+} from '../lib/collaborative';
+
+const likes = (owner: string, ids: number[]): OwnerLike[] =>
+  ids.map(media_item_id => ({ owner_key: owner, media_item_id }));
+
+describe('ownerKey', () => {
+  it('should prefer user_id over session_id', () => {
+    expect(ownerKey(7, 'guest_abc')).toEqual('user:7');
+    expect(ownerKey(null, 'guest_abc')).toEqual('session:guest_abc');
+  });
+});
+
+describe('computeCooccurrences', () => {
+  it('should count owners who liked both items and normalise by item popularity', () => {
+    const pairs = computeCooccurrences([
+      ...likes('user:1', [1, 2]),
+      ...likes('user:2', [1, 2]),
+      ...likes('user:3', [1, 3])
+    ]);
+
+    const oneToTwo = pairs.find(p => p.media_item_id === 1 && p.related_media_item_id === 2)!;
+    const twoToOne = pairs.find(p => p.media_item_id === 2 && p.related_media_item_id === 1)!;
+
+    expect(oneToTwo.co_count).toEqual(2);
+    expect(oneToTwo.similarity).toBeCloseTo(2 / Math.sqrt(3 * 2), 6);
+    expect(twoToOne.similarity).toEqual(oneToTwo.similarity);
+  });
+
+  it('should drop pairs below minimum support', () => {
+    const pairs = computeCooccurrences([
+      ...likes('user:1', [1, 2]),
+      ...likes('user:2', [1, 2]),
+      ...likes('user:3', [1, 3])
+    ]);
+
+    expect(pairs.some(p => p.related_media_item_id === 3 || p.media_item_id === 3)).toBe(false);
+    expect(pairs).toHaveLength(2);
+  });
+
+  it('should count repeated likes from the same owner once', () => {
+    const pairs = computeCooccurrences([
+      ...likes('session:a', [1, 1, 2]),
+      ...likes('session:b', [1, 2, 2])
+    ]);
+
+    expect(pairs.every(p => p.co_count === 2 && p.similarity === 1)).toBe(true);
+  });
+});
+
+describe('collaborativeScores', () => {
+  it('should keep the strongest link from any liked item', () => {
+    const scores = collaborativeScores(
+      [
+        { media_item_id: 1, related_media_item_id: 3, co_count: 2, similarity: 0.4 },
+        { media_item_id: 2, related_media_item_id: 3, co_count: 5, similarity: 0.9 },
+        { media_item_id: 4, related_media_item_id: 3, co_count: 9, similarity: 1 } // Not liked
+      ],
+      [
+        { media_item_id: 1, title: 'First' },
+        { media_item_id: 2, title: 'Second' }
+      ]
+    );
+
+    expect(scores.get(3)).toEqual({ score: 0.9, co_count: 5, liked_media_item_id: 2, liked_title: 'Second' });
+  });
+});
+
+describe('blendCollaborative', () => {
+  const dramaFactor = { kind: 'genre' as const, label: 'Drama', weight: 0.2, titles: ['First'] };
+
+  it('should weight content and collaborative scores and cite the evidence', () => {
+    const blended = blendCollaborative(
+      {
+        score: 0.5,
+        reason: 'Because of genres you enjoy: Drama',
+        explanation: { factors: [dramaFactor], liked_items: [{ media_item_id: 1, title: 'First' }], matched_genres: ['Drama'] }
+      },
+      { score: 1, co_count: 4, liked_media_item_id: 2, liked_title: 'Second' },
+      0.4
+    );
+
+    expect(blended.score).toBeCloseTo(0.7, 6);
+    expect(blended.reason).toEqual('Because of genres you enjoy: Drama; 4 people who liked "Second" also liked this');
+    expect(blended.explanation.factors[0].weight).toBeCloseTo(0.12, 6);
+    expect(blended.explanation.factors[1]).toEqual({
+      kind: 'collaborative',
+      label: '4 people who liked "Second" also liked this',
+      weight: 0.4,
+      titles: ['Second']
+    });
+    expect(blended.explanation.liked_items.map(item => item.title)).toEqual(['Second', 'First']);
+  });
+
+  it('should only scale the content score when there is no evidence', () => {
+    const blended = blendCollaborative(
+      { score: 0.5, reason: 'Recommended for you', explanation: { factors: [], liked_items: [], matched_genres: [] } },
+      undefined,
+      0.4
+    );
+
+    expect(blended.score).toBeCloseTo(0.3, 6);
+    expect(blended.reason).toEqual('Recommended for you');
+  });
+});
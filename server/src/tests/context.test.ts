@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+import { applyContext, contextFactors, MOOD_CLASH_PENALTY, MOOD_MATCH_BONUS, type ContextItem } from '../lib/context';
+import { type CandidateScore } from '../lib/preference_model';
+
+const item = (overrides: Partial<ContextItem>): ContextItem => ({
+  genres: [],
+  media_type: 'movie',
+  release_date: '2020-01-01',
+  adult: false,
+  runtime: null,
+  content_rating: null,
+  ...overrides
+});
+
+const scored = (score: number): CandidateScore => ({
+  score,
+  reason: 'Recommended for you',
+  explanation: { factors: [], liked_items: [], matched_genres: [] }
+});
+
+describe('contextFactors', () => {
+  it('should reward genres that suit the mood and penalise those that clash', () => {
+    const comedy = contextFactors(item({ genres: ['Comedy'] }), { moods: ['light'] });
+    const horror = contextFactors(item({ genres: ['Horror'] }), { moods: ['light'] });
+    const western = contextFactors(item({ genres: ['Western'] }), { moods: ['light'] });
+
+    expect(comedy).toEqual([{ kind: 'context', label: 'your light mood', weight: MOOD_MATCH_BONUS, titles: [] }]);
+    expect(horror).toEqual([{ kind: 'context', label: 'a poor fit for your light mood', weight: -MOOD_CLASH_PENALTY, titles: [] }]);
+    expect(western).toEqual([]);
+  });
+
+  it('should favour family titles for families and titles known to fit the time available', () => {
+    const labels = contextFactors(item({ genres: ['Family'], runtime: 90 }), { audience: 'family', max_runtime: 100 })
+      .map(factor => factor.label);
+
+    expect(labels).toEqual(['family viewing', 'a runtime within 100 minutes']);
+    expect(contextFactors(item({ runtime: null }), { max_runtime: 100 })).toEqual([]);
+  });
+});
+
+describe('applyContext', () => {
+  it('should add the factors to the score, explanation and reason', () => {
+    const result = applyContext(scored(0.5), item({ genres: ['Comedy'] }), { moods: ['light'] });
+
+    expect(result.score).toBeCloseTo(0.5 + MOOD_MATCH_BONUS, 10);
+    expect(result.reason).toEqual('Because of your light mood');
+    expect(result.explanation.factors).toHaveLength(1);
+  });
+
+  it('should keep scores within [0, 1] and leave candidates without factors untouched', () => {
+    const base = scored(0.1);
+
+    expect(applyContext(base, item({ genres: ['Horror'] }), { moods: ['light', 'romantic'] }).score).toEqual(0);
+    expect(applyContext(base, item({ genres: ['Western'] }), { moods: ['light'] })).toBe(base);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { episodeProgressTable, seasonsTable } from '../db/schema';
+import { continueWatching } from '../handlers/continue_watching';
+import { setEpisodeWatched } from '../handlers/set_episode_watched';
+import { getTvSeasons } from '../handlers/get_tv_seasons';
+import { createMediaItem } from '../handlers/create_media_item';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+
+const fixtures = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+const syncBreakingBad = async () => {
+  const [listed] = (await fixtures.popular('tv', 1)).filter(item => item.tmdb_id === 1396);
+  const show = await createMediaItem(listed);
+  const seasons = await getTvSeasons({ media_item_id: show.id });
+  return { show, seasonOne: seasons[0].episodes, seasonTwo: seasons[1].episodes };
+};
+
+describe('continueWatching', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should list shows in progress with the next episode up', async () => {
+    const { show, seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[1].id, watched: true, include_previous: true });
+
+    const [entry, ...rest] = await continueWatching({ session_id: 'guest_bb', limit: 10 });
+
+    expect(rest).toEqual([]);
+    expect(entry.media_item.id).toEqual(show.id);
+    expect(entry.media_item.title).toEqual('Breaking Bad');
+    expect(typeof entry.media_item.vote_average).toBe('number');
+    expect(entry.next_episode.name).toEqual('...And the Bag\'s in the River');
+    expect(entry.watched_episodes).toEqual(2);
+    expect(entry.new_season).toBe(false);
+  });
+
+  it('should flag a season that started after the user last watched', async () => {
+    const { seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[6].id, watched: true, include_previous: true });
+    // Season one finished airing in March 2008; season two started in March 2009
+    await db.update(episodeProgressTable)
+      .set({ watched_at: new Date('2008-06-01') })
+      .execute();
+
+    const [entry] = await continueWatching({ session_id: 'guest_bb', limit: 10 });
+
+    expect(entry.next_episode.name).toEqual('Seven Thirty-Seven');
+    expect(entry.new_season).toBe(true);
+  });
+
+  it('should leave out shows the user is caught up on', async () => {
+    const { seasonTwo } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonTwo[12].id, watched: true, include_previous: true });
+
+    expect(await continueWatching({ session_id: 'guest_bb', limit: 10 })).toEqual([]);
+  });
+
+  it('should list from stored episodes when the provider cannot be reached', async () => {
+    const { seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ user_id: 7, episode_id: seasonOne[0].id, watched: true, include_previous: false });
+    setMetadataProvider({
+      ...fixtures,
+      details: () => Promise.reject(new Error('Network unreachable')),
+      season: () => Promise.reject(new Error('Network unreachable'))
+    } as MetadataProvider);
+
+    const entries = await continueWatching({ user_id: 7, limit: 10 });
+
+    expect(entries.map(entry => entry.next_episode.name)).toEqual(['Cat\'s in the Bag...']);
+  });
+
+  it('should list from stored episodes without syncing shows that are up to date', async () => {
+    const { seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[0].id, watched: true, include_previous: false });
+    const details = mock(fixtures.details);
+    const season = mock(fixtures.season);
+    setMetadataProvider({ ...fixtures, details, season } as MetadataProvider);
+
+    const [entry] = await continueWatching({ session_id: 'guest_bb', limit: 10 });
+
+    expect(entry.next_episode.name).toEqual('Cat\'s in the Bag...');
+    expect(details).not.toHaveBeenCalled();
+    expect(season).not.toHaveBeenCalled();
+  });
+
+  it('should not wait for stale shows to be synced', async () => {
+    const { seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[0].id, watched: true, include_previous: false });
+    await db.update(seasonsTable)
+      .set({ episodes_fetched_at: null })
+      .execute();
+    // A provider that never answers would hold the list up if the sync were awaited
+    setMetadataProvider({
+      ...fixtures,
+      details: () => new Promise(() => {}),
+      season: () => new Promise(() => {})
+    } as MetadataProvider);
+
+    const [entry] = await continueWatching({ session_id: 'guest_bb', limit: 10 });
+
+    expect(entry.next_episode.name).toEqual('Cat\'s in the Bag...');
+  });
+
+  it('should be empty without an owner or any progress', async () => {
+    expect(await continueWatching({ limit: 10 })).toEqual([]);
+    expect(await continueWatching({ session_id: 'guest_new', limit: 10 })).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userProfilesTable, groupSessionsTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+
+describe('createGroupSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a group with the creator as its first member', async () => {
+    const [user] = await db.insert(userProfilesTable)
+      .values({ username: 'alice', email: 'alice@example.com' })
+      .returning()
+      .execute();
+
+    const group = await createGroupSession({ user_id: user.id, name: 'Movie night' });
+
+    expect(group.name).toEqual('Movie night');
+    expect(group.strategy).toEqual('least_misery');
+    expect(group.code).toMatch(/^[2-9A-HJKMNP-Z]{6}$/);
+    expect(group.members).toHaveLength(1);
+    expect(group.members[0].user_id).toEqual(user.id);
+    expect(group.members[0].display_name).toEqual('alice'); // Defaults to the username
+  });
+
+  it('should let guests choose a name and a strategy', async () => {
+    const group = await createGroupSession({
+      session_id: 'guest_host',
+      display_name: 'Sam',
+      name: 'Sofa',
+      strategy: 'approval'
+    });
+
+    expect(group.strategy).toEqual('approval');
+    expect(group.members[0].session_id).toEqual('guest_host');
+    expect(group.members[0].display_name).toEqual('Sam');
+  });
+
+  it('should not leave an empty group behind for an unknown user', async () => {
+    await expect(createGroupSession({ user_id: 99999, name: 'Nobody' })).rejects.toThrow(/User with id 99999 does not exist/);
+    await expect(createGroupSession({ name: 'Nobody' })).rejects.toThrow(/Either user_id or session_id must be provided/);
+
+    const groups = await db.select().from(groupSessionsTable).execute();
+    expect(groups).toHaveLength(0);
+  });
+
+  it('should store a match quorum, defaulting to every member', async () => {
+    const everyone = await createGroupSession({ session_id: 'guest_host', name: 'Sofa' });
+    const quorum = await createGroupSession({ session_id: 'guest_host', name: 'Party', match_quorum: 3 });
+
+    expect(everyone.match_quorum).toBeNull();
+    expect(quorum.match_quorum).toEqual(3);
+  });
+
+  it('should draw another code when the first one is taken', async () => {
+    const first = await createGroupSession({ session_id: 'guest_host', name: 'Sofa' });
+
+    // Replay the first group's draws, then continue with fresh ones
+    const alphabet = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+    const replayed = first.code.split('').map(char => (alphabet.indexOf(char) + 0.5) / alphabet.length);
+    const random = spyOn(Math, 'random').mockImplementation(() => replayed.shift() ?? 0);
+    try {
+      const second = await createGroupSession({ session_id: 'guest_host', name: 'Party' });
+
+      expect(second.code).toEqual('222222');
+    } finally {
+      random.mockRestore();
+    }
+
+    const groups = await db.select().from(groupSessionsTable).execute();
+    expect(groups).toHaveLength(2);
+  });
+});
@@ -234,4 +234,22 @@ describe('createMediaItem', () => {
     expect(savedItem.genres).toEqual(['Action', 'Adventure', 'Sci-Fi', 'Thriller']);
     expect(Array.isArray(savedItem.genres)).toBe(true);
   });
+
+  it('should store runtime and content rating and keep them when an update omits them', async () => {
+    const created = await createMediaItem({ ...testMovieInput, runtime: 118, content_rating: 'PG-13' });
+
+    expect(created.runtime).toEqual(118);
+    expect(created.content_rating).toEqual('PG-13');
+
+    const updated = await createMediaItem({ ...testMovieInput, title: 'Renamed Movie' });
+
+    expect(updated.title).toEqual('Renamed Movie');
+    expect(updated.runtime).toEqual(118);
+    expect(updated.content_rating).toEqual('PG-13');
+
+    // Items created without them have neither
+    const tvShow = await createMediaItem(testTvInput);
+    expect(tvShow.runtime).toBeNull();
+    expect(tvShow.content_rating).toBeNull();
+  });
 });
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test';
+import { candidateSimilarity, rerankForDiversity, type DiversityCandidate } from '../lib/diversity';
+
+const candidate = (id: number, genres: string[], score: number, overrides: Partial<DiversityCandidate> = {}) => ({
+  id,
+  genres,
+  release_date: '2020-01-01',
+  original_language: 'en',
+  media_type: 'movie' as const,
+  score,
+  ...overrides
+});
+
+describe('candidateSimilarity', () => {
+  it('should combine genre, decade, language and media type similarity', () => {
+    const a = candidate(1, ['Action'], 1);
+
+    expect(candidateSimilarity(a, candidate(2, ['Action'], 1))).toBeCloseTo(1, 6);
+    expect(candidateSimilarity(a, candidate(3, ['Drama'], 1, {
+      release_date: '1995-01-01',
+      original_language: 'ko',
+      media_type: 'tv'
+    }))).toEqual(0);
+    expect(candidateSimilarity(a, candidate(4, ['Drama'], 1, { release_date: null }))).toBeCloseTo(0.3, 6);
+  });
+});
+
+describe('rerankForDiversity', () => {
+  const candidates = [
+    candidate(1, ['Action'], 0.9),
+    candidate(2, ['Action'], 0.85),
+    candidate(3, ['Action', 'Thriller'], 0.8),
+    candidate(4, ['Comedy'], 0.6, { release_date: '1990-01-01' }),
+    candidate(5, ['Drama'], 0.5, { original_language: 'fr' })
+  ];
+
+  it('should keep relevance order when diversity is zero', () => {
+    const ranked = rerankForDiversity(candidates, { limit: 3, diversity: 0 });
+
+    expect(ranked.map(c => c.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should promote dissimilar candidates as diversity grows', () => {
+    const ranked = rerankForDiversity(candidates, { limit: 3, diversity: 0.5 });
+
+    expect(ranked.map(c => c.id)).toEqual([1, 4, 5]);
+  });
+
+  it('should never exceed the maximum genre share', () => {
+    for (const diversity of [0, 0.3, 0.7, 1]) {
+      const ranked = rerankForDiversity(candidates, { limit: 4, diversity, maxGenreShare: 0.25 });
+      const actionCount = ranked.filter(c => c.genres.includes('Action')).length;
+
+      expect(actionCount).toBeLessThanOrEqual(1);
+      expect(ranked).toHaveLength(3); // Action, Comedy and Drama - nothing else fits
+    }
+  });
+
+  it('should not mutate the input', () => {
+    const input = [...candidates];
+    rerankForDiversity(input, { limit: 2, diversity: 0.5 });
+
+    expect(input.map(c => c.id)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  evaluate,
+  evaluationDatasetSchema,
+  formatMarkdownReport,
+  ndcgAtK,
+  precisionAtK,
+  recallAtK,
+  splitByTime,
+  STRATEGIES,
+  type EvaluationInteraction,
+  type RankingStrategy
+} from '../lib/evaluation';
+
+const fixture = evaluationDatasetSchema.parse(
+  JSON.parse(readFileSync(join(import.meta.dir, '../../fixtures/evaluation/sample_dataset.json'), 'utf8'))
+);
+
+const interaction = (mediaItemId: number, day: number): EvaluationInteraction => ({
+  owner_key: 'user:1',
+  media_item_id: mediaItemId,
+  interaction_type: 'like',
+  created_at: new Date(Date.UTC(2024, 0, day))
+});
+
+describe('ranking metrics', () => {
+  const relevant = new Set([2, 5]);
+
+  it('should compute precision and recall at k', () => {
+    expect(precisionAtK([1, 2, 3, 5], relevant, 4)).toEqual(0.5);
+    expect(precisionAtK([1, 2, 3, 5], relevant, 2)).toEqual(0.5);
+    expect(recallAtK([1, 2, 3, 5], relevant, 2)).toEqual(0.5);
+    expect(recallAtK([1, 2, 3, 5], relevant, 4)).toEqual(1);
+    expect(recallAtK([1, 2], new Set(), 2)).toEqual(0);
+  });
+
+  it('should reward relevant items ranked higher with NDCG', () => {
+    expect(ndcgAtK([2, 5, 1], relevant, 3)).toBeCloseTo(1, 10);
+    expect(ndcgAtK([1, 2, 5], relevant, 3)).toBeLessThan(1);
+    expect(ndcgAtK([1, 3, 4], relevant, 3)).toEqual(0);
+  });
+});
+
+describe('splitByTime', () => {
+  it('should hold out the most recent interactions', () => {
+    const { cutoff, train, test } = splitByTime([interaction(3, 3), interaction(1, 1), interaction(4, 4), interaction(2, 2)], 0.25);
+
+    expect(cutoff).toEqual(new Date(Date.UTC(2024, 0, 4)));
+    expect(train.map(i => i.media_item_id)).toEqual([1, 2, 3]);
+    expect(test.map(i => i.media_item_id)).toEqual([4]);
+  });
+});
+
+describe('evaluate', () => {
+  it('should beat popularity with the heuristic on the fixture dataset', () => {
+    const report = evaluate(fixture, [STRATEGIES['popularity'], STRATEGIES['heuristic']], { k: 5, test_fraction: 0.2 });
+    const [popularity, heuristic] = report.results;
+
+    expect(report.owners_evaluated).toBeGreaterThan(0);
+    expect(report.train_interactions + report.test_interactions).toEqual(fixture.interactions.length);
+    expect(heuristic.precision_at_k).toBeGreaterThan(popularity.precision_at_k);
+    expect(heuristic.ndcg_at_k).toBeGreaterThan(popularity.ndcg_at_k);
+    expect(heuristic.catalog_coverage).toBeGreaterThan(popularity.catalog_coverage);
+  });
+
+  it('should accept custom strategies', () => {
+    // Perfect oracle: recommends exactly what each owner liked later
+    const heldOut = splitByTime(fixture.interactions, 0.2).test;
+    const oracle: RankingStrategy = {
+      name: 'oracle',
+      description: 'Knows the answers',
+      train: () => history => heldOut
+        .filter(i => i.owner_key === history[0]?.owner_key && ['like', 'watched_liked'].includes(i.interaction_type))
+        .map(i => i.media_item_id)
+    };
+
+    const report = evaluate(fixture, [oracle], { k: 5, test_fraction: 0.2 });
+
+    expect(report.results[0].recall_at_k).toEqual(1);
+    expect(report.results[0].ndcg_at_k).toBeCloseTo(1, 10);
+  });
+
+  it('should render a markdown table with one row per strategy', () => {
+    const report = evaluate(fixture, Object.values(STRATEGIES), { k: 10, test_fraction: 0.2 });
+    const markdown = formatMarkdownReport(report);
+
+    expect(markdown).toContain('| Strategy | Precision@10 | Recall@10 | NDCG@10 |');
+    Object.keys(STRATEGIES).forEach(name => expect(markdown).toContain(`| ${name} |`));
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  assignArm,
+  attributeExposures,
+  attributeOutcome,
+  resolveArm,
+  wilsonInterval,
+  type Experiment
+} from '../lib/experiments';
+
+const experiment: Experiment = {
+  name: 'test_experiment',
+  arms: [
+    { name: 'control', weight: 1, settings: { collaborative_weight: 0 } },
+    { name: 'treatment', weight: 1, settings: { collaborative_weight: 0.3 } }
+  ]
+};
+
+const shownAt = new Date('2024-06-01T12:00:00Z');
+const before = new Date('2024-05-31T12:00:00Z');
+const after = new Date('2024-06-02T12:00:00Z');
+
+describe('assignArm', () => {
+  it('should bucket the same owner into the same arm every time', () => {
+    const first = assignArm(experiment, 'user:42').name;
+    for (let i = 0; i < 10; i++) {
+      expect(assignArm(experiment, 'user:42').name).toEqual(first);
+    }
+  });
+
+  it('should split owners roughly according to arm weights', () => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 2000; i++) {
+      const arm = assignArm(experiment, `session:guest_${i}`).name;
+      counts.set(arm, (counts.get(arm) ?? 0) + 1);
+    }
+    expect(counts.get('control')).toBeGreaterThan(850);
+    expect(counts.get('treatment')).toBeGreaterThan(850);
+
+    const weighted: Experiment = {
+      ...experiment,
+      arms: [{ ...experiment.arms[0], weight: 9 }, experiment.arms[1]]
+    };
+    let treatment = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (assignArm(weighted, `session:guest_${i}`).name === 'treatment') treatment++;
+    }
+    expect(treatment).toBeGreaterThan(120);
+    expect(treatment).toBeLessThan(280);
+  });
+
+  it('should not enrol requests that override arm settings', () => {
+    expect(resolveArm(experiment, 'user:1', {})).not.toBeNull();
+    expect(resolveArm(experiment, 'user:1', { diversity: 0.5 })).not.toBeNull();
+    expect(resolveArm(experiment, 'user:1', { collaborative_weight: 0.5 })).toBeNull();
+  });
+});
+
+describe('attributeOutcome', () => {
+  it('should attribute interactions made after the recommendation was shown', () => {
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: 'like', interacted_at: after, watchlisted_at: null })).toEqual('like');
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: 'watched_liked', interacted_at: after, watchlisted_at: null })).toEqual('like');
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: 'dislike', interacted_at: after, watchlisted_at: null })).toEqual('dislike');
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: null, interacted_at: null, watchlisted_at: after })).toEqual('watchlist');
+  });
+
+  it('should ignore interactions from before the recommendation was shown', () => {
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: 'like', interacted_at: before, watchlisted_at: before })).toBeNull();
+    expect(attributeOutcome({ shown_at: shownAt, interaction_type: null, interacted_at: null, watchlisted_at: null })).toBeNull();
+  });
+});
+
+describe('attributeExposures', () => {
+  const row = (overrides: Partial<Parameters<typeof attributeExposures>[0][number]>) => ({
+    owner_key: 'session:guest_a',
+    media_item_id: 1,
+    shown_at: shownAt,
+    interaction_type: null,
+    interacted_at: null,
+    watchlisted_at: null,
+    ...overrides
+  });
+
+  it('should count an item shown to the same owner repeatedly as one exposure with one outcome', () => {
+    const exposures = attributeExposures([
+      row({ interaction_type: 'like', interacted_at: after }),
+      row({ shown_at: after, interaction_type: 'like', interacted_at: after }),
+      row({ interaction_type: 'like', interacted_at: after, watchlisted_at: after }),
+      row({ owner_key: 'session:guest_b', interaction_type: 'like', interacted_at: after })
+    ]);
+
+    expect(exposures).toEqual([
+      { owner_key: 'session:guest_a', media_item_id: 1, outcome: 'like' },
+      { owner_key: 'session:guest_b', media_item_id: 1, outcome: 'like' }
+    ]);
+  });
+
+  it('should time outcomes from the first exposure and prefer the strongest one', () => {
+    const [exposure] = attributeExposures([
+      row({ shown_at: before, interaction_type: 'dislike', interacted_at: after }),
+      // Watchlisted before this later exposure, but after the first
+      row({ shown_at: after, watchlisted_at: shownAt })
+    ]);
+
+    expect(exposure.outcome).toEqual('watchlist');
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('should bracket the observed rate', () => {
+    const { lower, upper } = wilsonInterval(20, 100);
+    expect(lower).toBeCloseTo(0.1333, 3);
+    expect(upper).toBeCloseTo(0.2888, 3);
+  });
+
+  it('should stay within [0, 1] at the extremes', () => {
+    expect(wilsonInterval(0, 10).lower).toEqual(0);
+    expect(wilsonInterval(0, 10).upper).toBeGreaterThan(0);
+    expect(wilsonInterval(10, 10).upper).toBeCloseTo(1, 10);
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { explanationReason, scaleFactors } from '../lib/explanations';
+import { describeExploration } from '../lib/exploration';
+import { type ExplanationFactor } from '../schema';
+
+const factor = (overrides: Partial<ExplanationFactor>): ExplanationFactor => ({
+  kind: 'genre',
+  label: 'Drama',
+  weight: 0.1,
+  titles: [],
+  ...overrides
+});
+
+describe('explanationReason', () => {
+  it('should combine enjoyed genres, rating and media type into one reason', () => {
+    const reason = explanationReason({
+      factors: [
+        factor({ label: 'Action', titles: ['Liked Action'] }),
+        factor({ label: 'Crime', titles: ['Liked Crime'] }),
+        factor({ kind: 'rating', label: 'highly rated (8.5/10)', weight: 0.05 }),
+        factor({ kind: 'media_type', label: 'movie', weight: 0.05 })
+      ],
+      liked_items: [{ media_item_id: 1, title: 'Liked Action' }],
+      matched_genres: ['Action', 'Crime']
+    });
+
+    expect(reason).toEqual('Because of genres you enjoy: Action, Crime and highly rated (8.5/10) and you like movies');
+  });
+
+  it('should append penalties and collaborative signals', () => {
+    const reason = explanationReason({
+      factors: [
+        factor({ label: 'Horror', weight: -0.2, titles: ['Disliked Horror'] }),
+        factor({ kind: 'media_type', label: 'tv', weight: -0.1, titles: ['Disliked Show'] }),
+        factor({ kind: 'collaborative', label: 'Viewers who liked "Heat" also liked this', weight: 0.2 })
+      ],
+      liked_items: [],
+      matched_genres: []
+    });
+
+    expect(reason).toEqual(
+      'Recommended for you; fewer Horror because you disliked "Disliked Horror"; ' +
+      'fewer tvs because you disliked "Disliked Show"; Viewers who liked "Heat" also liked this'
+    );
+  });
+
+  it('should fall back to the first liked item when nothing else explains the pick', () => {
+    const reason = explanationReason({
+      factors: [factor({ kind: 'popularity', label: 'popular right now', weight: 0.02 })],
+      liked_items: [{ media_item_id: 4, title: 'First' }, { media_item_id: 5, title: 'Second' }],
+      matched_genres: []
+    });
+
+    expect(reason).toEqual('Because you liked "First"');
+  });
+
+  it('should describe explorations on their own', () => {
+    const reason = explanationReason({
+      factors: [
+        factor({ kind: 'exploration', label: 'Documentary', weight: 0 }),
+        factor({ label: 'Action' })
+      ],
+      liked_items: [],
+      matched_genres: []
+    });
+
+    expect(reason).toEqual(describeExploration('Documentary'));
+  });
+});
+
+describe('scaleFactors', () => {
+  it('should scale weights without touching labels or titles', () => {
+    const scaled = scaleFactors([factor({ weight: 0.4, titles: ['Liked'] })], 0.5);
+
+    expect(scaled).toEqual([factor({ weight: 0.2, titles: ['Liked'] })]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  buildGenrePosteriors,
+  describeExploration,
+  pickExplorations,
+  sampleBeta,
+  settledGenres,
+  EXPLORATION_REASON_PREFIX,
+  SETTLED_OBSERVATIONS
+} from '../lib/exploration';
+
+// Small deterministic linear congruential generator
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 0x100000000;
+  return seed / 0x100000000;
+};
+
+describe('buildGenrePosteriors', () => {
+  it('should count rewards per genre on top of a uniform prior', () => {
+    const posteriors = buildGenrePosteriors([
+      { genres: ['Drama', 'War'], reward: 1 },
+      { genres: ['Drama'], reward: 0 },
+      { genres: ['Drama'], reward: 1 }
+    ]);
+
+    expect(posteriors.get('Drama')).toEqual({ alpha: 3, beta: 2 });
+    expect(posteriors.get('War')).toEqual({ alpha: 2, beta: 1 });
+    expect(posteriors.has('Comedy')).toBe(false);
+  });
+});
+
+describe('settledGenres', () => {
+  it('should settle only genres with enough observations, whatever the outcome', () => {
+    const posteriors = buildGenrePosteriors([
+      ...Array.from({ length: SETTLED_OBSERVATIONS }, () => ({ genres: ['Action'], reward: 1 as const })),
+      ...Array.from({ length: SETTLED_OBSERVATIONS }, () => ({ genres: ['Horror'], reward: 0 as const })),
+      ...Array.from({ length: SETTLED_OBSERVATIONS - 1 }, () => ({ genres: ['Drama'], reward: 1 as const }))
+    ]);
+
+    expect(settledGenres(posteriors).sort()).toEqual(['Action', 'Horror']);
+  });
+});
+
+describe('sampleBeta', () => {
+  it('should draw values in [0, 1] centred on the posterior mean', () => {
+    const random = seeded(7);
+    const draws = Array.from({ length: 4000 }, () => sampleBeta({ alpha: 8, beta: 2 }, random));
+
+    draws.forEach(draw => {
+      expect(draw).toBeGreaterThanOrEqual(0);
+      expect(draw).toBeLessThanOrEqual(1);
+    });
+    const mean = draws.reduce((sum, draw) => sum + draw, 0) / draws.length;
+    expect(mean).toBeCloseTo(0.8, 1);
+  });
+});
+
+describe('pickExplorations', () => {
+  const pool = [
+    { id: 1, genres: ['Horror'] },
+    { id: 2, genres: ['Documentary'] },
+    { id: 3, genres: ['Documentary', 'History'] },
+    { id: 4, genres: ['Horror'] }
+  ];
+
+  it('should not explore at rate zero', () => {
+    expect(pickExplorations(pool, new Map(), { limit: 5, rate: 0, random: seeded(1) })).toEqual([]);
+  });
+
+  it('should fill every slot at rate one without repeating candidates', () => {
+    const picks = pickExplorations(pool, new Map(), { limit: 3, rate: 1, random: seeded(1) });
+
+    expect(picks.map(pick => pick.position)).toEqual([0, 1, 2]);
+    expect(new Set(picks.map(pick => pick.candidate.id)).size).toEqual(3);
+    picks.forEach(pick => expect(pick.candidate.genres).toContain(pick.genre));
+  });
+
+  it('should favour genres whose explorations landed', () => {
+    const posteriors = buildGenrePosteriors([
+      ...Array.from({ length: 20 }, () => ({ genres: ['Documentary'], reward: 1 as const })),
+      ...Array.from({ length: 20 }, () => ({ genres: ['Horror', 'History'], reward: 0 as const }))
+    ]);
+    const random = seeded(3);
+
+    let documentary = 0;
+    for (let i = 0; i < 200; i++) {
+      const [pick] = pickExplorations(pool, posteriors, { limit: 1, rate: 1, random });
+      if (pick.genre === 'Documentary') documentary++;
+    }
+    expect(documentary).toBeGreaterThan(190);
+  });
+});
+
+describe('describeExploration', () => {
+  it('should label the reason as exploration', () => {
+    expect(describeExploration('Documentary')).toStartWith(EXPLORATION_REASON_PREFIX);
+    expect(describeExploration('Documentary')).toContain('Documentary');
+  });
+});
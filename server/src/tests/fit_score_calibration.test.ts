@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, recommendationsTable, scoreCalibrationsTable, userInteractionsTable } from '../db/schema';
+import { fitScoreCalibration, loadCalibrationCurve } from '../handlers/fit_score_calibration';
+
+const testMediaItem = {
+  tmdb_id: 1,
+  title: 'Calibrated Movie',
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'A movie',
+  release_date: '2020-01-01',
+  genres: ['Drama'],
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+};
+
+type Response = 'accepted' | 'skipped' | 'snoozed';
+
+describe('fitScoreCalibration', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Each entry is [raw score, response, repetitions]; a null raw score is a row from before calibration
+  const seedResponses = async (responses: [number | null, Response, number][]) => {
+    const [media] = await db.insert(mediaItemsTable).values(testMediaItem).returning().execute();
+    const rows = responses.flatMap(([rawScore, response, times]) => Array.from({ length: times }, (_, index) => ({
+      session_id: `guest_${rawScore}_${response}_${index}`,
+      media_item_id: media.id,
+      reason: 'Recommended for you',
+      score: (rawScore ?? 0.9).toFixed(4),
+      raw_score: rawScore === null ? null : rawScore.toFixed(4),
+      shown: true,
+      response
+    })));
+    await db.insert(recommendationsTable).values(rows).execute();
+  };
+
+  it('should fit the observed acceptance rate for each raw score', async () => {
+    await seedResponses([
+      [0.2, 'accepted', 2], [0.2, 'skipped', 8],
+      [0.5, 'accepted', 5], [0.5, 'skipped', 5],
+      [0.9, 'accepted', 6], [0.9, 'skipped', 2], [null, 'accepted', 2],
+      [0.9, 'snoozed', 5] // Neither positive nor negative
+    ]);
+
+    const calibration = await fitScoreCalibration();
+
+    expect(calibration.outcomes).toEqual(30);
+    expect(calibration.positives).toEqual(15);
+    expect(calibration.points.map(point => [Number(point.raw_score.toFixed(4)), point.probability])).toEqual([[0.2, 0.2], [0.5, 0.5], [0.9, 0.8]]);
+    expect(calibration.brier_score_calibrated).toBeLessThan(calibration.brier_score_raw);
+    expect(typeof calibration.brier_score_raw).toBe('number');
+    expect(calibration.reliability.reduce((sum, bin) => sum + bin.count, 0)).toEqual(30);
+    expect(await loadCalibrationCurve()).toEqual(calibration.points);
+  });
+
+  it('should leave scores uncalibrated while there are too few outcomes', async () => {
+    await seedResponses([[0.6, 'accepted', 3], [0.3, 'skipped', 2]]);
+
+    const calibration = await fitScoreCalibration();
+
+    expect(calibration.outcomes).toEqual(5);
+    expect(calibration.points).toEqual([]);
+    expect(calibration.brier_score_calibrated).toEqual(calibration.brier_score_raw);
+  });
+
+  it('should count later likes and watchlist adds as positive and ignored recommendations as negative', async () => {
+    const [media] = await db.insert(mediaItemsTable).values(testMediaItem).returning().execute();
+    const shownAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    const owners = ['liked', 'watchlisted', 'ignored', 'just_shown'];
+    await db.insert(recommendationsTable)
+      .values(owners.map(owner => ({
+        session_id: `guest_${owner}`,
+        media_item_id: media.id,
+        reason: 'Recommended for you',
+        score: '0.5000',
+        raw_score: '0.5000',
+        shown: true,
+        shown_at: owner === 'just_shown' ? new Date() : shownAt
+      })))
+      .execute();
+    await db.insert(userInteractionsTable)
+      .values([
+        { session_id: 'guest_liked', media_item_id: media.id, interaction_type: 'like' as const },
+        { session_id: 'guest_watchlisted', media_item_id: media.id, interaction_type: 'add_to_watchlist' as const }
+      ])
+      .execute();
+
+    const calibration = await fitScoreCalibration();
+
+    expect(calibration.outcomes).toEqual(3);
+    expect(calibration.positives).toEqual(2);
+  });
+
+  it('should keep only the latest fit', async () => {
+    await seedResponses([[0.6, 'accepted', 3], [0.3, 'skipped', 2]]);
+
+    await fitScoreCalibration();
+    const latest = await fitScoreCalibration();
+
+    const fits = await db.select().from(scoreCalibrationsTable).execute();
+    expect(fits.map(fit => fit.id)).toEqual([latest.id]);
+  });
+
+  it('should use the most recent fit', async () => {
+    expect(await loadCalibrationCurve()).toEqual([]);
+
+    await db.insert(scoreCalibrationsTable)
+      .values([
+        { points: [{ raw_score: 0.5, probability: 0.1, count: 40 }], reliability: [], outcomes: 40, positives: 4, brier_score_raw: '0.2000', brier_score_calibrated: '0.1000' },
+        { points: [{ raw_score: 0.5, probability: 0.3, count: 50 }], reliability: [], outcomes: 50, positives: 15, brier_score_raw: '0.2000', brier_score_calibrated: '0.1000' }
+      ])
+      .execute();
+
+    expect((await loadCalibrationCurve())[0].probability).toEqual(0.3);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { createFixtureProvider } from '../providers/fixture_provider';
+import { DEFAULT_FIXTURES_DIR } from '../providers/metadata_provider';
+
+describe('createFixtureProvider', () => {
+  const provider = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+  it('should search recorded titles by name and media type', async () => {
+    const all = await provider.search('the', 'all', 1);
+    const shows = await provider.search('the', 'tv', 1);
+
+    expect(all.map(item => item.title)).toContain('The Matrix');
+    expect(all.map(item => item.title)).toContain('The Office');
+    expect(shows.every(item => item.media_type === 'tv')).toBe(true);
+    expect(await provider.search('the', 'all', 2)).toEqual([]);
+  });
+
+  it('should list like TMDB, without detail fields', async () => {
+    const [mostPopular] = await provider.popular('movie', 1);
+
+    expect(mostPopular.title).toEqual('Barbie');
+    // Lists carry genre IDs only, as TMDB's do
+    expect(mostPopular.genre_ids).toEqual([35, 12]);
+    expect(mostPopular.genres).toEqual([]);
+    expect(mostPopular.runtime).toBeUndefined();
+    expect(mostPopular.content_rating).toBeUndefined();
+  });
+
+  it('should serve trending titles in their recorded order', async () => {
+    const today = await provider.trending('all', 'day');
+    const showsThisWeek = await provider.trending('tv', 'week');
+
+    expect(today.map(item => item.tmdb_id)).toEqual([346698, 136315, 872585, 66732, 27205]);
+    expect(showsThisWeek.map(item => item.title)).toEqual(['Breaking Bad', 'The Bear', 'The Mandalorian']);
+  });
+
+  it('should return details with runtime and content rating', async () => {
+    const movie = await provider.details(862, 'movie');
+    const show = await provider.details(1396, 'tv');
+
+    expect(movie!.title).toEqual('Toy Story');
+    expect(movie!.runtime).toEqual(81);
+    expect(movie!.content_rating).toEqual('G');
+    expect(show!.release_date).toEqual('2008-01-20');
+    expect(show!.runtime).toEqual(47);
+    expect(show!.content_rating).toEqual('TV-MA');
+    expect(await provider.details(862, 'tv')).toBeNull();
+  });
+
+  it('should return the recorded tagline, status, credits and keywords', async () => {
+    const movie = await provider.details(603, 'movie');
+    const [listed] = await provider.search('The Matrix', 'movie', 1);
+
+    expect(movie!.status).toEqual('Released');
+    expect(movie!.tagline).not.toBeNull();
+    expect(movie!.credits.filter(credit => credit.job === 'Director').map(credit => credit.name)).toEqual(['Lana Wachowski', 'Lilly Wachowski']);
+    expect(movie!.keywords.map(keyword => keyword.name)).toContain('artificial intelligence');
+    expect(listed).not.toHaveProperty('credits');
+  });
+
+  it('should return recorded seasons with their episodes', async () => {
+    const show = await provider.details(1396, 'tv');
+    const season = await provider.season(1396, 2);
+
+    expect(show!.seasons.map(summary => summary.episode_count)).toEqual([7, 13, 13, 13, 16]);
+    expect(season!.episodes).toHaveLength(13);
+    expect(season!.episodes[0]).toMatchObject({ episode_number: 1, name: 'Seven Thirty-Seven', overview: null });
+    expect(await provider.season(1396, 5)).toBeNull();
+  });
+
+  it('should list genres per media type', async () => {
+    const genres = await provider.genres('tv');
+
+    expect(genres).toContainEqual({ id: 10765, name: 'Sci-Fi & Fantasy' });
+    expect(genres.find(genre => genre.id === 28)).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userProfilesTable, mediaItemsTable, userInteractionsTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+import { joinGroupSession } from '../handlers/join_group_session';
+import { generateGroupRecommendations } from '../handlers/generate_group_recommendations';
+import { castGroupVote } from '../handlers/cast_group_vote';
+
+const testMediaItem = (tmdbId: number, title: string, genres: string[], voteAverage: string, popularity: string = '10.0') => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: `${title} overview`,
+  release_date: '2023-01-01',
+  genres,
+  vote_average: voteAverage,
+  vote_count: 100,
+  popularity,
+  adult: false,
+  original_language: 'en'
+});
+
+describe('generateGroupRecommendations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Alice likes action, Bob likes comedy
+  const setUp = async () => {
+    const [alice] = await db.insert(userProfilesTable)
+      .values({ username: 'alice', email: 'alice@example.com' })
+      .returning()
+      .execute();
+    const media = await db.insert(mediaItemsTable)
+      .values([
+        testMediaItem(1, 'Alice Pick', ['Action'], '5.0'),
+        testMediaItem(2, 'Bob Pick', ['Comedy'], '5.0'),
+        testMediaItem(3, 'Action Comedy', ['Action', 'Comedy'], '7.0'),
+        testMediaItem(4, 'Pure Action', ['Action'], '9.0', '80.0'),
+        testMediaItem(5, 'Pure Comedy', ['Comedy'], '6.0')
+      ])
+      .returning()
+      .execute();
+    await db.insert(userInteractionsTable)
+      .values([
+        { user_id: alice.id, media_item_id: media[0].id, interaction_type: 'like' as const },
+        { session_id: 'guest_bob', media_item_id: media[1].id, interaction_type: 'like' as const }
+      ])
+      .execute();
+
+    const created = await createGroupSession({ user_id: alice.id, name: 'Movie night' });
+    const group = await joinGroupSession({ code: created.code, session_id: 'guest_bob', display_name: 'Bob' });
+    return { group, media };
+  };
+
+  it('should pick what nobody minds under least misery and name whose tastes it suits', async () => {
+    const { group, media } = await setUp();
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, limit: 3 });
+
+    expect(picks[0].media_item.id).toEqual(media[2].id); // Action Comedy
+    expect(picks[0].strategy).toEqual('least_misery');
+    expect(picks[0].reason).toEqual('Suits everyone: alice and Bob');
+    expect(picks[0].score).toEqual(Math.min(...picks[0].member_scores.map(member => member.score)));
+    expect(picks[0].member_scores.map(member => member.display_name)).toEqual(['alice', 'Bob']);
+    expect(typeof picks[0].media_item.vote_average).toBe('number');
+  });
+
+  it('should let one member carry the pick under average', async () => {
+    const { group, media } = await setUp();
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, strategy: 'average', limit: 3 });
+
+    expect(picks[0].media_item.id).toEqual(media[3].id); // Pure Action, loved by Alice and fine for Bob
+    expect(picks[0].strategy).toEqual('average');
+  });
+
+  it('should rank by the share of approving members under approval', async () => {
+    const { group, media } = await setUp();
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, strategy: 'approval', limit: 5 });
+    const pureComedy = picks.find(pick => pick.media_item.id === media[4].id)!;
+
+    expect(picks[0].score).toEqual(1);
+    expect(pureComedy.score).toEqual(0.5);
+    expect(pureComedy.reason).toEqual('Suits the tastes of Bob');
+  });
+
+  it('should exclude anything any member disliked', async () => {
+    const { group, media } = await setUp();
+    await db.insert(userInteractionsTable)
+      .values({ session_id: 'guest_sam', media_item_id: media[2].id, interaction_type: 'dislike' })
+      .execute();
+    await joinGroupSession({ code: group.code, session_id: 'guest_sam', display_name: 'Sam' });
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, limit: 5 });
+
+    expect(picks.map(pick => pick.media_item.id)).not.toContain(media[2].id);
+    expect(picks[0].member_scores).toHaveLength(3);
+  });
+
+  it('should leave titles the group already matched on out of the stream', async () => {
+    const { group, media } = await setUp();
+    await castGroupVote({ group_session_id: group.id, user_id: group.members[0].user_id!, media_item_id: media[2].id, vote: 'like' });
+    await castGroupVote({ group_session_id: group.id, session_id: 'guest_bob', media_item_id: media[2].id, vote: 'like' });
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, limit: 5 });
+
+    expect(picks.map(pick => pick.media_item.id)).not.toContain(media[2].id);
+  });
+
+  it('should leave out titles every member has swiped on', async () => {
+    const { group, media } = await setUp();
+    await castGroupVote({ group_session_id: group.id, user_id: group.members[0].user_id!, media_item_id: media[3].id, vote: 'like' });
+    await castGroupVote({ group_session_id: group.id, session_id: 'guest_bob', media_item_id: media[3].id, vote: 'pass' });
+    await castGroupVote({ group_session_id: group.id, session_id: 'guest_bob', media_item_id: media[4].id, vote: 'like' });
+
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, limit: 5 });
+    const pickedIds = picks.map(pick => pick.media_item.id);
+
+    expect(pickedIds).not.toContain(media[3].id);
+    expect(pickedIds).toContain(media[4].id); // Alice has yet to swipe
+  });
+
+  it('should leave out titles that passes have put out of reach of the quorum', async () => {
+    const { group, media } = await setUp();
+    await joinGroupSession({ code: group.code, session_id: 'guest_sam', display_name: 'Sam' });
+    await castGroupVote({ group_session_id: group.id, session_id: 'guest_bob', media_item_id: media[2].id, vote: 'pass' });
+
+    // Every member has to like a title, so one pass is enough to rule it out
+    const picks = await generateGroupRecommendations({ group_session_id: group.id, limit: 5 });
+
+    expect(picks.map(pick => pick.media_item.id)).not.toContain(media[2].id);
+  });
+
+  it('should throw for an unknown group', async () => {
+    await expect(generateGroupRecommendations({ group_session_id: 99999, limit: 5 })).rejects.toThrow(/Group session with id 99999 does not exist/);
+  });
+});
@@ -1,10 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { userProfilesTable, mediaItemsTable, userInteractionsTable, recommendationsTable } from '../db/schema';
+import { userProfilesTable, mediaItemsTable, userInteractionsTable, recommendationsTable, itemCooccurrencesTable, onboardingProfilesTable, userPreferencesTable, scoreCalibrationsTable, seasonsTable, episodesTable, episodeProgressTable } from '../db/schema';
 import { type GetRecommendationsInput } from '../schema';
 import { generateRecommendations } from '../handlers/generate_recommendations';
-import { eq, and } from 'drizzle-orm';
+import { ACTIVE_EXPERIMENT, assignArm } from '../lib/experiments';
+import { EXPLORATION_REASON_PREFIX } from '../lib/exploration';
+import { eq, and, inArray } from 'drizzle-orm';
 
 // Test data
 const testUser = {
@@ -224,6 +226,703 @@ describe('generateRecommendations', () => {
     }
   });
 
+  it('should rank items from disliked genres lower and explain why', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    // User likes sci-fi but dislikes comedy
+    await db.insert(userInteractionsTable)
+      .values([
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[5].id, // Sci-Fi Movie
+          interaction_type: 'like'
+        },
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[1].id, // Comedy Movie 1
+          interaction_type: 'dislike'
+        }
+      ])
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      user_id: userId,
+      limit: 10,
+      diversity: 0
+    };
+
+    const recommendations = await generateRecommendations(input);
+
+    // Romantic Comedy shares the disliked genre, so it should come last
+    const lastRecommendation = recommendations[recommendations.length - 1];
+    expect(lastRecommendation.media_item_id).toEqual(mediaResult[6].id);
+    expect(lastRecommendation.reason).toContain('fewer Comedy because you disliked "Comedy Movie 1"');
+    recommendations.slice(0, -1).forEach(rec => {
+      expect(rec.score).toBeGreaterThan(lastRecommendation.score);
+    });
+  });
+
+  it('should let recent interactions outweigh old ones', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const threeYearsAgo = new Date(Date.now() - 3 * 365 * 24 * 60 * 60 * 1000);
+    const yesterday = new Date(Date.now() - 30 * 60 * 60 * 1000);
+    await db.insert(userInteractionsTable)
+      .values([
+        { session_id: 'guest_decay', media_item_id: mediaResult[0].id, interaction_type: 'like' as const, created_at: threeYearsAgo, updated_at: threeYearsAgo },
+        { session_id: 'guest_decay', media_item_id: mediaResult[1].id, interaction_type: 'like' as const, created_at: yesterday, updated_at: yesterday }
+      ])
+      .execute();
+
+    const input: GetRecommendationsInput = { session_id: 'guest_decay', limit: 1, diversity: 0, exploration_rate: 0 };
+
+    // The old action like has all but faded, so the recent comedy like decides
+    const decayed = await generateRecommendations({ ...input, half_life_days: 90 });
+    expect(decayed[0].media_item_id).toEqual(mediaResult[6].id); // Romantic Comedy
+
+    // With a very long half-life both likes count and the higher rated action title wins
+    const undecayed = await generateRecommendations({ ...input, half_life_days: 100000 });
+    expect(undecayed[0].media_item_id).toEqual(mediaResult[2].id); // Action Movie 2
+  });
+
+  it('should blend collaborative evidence into scores and reasons', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values({
+        user_id: userId,
+        session_id: null,
+        media_item_id: mediaResult[0].id, // Action Movie 1
+        interaction_type: 'like'
+      })
+      .execute();
+
+    // Other people who liked Action Movie 1 also liked Romantic Comedy
+    await db.insert(itemCooccurrencesTable)
+      .values({
+        media_item_id: mediaResult[0].id,
+        related_media_item_id: mediaResult[6].id,
+        co_count: 3,
+        similarity: '0.9000'
+      })
+      .execute();
+
+    const blended = await generateRecommendations({
+      user_id: userId,
+      limit: 1,
+      exploration_rate: 0,
+      collaborative_weight: 0.3
+    });
+
+    expect(blended).toHaveLength(1);
+    expect(blended[0].media_item_id).toEqual(mediaResult[6].id);
+    expect(blended[0].reason).toContain('3 people who liked "Action Movie 1" also liked this');
+    expect(blended[0].explanation!.factors.map(factor => factor.kind)).toContain('collaborative');
+    expect(blended[0].explanation!.liked_items[0]).toEqual({ media_item_id: mediaResult[0].id, title: 'Action Movie 1' });
+
+    // The explanation is stored with the recommendation
+    const stored = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.id, blended[0].id))
+      .execute();
+    expect(stored[0].explanation).toEqual(blended[0].explanation);
+
+    // Without collaborative weight the content-based favourite wins
+    const contentOnly = await generateRecommendations({
+      user_id: userId,
+      limit: 1,
+      exploration_rate: 0,
+      collaborative_weight: 0
+    });
+
+    expect(contentOnly[0].media_item_id).toEqual(mediaResult[2].id); // Action Movie 2
+  });
+
+  it('should never exceed the maximum share of any single genre', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      user_id: userId,
+      limit: 4,
+      diversity: 0,
+      exploration_rate: 0,
+      max_genre_share: 0.5
+    };
+
+    const recommendations = await generateRecommendations(input);
+
+    const recommendedItems = await db.select()
+      .from(mediaItemsTable)
+      .where(inArray(mediaItemsTable.id, recommendations.map(r => r.media_item_id)))
+      .execute();
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    const genreCounts = new Map<string, number>();
+    recommendedItems.forEach(item => {
+      item.genres.forEach(genre => genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1));
+    });
+    genreCounts.forEach(count => {
+      expect(count).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('should keep to the maximum genre share when exploring', async () => {
+    // Every title is an Action title, so only two of them fit a batch of four
+    await db.insert(mediaItemsTable)
+      .values(['Comedy', 'Drama', 'Horror', 'Romance', 'Western', 'Mystery', 'Family', 'War'].map((genre, i) => ({
+        ...testMediaItems[0],
+        tmdb_id: 300 + i,
+        title: `Action ${genre}`,
+        genres: ['Action', genre]
+      })))
+      .execute();
+
+    const recommendations = await generateRecommendations({
+      session_id: 'guest_capped',
+      limit: 4,
+      diversity: 0,
+      exploration_rate: 1,
+      max_genre_share: 0.5
+    });
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    expect(recommendations.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should trade relevance for variety when diversity is high', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const relevant = await generateRecommendations({ user_id: userId, limit: 2, diversity: 0, exploration_rate: 0 });
+    const varied = await generateRecommendations({ user_id: userId, limit: 2, diversity: 0.9, exploration_rate: 0 });
+
+    // Pure relevance picks the two top-rated action titles
+    expect(relevant.map(r => r.media_item_id)).toEqual([mediaResult[4].id, mediaResult[0].id]);
+    // High diversity keeps the top pick but follows it with something unlike it
+    expect(varied[0].media_item_id).toEqual(mediaResult[4].id);
+    expect(varied[1].media_item_id).not.toEqual(mediaResult[0].id);
+  });
+
+  it('should not pile up duplicate rows when regenerating', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      user_id: userId,
+      limit: 3,
+      exploration_rate: 0
+    };
+
+    const first = await generateRecommendations(input);
+    const second = await generateRecommendations(input);
+
+    // The same queued rows are refreshed rather than inserted again
+    expect(second.map(r => r.id).sort()).toEqual(first.map(r => r.id).sort());
+
+    const savedRecommendations = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.user_id, userId))
+      .execute();
+
+    expect(savedRecommendations).toHaveLength(3);
+    expect(new Set(savedRecommendations.map(r => r.media_item_id)).size).toEqual(3);
+  });
+
+  it('should refresh score and reason of queued recommendations', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const queued = await db.insert(recommendationsTable)
+      .values({
+        user_id: userId,
+        session_id: null,
+        media_item_id: mediaResult[4].id, // Action TV Show - top rated
+        reason: 'Old reason',
+        score: '0.1000',
+        shown: false
+      })
+      .returning()
+      .execute();
+
+    const recommendations = await generateRecommendations({
+      user_id: userId,
+      limit: 1,
+      exploration_rate: 0
+    });
+
+    expect(recommendations).toHaveLength(1);
+    expect(recommendations[0].id).toEqual(queued[0].id);
+    expect(recommendations[0].reason).not.toEqual('Old reason');
+    expect(recommendations[0].score).toBeGreaterThan(0.1);
+    expect(recommendations[0].updated_at.getTime()).toBeGreaterThan(queued[0].updated_at.getTime());
+  });
+
+  it('should keep fresh queued rows and expire stale ones', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const fiveDaysAgo = new Date(Date.now() - 5 * 24 * 60 * 60 * 1000);
+    const queued = await db.insert(recommendationsTable)
+      .values([
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[3].id, // Drama TV Show - fresh
+          reason: 'Fresh',
+          score: '0.5000'
+        },
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[6].id, // Romantic Comedy - not confirmed for days
+          reason: 'Stale',
+          score: '0.5000',
+          created_at: fiveDaysAgo,
+          updated_at: fiveDaysAgo
+        },
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[1].id, // Comedy Movie 1 - user has since disliked it
+          reason: 'Interacted',
+          score: '0.5000'
+        }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values({
+        user_id: userId,
+        session_id: null,
+        media_item_id: mediaResult[1].id,
+        interaction_type: 'dislike'
+      })
+      .execute();
+
+    await generateRecommendations({
+      user_id: userId,
+      limit: 1,
+      exploration_rate: 0
+    });
+
+    const remaining = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.user_id, userId))
+      .execute();
+    const remainingIds = remaining.map(r => r.id);
+
+    expect(remainingIds).toContain(queued[0].id);
+    expect(remainingIds).not.toContain(queued[1].id);
+    expect(remainingIds).not.toContain(queued[2].id);
+    expect(remaining).toHaveLength(2); // The fresh row plus the new top recommendation
+  });
+
+  it('should exclude shown and ignored items for a cooldown window', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    await db.insert(recommendationsTable)
+      .values([
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[4].id, // Action TV Show - ignored yesterday
+          reason: 'Shown recently',
+          score: '0.9000',
+          shown: true,
+          shown_at: new Date(Date.now() - dayMs)
+        },
+        {
+          user_id: userId,
+          session_id: null,
+          media_item_id: mediaResult[0].id, // Action Movie 1 - ignored a month ago
+          reason: 'Shown long ago',
+          score: '0.9000',
+          shown: true,
+          shown_at: new Date(Date.now() - 30 * dayMs)
+        }
+      ])
+      .execute();
+
+    const recommendations = await generateRecommendations({
+      user_id: userId,
+      limit: 7
+    });
+    const recommendedMediaIds = recommendations.map(r => r.media_item_id);
+
+    expect(recommendedMediaIds).not.toContain(mediaResult[4].id);
+    expect(recommendedMediaIds).toContain(mediaResult[0].id);
+
+    // The cooled down item gets a fresh queued row rather than reusing the shown one
+    const resurfaced = recommendations.find(r => r.media_item_id === mediaResult[0].id)!;
+    expect(resurfaced.shown).toBe(false);
+    expect(resurfaced.reason).not.toEqual('Shown long ago');
+  });
+
+  it('should honour responses to earlier recommendations', async () => {
+    // Create user
+    const userResult = await db.insert(userProfilesTable)
+      .values(testUser)
+      .returning()
+      .execute();
+    const userId = userResult[0].id;
+
+    // Create media items
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const responded = {
+      user_id: userId,
+      session_id: null,
+      reason: 'Earlier recommendation',
+      score: '0.5000',
+      shown: true,
+      shown_at: new Date(Date.now() - dayMs),
+      responded_at: new Date(Date.now() - dayMs)
+    };
+    await db.insert(recommendationsTable)
+      .values([
+        {
+          ...responded,
+          media_item_id: mediaResult[4].id, // Action TV Show - snoozed for another week
+          response: 'snoozed' as const,
+          resurface_at: new Date(Date.now() + 7 * dayMs)
+        },
+        {
+          ...responded,
+          media_item_id: mediaResult[0].id, // Action Movie 1 - snooze is over
+          response: 'snoozed' as const,
+          resurface_at: new Date(Date.now() - 60 * 1000)
+        },
+        {
+          ...responded,
+          media_item_id: mediaResult[6].id, // Romantic Comedy - no more comedies
+          response: 'not_interested' as const,
+          response_scope: 'genre' as const,
+          response_scope_value: 'Comedy'
+        },
+        {
+          ...responded,
+          media_item_id: mediaResult[2].id, // Action Movie 2 - accepted long ago
+          response: 'accepted' as const,
+          shown_at: new Date(Date.now() - 40 * dayMs)
+        }
+      ])
+      .execute();
+
+    const recommendations = await generateRecommendations({
+      user_id: userId,
+      limit: 7
+    });
+
+    expect(recommendations.map(r => r.media_item_id).sort()).toEqual([
+      mediaResult[0].id, // Snooze over
+      mediaResult[3].id, // Drama TV Show
+      mediaResult[5].id // Sci-Fi Movie
+    ].sort());
+  });
+
+  it('should tag recommendations with the owner\'s experiment arm', async () => {
+    await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .execute();
+
+    const enrolled = await generateRecommendations({ session_id: 'guest_ab', limit: 3 });
+    const expectedArm = assignArm(ACTIVE_EXPERIMENT, 'session:guest_ab').name;
+
+    enrolled.forEach(rec => {
+      expect(rec.experiment).toEqual(ACTIVE_EXPERIMENT.name);
+      expect(rec.experiment_arm).toEqual(expectedArm);
+    });
+
+    // Requests that choose their own ranking settings stay out of the experiment
+    const overridden = await generateRecommendations({ session_id: 'guest_manual', limit: 3, collaborative_weight: 0.5 });
+
+    overridden.forEach(rec => {
+      expect(rec.experiment).toBeNull();
+      expect(rec.experiment_arm).toBeNull();
+    });
+  });
+
+  it('should reach well-liked niche titles outside the top-rated slice', async () => {
+    // Plenty of highly rated, popular titles the guest has no taste for
+    await db.insert(mediaItemsTable)
+      .values(Array.from({ length: 30 }, (_, i) => ({
+        ...testMediaItems[0],
+        tmdb_id: 100 + i,
+        title: `Blockbuster ${i}`,
+        vote_average: '9.5',
+        popularity: '99.0'
+      })))
+      .execute();
+    const [likedDocumentary, nicheDocumentary] = await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItems[1], tmdb_id: 200, title: 'Liked Documentary', genres: ['Documentary', 'History'] },
+        { ...testMediaItems[1], tmdb_id: 201, title: 'Niche Documentary', genres: ['Documentary', 'History'], vote_average: '7.5', popularity: '3.0' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values({ session_id: 'guest_niche', media_item_id: likedDocumentary.id, interaction_type: 'like' })
+      .execute();
+
+    const recommendations = await generateRecommendations({ session_id: 'guest_niche', limit: 1, diversity: 0, exploration_rate: 0 });
+
+    expect(recommendations[0].media_item_id).toEqual(nicheDocumentary.id);
+    expect(recommendations[0].reason).toContain('genres you enjoy: Documentary, History');
+  });
+
+  it('should explore beyond the exploited pick and label it in the reason', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    // Both guests liked Action Movie 1, so Action and Adventure titles are familiar territory
+    await db.insert(userInteractionsTable)
+      .values(['guest_exploit', 'guest_explore'].map(sessionId => ({
+        session_id: sessionId,
+        media_item_id: mediaResult[0].id,
+        interaction_type: 'like' as const
+      })))
+      .execute();
+
+    const exploited = await generateRecommendations({ session_id: 'guest_exploit', limit: 1, exploration_rate: 0 });
+    expect(exploited[0].reason.startsWith(EXPLORATION_REASON_PREFIX)).toBe(false);
+
+    const explored = await generateRecommendations({ session_id: 'guest_explore', limit: 1, exploration_rate: 1 });
+
+    expect(explored).toHaveLength(1);
+    expect(explored[0].reason.startsWith(EXPLORATION_REASON_PREFIX)).toBe(true);
+    expect(explored[0].media_item_id).not.toEqual(exploited[0].media_item_id);
+
+    // The explored title keeps its own, lower score; its queue position is what puts it first
+    expect(explored[0].raw_score!).toBeLessThan(exploited[0].raw_score!);
+    expect(explored[0].queue_position).toEqual(0);
+  });
+
+  it('should draw exploration slots from the injected random source', async () => {
+    await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .execute();
+    // A small linear congruential generator, so repeated runs see the same draws
+    const seeded = () => {
+      let state = 42;
+      return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+      };
+    };
+
+    const never = await generateRecommendations({ session_id: 'guest_never', limit: 3, exploration_rate: 0.5 }, { random: () => 0.99 });
+    const first = await generateRecommendations({ session_id: 'guest_seeded_a', limit: 3, exploration_rate: 0.5 }, { random: seeded() });
+    const second = await generateRecommendations({ session_id: 'guest_seeded_b', limit: 3, exploration_rate: 0.5 }, { random: seeded() });
+
+    expect(never.some(rec => rec.reason.startsWith(EXPLORATION_REASON_PREFIX))).toBe(false);
+    expect(second.map(rec => [rec.media_item_id, rec.reason])).toEqual(first.map(rec => [rec.media_item_id, rec.reason]));
+  });
+
+  it('should keep exploring genres the owner has reacted to only a little', async () => {
+    // Every remaining title shares a genre with the one the guest liked
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values([testMediaItems[0], testMediaItems[2], testMediaItems[5]])
+      .returning()
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values({ session_id: 'guest_little', media_item_id: mediaResult[0].id, interaction_type: 'like' })
+      .execute();
+
+    const explored = await generateRecommendations({ session_id: 'guest_little', limit: 1, exploration_rate: 1 });
+
+    expect(explored).toHaveLength(1);
+    expect(explored[0].reason.startsWith(EXPLORATION_REASON_PREFIX)).toBe(true);
+  });
+
+  it('should use onboarding answers for a guest without interactions', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const input: GetRecommendationsInput = { session_id: 'guest_new', limit: 1, diversity: 0, exploration_rate: 0 };
+
+    // Without answers a new guest gets the top-rated title
+    const coldStart = await generateRecommendations(input);
+    expect(coldStart[0].media_item_id).toEqual(mediaResult[4].id); // Action TV Show
+
+    await db.insert(onboardingProfilesTable)
+      .values({
+        session_id: 'guest_new',
+        favourite_genres: ['Comedy'],
+        seed_media_item_ids: [mediaResult[1].id] // Comedy Movie 1
+      })
+      .execute();
+
+    // Genre matching reaches the comedies even though they are outside the top-rated slice
+    const onboarded = await generateRecommendations(input);
+    expect(onboarded[0].media_item_id).toEqual(mediaResult[6].id); // Romantic Comedy
+    expect(onboarded[0].reason).toContain('Comedy');
+
+    // The quick pick itself is not recommended back
+    const batch = await generateRecommendations({ ...input, limit: 7 });
+    expect(batch.map(rec => rec.media_item_id)).not.toContain(mediaResult[1].id);
+  });
+
+  it('should never recommend what the user\'s preferences exclude', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+    await db.insert(userPreferencesTable)
+      .values({
+        session_id: 'guest_prefs',
+        preferred_genres: ['Comedy'],
+        excluded_genres: ['Action'],
+        allowed_languages: [],
+        min_vote_average: '7.0'
+      })
+      .execute();
+
+    const recommendations = await generateRecommendations({ session_id: 'guest_prefs', limit: 7, exploration_rate: 1 });
+    const recommendedIds = recommendations.map(rec => rec.media_item_id);
+
+    // Action titles and anything rated under 7.0 are out, whether exploited or explored
+    [0, 2, 3, 4].forEach(index => expect(recommendedIds).not.toContain(mediaResult[index].id));
+    expect(recommendedIds.length).toBeGreaterThan(0);
+
+    // Preferred genres count as liked
+    const ranked = await generateRecommendations({ session_id: 'guest_prefs', limit: 3, diversity: 0, exploration_rate: 0 });
+    expect(ranked[0].reason).toContain('Comedy');
+  });
+
+  it('should not recommend shows the owner is part way through', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+    const show = mediaResult[4];
+    const [season] = await db.insert(seasonsTable)
+      .values({ media_item_id: show.id, season_number: 1, name: 'Season 1', episode_count: 2 })
+      .returning()
+      .execute();
+    const [pilot, finale] = await db.insert(episodesTable)
+      .values([
+        { tmdb_id: 9001, media_item_id: show.id, season_id: season.id, season_number: 1, episode_number: 1, name: 'Pilot', air_date: '2023-05-01' },
+        { tmdb_id: 9002, media_item_id: show.id, season_id: season.id, season_number: 1, episode_number: 2, name: 'Finale', air_date: '2023-05-08' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(episodeProgressTable)
+      .values([
+        { session_id: 'guest_watching', media_item_id: show.id, episode_id: pilot.id },
+        { session_id: 'guest_finished', media_item_id: show.id, episode_id: pilot.id },
+        { session_id: 'guest_finished', media_item_id: show.id, episode_id: finale.id }
+      ])
+      .execute();
+
+    const recommendations = await generateRecommendations({ session_id: 'guest_watching', limit: 7, exploration_rate: 0 });
+    const others = await generateRecommendations({ session_id: 'guest_other', limit: 7, exploration_rate: 0 });
+    // Once caught up, the show is no longer in continue watching and may be recommended again
+    const finished = await generateRecommendations({ session_id: 'guest_finished', limit: 7, exploration_rate: 0 });
+
+    expect(recommendations.map(rec => rec.media_item_id)).not.toContain(show.id);
+    expect(others.map(rec => rec.media_item_id)).toContain(show.id);
+    expect(finished.map(rec => rec.media_item_id)).toContain(show.id);
+  });
+
   it('should generate recommendations for guest session', async () => {
     const sessionId = 'guest_session_123';
 
@@ -348,7 +1047,8 @@ describe('generateRecommendations', () => {
 
     const input: GetRecommendationsInput = {
       user_id: userId,
-      limit: 2
+      limit: 2,
+      exploration_rate: 0
     };
 
     const recommendations = await generateRecommendations(input);
@@ -441,5 +1141,64 @@ describe('generateRecommendations', () => {
     expect(typeof recommendation.score).toBe('number');
     expect(recommendation.score).toBeGreaterThan(0);
     expect(recommendation.score).toBeLessThanOrEqual(1);
+    expect(recommendation.raw_score).toEqual(recommendation.score); // No calibration fitted yet
+  });
+
+  it('should store calibrated scores alongside the raw ranking scores', async () => {
+    await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .execute();
+    // Maps raw scores linearly onto [0.05, 0.45]
+    await db.insert(scoreCalibrationsTable)
+      .values({
+        points: [{ raw_score: 0, probability: 0.05, count: 50 }, { raw_score: 1, probability: 0.45, count: 50 }],
+        reliability: [],
+        outcomes: 100,
+        positives: 25,
+        brier_score_raw: '0.3000',
+        brier_score_calibrated: '0.1800'
+      })
+      .execute();
+
+    const recommendations = await generateRecommendations({ session_id: 'guest_calibrated', limit: 3, exploration_rate: 0 });
+
+    expect(recommendations.length).toBeGreaterThan(0);
+    recommendations.forEach(recommendation => {
+      expect(recommendation.score).toBeCloseTo(0.05 + 0.4 * recommendation.raw_score!, 3);
+    });
+  });
+
+  it('should apply the request context as filters and score modifiers', async () => {
+    const runtimes = [140, 95, 120, 50, 45, 130, 98];
+    const ratings = ['PG-13', 'PG', 'R', 'TV-14', 'TV-14', 'PG-13', 'PG-13'];
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems.map((item, i) => ({ ...item, runtime: runtimes[i], content_rating: ratings[i] })))
+      .returning()
+      .execute();
+
+    // Something light under 100 minutes: only the two comedy movies fit, and they suit the mood
+    const light = await generateRecommendations({
+      session_id: 'guest_context',
+      limit: 5,
+      exploration_rate: 0,
+      moods: ['light'],
+      max_runtime: 100,
+      media_type: 'movie'
+    });
+
+    expect(light.map(rec => rec.media_item_id).sort()).toEqual([mediaResult[1].id, mediaResult[6].id].sort());
+    expect(light[0].media_item_id).toEqual(mediaResult[1].id); // Comedy Movie 1, the better rated
+    expect(light[0].reason).toContain('your light mood');
+    expect(light[0].reason).toContain('a runtime within 100 minutes');
+
+    // A family audience only gets titles rated for families
+    const family = await generateRecommendations({ session_id: 'guest_family', limit: 5, exploration_rate: 0, audience: 'family' });
+
+    expect(family.map(rec => rec.media_item_id)).toEqual([mediaResult[1].id]);
+
+    // A release year range rules out everything outside it
+    const older = await generateRecommendations({ session_id: 'guest_years', limit: 5, exploration_rate: 0, max_release_year: 2022 });
+
+    expect(older).toEqual([]);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'bun:test';
+import { genresAreStale, localizedGenreName, mergeGenreLists, FALLBACK_GENRES, GENRE_SYNC_MAX_AGE_DAYS } from '../lib/genres';
+
+describe('mergeGenreLists', () => {
+  it('should list genres shared by movies and TV once, with both media types', () => {
+    const merged = mergeGenreLists(
+      [{ id: 28, name: 'Action' }, { id: 18, name: 'Drama' }],
+      [{ id: 18, name: 'Drama' }, { id: 10765, name: 'Sci-Fi & Fantasy' }]
+    );
+
+    expect(merged).toEqual([
+      { tmdb_id: 28, name: 'Action', media_types: ['movie'] },
+      { tmdb_id: 18, name: 'Drama', media_types: ['movie', 'tv'] },
+      { tmdb_id: 10765, name: 'Sci-Fi & Fantasy', media_types: ['tv'] }
+    ]);
+  });
+});
+
+describe('genresAreStale', () => {
+  it('should sync genres that were never synced or are too old', () => {
+    const now = new Date('2024-06-01T00:00:00Z');
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+    expect(genresAreStale(null, now)).toBe(true);
+    expect(genresAreStale(daysAgo(1), now)).toBe(false);
+    expect(genresAreStale(daysAgo(GENRE_SYNC_MAX_AGE_DAYS), now)).toBe(true);
+  });
+});
+
+describe('localizedGenreName', () => {
+  it('should fall back to the canonical name without a translation', () => {
+    const comedy = { name: 'Comedy', localized_names: { 'de-DE': 'Komödie' } };
+
+    expect(localizedGenreName(comedy, 'de-DE')).toEqual('Komödie');
+    expect(localizedGenreName(comedy, 'fr-FR')).toEqual('Comedy');
+  });
+});
+
+describe('FALLBACK_GENRES', () => {
+  it('should cover the standard movie and TV genres once each', () => {
+    expect(FALLBACK_GENRES).toHaveLength(27);
+    expect(new Set(FALLBACK_GENRES.map(genre => genre.tmdb_id)).size).toEqual(27);
+    expect(FALLBACK_GENRES.find(genre => genre.tmdb_id === 18)).toEqual({ tmdb_id: 18, name: 'Drama', media_types: ['movie', 'tv'] });
+    expect(FALLBACK_GENRES.find(genre => genre.tmdb_id === 10765)).toEqual({ tmdb_id: 10765, name: 'Sci-Fi & Fantasy', media_types: ['tv'] });
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, recommendationsTable, userInteractionsTable, watchlistTable } from '../db/schema';
+import { getExperimentReport } from '../handlers/get_experiment_report';
+import { ACTIVE_EXPERIMENT } from '../lib/experiments';
+
+const testMediaItem = (tmdbId: number) => ({
+  tmdb_id: tmdbId,
+  title: `Movie ${tmdbId}`,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'A movie',
+  release_date: '2023-01-01',
+  genres: ['Drama'],
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+const shownAt = new Date('2024-06-01T12:00:00Z');
+const before = new Date('2024-05-01T12:00:00Z');
+const after = new Date('2024-06-02T12:00:00Z');
+
+describe('getExperimentReport', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error for an unknown experiment', async () => {
+    await expect(getExperimentReport({ experiment: 'nope' })).rejects.toThrow(/experiment nope does not exist/i);
+  });
+
+  it('should report every arm even without exposures', async () => {
+    const report = await getExperimentReport({});
+
+    expect(report.experiment).toEqual(ACTIVE_EXPERIMENT.name);
+    expect(report.arms.map(arm => arm.arm)).toEqual(ACTIVE_EXPERIMENT.arms.map(arm => arm.name));
+    report.arms.forEach(arm => {
+      expect(arm.exposures).toEqual(0);
+      expect(arm.conversion_rate).toEqual(0);
+    });
+  });
+
+  it('should attribute outcomes after exposure to the arm that produced them', async () => {
+    const [control, treatment] = ACTIVE_EXPERIMENT.arms.map(arm => arm.name);
+    const media = await db.insert(mediaItemsTable)
+      .values([1, 2, 3, 4, 5].map(testMediaItem))
+      .returning()
+      .execute();
+
+    const recommendation = (sessionId: string, mediaIndex: number, arm: string, shown = true) => ({
+      session_id: sessionId,
+      media_item_id: media[mediaIndex].id,
+      reason: 'Recommended for you',
+      score: '0.5000',
+      shown,
+      shown_at: shown ? shownAt : null,
+      experiment: ACTIVE_EXPERIMENT.name,
+      experiment_arm: arm
+    });
+
+    await db.insert(recommendationsTable)
+      .values([
+        recommendation('guest_a', 0, control), // liked afterwards
+        recommendation('guest_a', 1, control), // liked before it was shown: not attributed
+        recommendation('guest_a', 2, control, false), // never shown: not an exposure
+        recommendation('guest_b', 0, treatment), // watchlisted afterwards
+        recommendation('guest_b', 3, treatment), // disliked afterwards
+        recommendation('guest_c', 4, treatment), // no outcome
+        { ...recommendation('guest_d', 4, treatment), experiment: 'older_experiment' }
+      ])
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values([
+        { session_id: 'guest_a', media_item_id: media[0].id, interaction_type: 'like' as const, created_at: after, updated_at: after },
+        { session_id: 'guest_a', media_item_id: media[1].id, interaction_type: 'like' as const, created_at: before, updated_at: before },
+        { session_id: 'guest_b', media_item_id: media[3].id, interaction_type: 'dislike' as const, created_at: after, updated_at: after },
+        // Another owner's like of the same item is not attributed to guest_c
+        { session_id: 'guest_x', media_item_id: media[4].id, interaction_type: 'like' as const, created_at: after, updated_at: after }
+      ])
+      .execute();
+
+    await db.insert(watchlistTable)
+      .values({ session_id: 'guest_b', media_item_id: media[0].id, created_at: after })
+      .execute();
+
+    const report = await getExperimentReport({ experiment: ACTIVE_EXPERIMENT.name });
+    const controlReport = report.arms.find(arm => arm.arm === control)!;
+    const treatmentReport = report.arms.find(arm => arm.arm === treatment)!;
+
+    expect(controlReport.owners).toEqual(1);
+    expect(controlReport.exposures).toEqual(2);
+    expect(controlReport.likes).toEqual(1);
+    expect(controlReport.conversions).toEqual(1);
+    expect(controlReport.conversion_rate).toEqual(0.5);
+
+    expect(treatmentReport.owners).toEqual(2);
+    expect(treatmentReport.exposures).toEqual(3);
+    expect(treatmentReport.likes).toEqual(0);
+    expect(treatmentReport.watchlist_adds).toEqual(1);
+    expect(treatmentReport.dislikes).toEqual(1);
+    expect(treatmentReport.conversions).toEqual(1);
+    expect(treatmentReport.conversion_rate).toBeCloseTo(1 / 3, 10);
+
+    [controlReport, treatmentReport].forEach(arm => {
+      expect(arm.ci_lower).toBeLessThanOrEqual(arm.conversion_rate);
+      expect(arm.ci_upper).toBeGreaterThanOrEqual(arm.conversion_rate);
+    });
+  });
+
+  it('should attribute an outcome once when an item was recommended repeatedly', async () => {
+    const [control] = ACTIVE_EXPERIMENT.arms.map(arm => arm.name);
+    const [media] = await db.insert(mediaItemsTable).values(testMediaItem(1)).returning().execute();
+    const exposure = (shown: Date) => ({
+      session_id: 'guest_a',
+      media_item_id: media.id,
+      reason: 'Recommended for you',
+      score: '0.5000',
+      shown: true,
+      shown_at: shown,
+      experiment: ACTIVE_EXPERIMENT.name,
+      experiment_arm: control
+    });
+    await db.insert(recommendationsTable)
+      .values([exposure(shownAt), exposure(new Date(shownAt.getTime() + 1000)), exposure(new Date(shownAt.getTime() + 2000))])
+      .execute();
+    await db.insert(userInteractionsTable)
+      .values({ session_id: 'guest_a', media_item_id: media.id, interaction_type: 'like' as const, created_at: after, updated_at: after })
+      .execute();
+    await db.insert(watchlistTable)
+      .values([{ session_id: 'guest_a', media_item_id: media.id, created_at: after }, { session_id: 'guest_a', media_item_id: media.id, created_at: after }])
+      .execute();
+
+    const report = await getExperimentReport({ experiment: ACTIVE_EXPERIMENT.name });
+    const controlReport = report.arms.find(arm => arm.arm === control)!;
+
+    expect(controlReport.exposures).toEqual(1);
+    expect(controlReport.likes).toEqual(1);
+    expect(controlReport.watchlist_adds).toEqual(0);
+    expect(controlReport.conversion_rate).toEqual(1);
+  });
+});
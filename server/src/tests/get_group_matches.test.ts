@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+import { castGroupVote } from '../handlers/cast_group_vote';
+import { getGroupMatches } from '../handlers/get_group_matches';
+
+const testMediaItem = (tmdbId: number, title: string) => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: `${title} overview`,
+  release_date: '2020-01-01',
+  genres: ['Drama'],
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+describe('getGroupMatches', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the match history, most recent first', async () => {
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1, 'Earlier'), testMediaItem(2, 'Unmatched'), testMediaItem(3, 'Later')])
+      .returning()
+      .execute();
+    const group = await createGroupSession({ session_id: 'guest_solo', name: 'Just me' });
+    for (const [item, vote] of [[media[0], 'like'], [media[1], 'pass'], [media[2], 'like']] as const) {
+      await castGroupVote({ group_session_id: group.id, session_id: 'guest_solo', media_item_id: item.id, vote });
+    }
+
+    const matches = await getGroupMatches({ group_session_id: group.id });
+
+    expect(matches.map(match => match.media_item.title)).toEqual(['Later', 'Earlier']);
+    expect(matches[0].member_count).toEqual(1);
+  });
+
+  it('should throw for an unknown group', async () => {
+    await expect(getGroupMatches({ group_session_id: 99999 })).rejects.toThrow(/Group session with id 99999 does not exist/);
+  });
+});
@@ -0,0 +1,22 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { createGroupSession } from '../handlers/create_group_session';
+import { getGroupSession } from '../handlers/get_group_session';
+
+describe('getGroupSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the group with its members', async () => {
+    const created = await createGroupSession({ session_id: 'guest_host', display_name: 'Sam', name: 'Movie night' });
+
+    const group = await getGroupSession({ group_session_id: created.id });
+
+    expect(group).toEqual(created);
+    expect(group.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw for an unknown group', async () => {
+    await expect(getGroupSession({ group_session_id: 99999 })).rejects.toThrow(/Group session with id 99999 does not exist/);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, mediaCreditsTable, peopleTable } from '../db/schema';
+import { getMediaItemDetails } from '../handlers/get_media_item_details';
+import { createMediaItem } from '../handlers/create_media_item';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+import { eq } from 'drizzle-orm';
+
+const fixtures = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+// A listed title, as search and the feeds store it: no details yet
+const storeListed = async (tmdbId: number, mediaType: 'movie' | 'tv') => {
+  const details = await fixtures.details(tmdbId, mediaType);
+  const { tagline: _tagline, status: _status, credits: _credits, keywords: _keywords, ...listed } = details!;
+  return createMediaItem({ ...listed, runtime: undefined, content_rating: undefined });
+};
+
+describe('getMediaItemDetails', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should fetch details, cast, crew and keywords the first time a title is opened', async () => {
+    const toyStory = await storeListed(862, 'movie');
+
+    const details = await getMediaItemDetails({ media_item_id: toyStory.id, refresh: false });
+
+    expect(details.title).toEqual('Toy Story');
+    expect(details.tagline).toEqual('The adventure takes off!');
+    expect(details.status).toEqual('Released');
+    expect(details.runtime).toEqual(81);
+    expect(details.content_rating).toEqual('G');
+    expect(details.details_fetched_at).toBeInstanceOf(Date);
+    expect(typeof details.vote_average).toBe('number');
+    expect(details.directors).toEqual(['John Lasseter']);
+    expect(details.cast.map(member => member.name)).toEqual(['Tom Hanks', 'Tim Allen', 'Don Rickles']);
+    expect(details.cast[0].character).toEqual('Woody (voice)');
+    // Only key crew jobs are kept
+    expect(details.crew.map(member => member.job)).toEqual(['Director', 'Original Music Composer']);
+    expect(details.keywords).toEqual(['friendship', 'jealousy', 'toy comes to life']);
+  });
+
+  it('should credit TV creators and share people between titles', async () => {
+    const breakingBad = await storeListed(1396, 'tv');
+
+    const details = await getMediaItemDetails({ media_item_id: breakingBad.id, refresh: false });
+    await getMediaItemDetails({ media_item_id: breakingBad.id, refresh: true });
+
+    expect(details.directors).toEqual(['Vince Gilligan']);
+    expect(details.keywords).toContain('drug dealer');
+    const cranston = await db.select().from(peopleTable).where(eq(peopleTable.name, 'Bryan Cranston')).execute();
+    expect(cranston).toHaveLength(1);
+    const credits = await db.select().from(mediaCreditsTable).where(eq(mediaCreditsTable.media_item_id, breakingBad.id)).execute();
+    expect(credits).toHaveLength(details.cast.length + details.crew.length);
+  });
+
+  it('should serve fresh details without asking the provider again', async () => {
+    const matrix = await storeListed(603, 'movie');
+    await getMediaItemDetails({ media_item_id: matrix.id, refresh: false });
+    const details = mock(() => Promise.resolve(null));
+    setMetadataProvider({ ...fixtures, details } as MetadataProvider);
+
+    const result = await getMediaItemDetails({ media_item_id: matrix.id, refresh: false });
+
+    expect(details).not.toHaveBeenCalled();
+    expect(result.directors).toEqual(['Lana Wachowski', 'Lilly Wachowski']);
+  });
+
+  it('should refetch stale details', async () => {
+    const matrix = await storeListed(603, 'movie');
+    await getMediaItemDetails({ media_item_id: matrix.id, refresh: false });
+    await db.update(mediaItemsTable)
+      .set({ details_fetched_at: new Date('2000-01-01') })
+      .where(eq(mediaItemsTable.id, matrix.id))
+      .execute();
+
+    const result = await getMediaItemDetails({ media_item_id: matrix.id, refresh: false });
+
+    expect(result.details_fetched_at!.getFullYear()).toBeGreaterThan(2000);
+  });
+
+  it('should serve stored details when the provider cannot be reached', async () => {
+    const matrix = await storeListed(603, 'movie');
+    setMetadataProvider({
+      ...fixtures,
+      details: () => Promise.reject(new Error('Network unreachable'))
+    } as MetadataProvider);
+
+    const result = await getMediaItemDetails({ media_item_id: matrix.id, refresh: false });
+
+    expect(result.title).toEqual('The Matrix');
+    expect(result.details_fetched_at).toBeNull();
+    expect(result.cast).toEqual([]);
+    expect(result.keywords).toEqual([]);
+  });
+
+  it('should reject unknown media items', async () => {
+    await expect(getMediaItemDetails({ media_item_id: 99999, refresh: false })).rejects.toThrow(/Media item with id 99999 does not exist/);
+  });
+});
@@ -3,7 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { userProfilesTable, mediaItemsTable, recommendationsTable } from '../db/schema';
 import { type GetRecommendationsInput, type CreateUserProfileInput, type CreateMediaItemInput } from '../schema';
-import { getNextRecommendation } from '../handlers/get_next_recommendation';
+import { getNextRecommendation, settleRecommendationRefills } from '../handlers/get_next_recommendation';
 import { eq } from 'drizzle-orm';
 
 // Test data
@@ -46,7 +46,11 @@ const testMediaItem2: CreateMediaItemInput = {
 
 describe('getNextRecommendation', () => {
   beforeEach(createDB);
-  afterEach(resetDB);
+  afterEach(async () => {
+    // Background refills must finish before the schema is dropped
+    await settleRecommendationRefills();
+    await resetDB();
+  });
 
   it('should return the highest-scored unshown recommendation for a user', async () => {
     // Create test user
@@ -173,6 +177,7 @@ describe('getNextRecommendation', () => {
 
     expect(updatedRec).toHaveLength(1);
     expect(updatedRec[0].shown).toBe(true);
+    expect(updatedRec[0].shown_at).toBeInstanceOf(Date);
   });
 
   it('should return null when no unshown recommendations exist', async () => {
@@ -262,6 +267,85 @@ describe('getNextRecommendation', () => {
     expect(result!.score).toEqual(0.75);
   });
 
+  it('should only serve queued items that fit the request context', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: '8.5', popularity: '85.5', runtime: 150 },
+        { ...testMediaItem2, vote_average: '7.2', popularity: '72.3', runtime: 25 }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(recommendationsTable)
+      .values([
+        { session_id: 'guest_short', media_item_id: mediaResult[0].id, reason: 'Long', score: '0.9000' },
+        { session_id: 'guest_short', media_item_id: mediaResult[1].id, reason: 'Short', score: '0.5000' }
+      ])
+      .execute();
+
+    const result = await getNextRecommendation({ session_id: 'guest_short', limit: 10, max_runtime: 30 });
+
+    // The better scored long title stays queued for another time
+    expect(result!.media_item_id).toEqual(mediaResult[1].id);
+    const remaining = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.media_item_id, mediaResult[0].id))
+      .execute();
+    expect(remaining[0].shown).toBe(false);
+  });
+
+  it('should break ties between equal scores by raw score, then rating', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: '8.5', popularity: '85.5' },
+        { ...testMediaItem2, vote_average: '7.2', popularity: '72.3' },
+        { ...testMediaItem2, tmdb_id: 99999, vote_average: '6.0', popularity: '10.0' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(recommendationsTable)
+      .values([
+        { session_id: 'guest_ties', media_item_id: mediaResult[0].id, reason: 'Best rated', score: '0.4000', raw_score: '0.7000' },
+        { session_id: 'guest_ties', media_item_id: mediaResult[1].id, reason: 'Higher raw score', score: '0.4000', raw_score: '0.9000' },
+        { session_id: 'guest_ties', media_item_id: mediaResult[2].id, reason: 'Same raw score', score: '0.4000', raw_score: '0.7000' }
+      ])
+      .execute();
+
+    const served = [];
+    for (let i = 0; i < 3; i++) {
+      served.push((await getNextRecommendation({ session_id: 'guest_ties', limit: 10 }))!.reason);
+    }
+
+    expect(served).toEqual(['Higher raw score', 'Best rated', 'Same raw score']);
+  });
+
+  it('should serve generated rows in queue order ahead of rows without a position', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: '8.5', popularity: '85.5' },
+        { ...testMediaItem2, vote_average: '7.2', popularity: '72.3' },
+        { ...testMediaItem2, tmdb_id: 99999, vote_average: '6.0', popularity: '10.0' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(recommendationsTable)
+      .values([
+        { session_id: 'guest_queue', media_item_id: mediaResult[0].id, reason: 'Unpositioned', score: '0.9500' },
+        { session_id: 'guest_queue', media_item_id: mediaResult[1].id, reason: 'Explored', score: '0.3000', queue_position: 0 },
+        { session_id: 'guest_queue', media_item_id: mediaResult[2].id, reason: 'Exploited', score: '0.8000', queue_position: 1 }
+      ])
+      .execute();
+
+    const served = [];
+    for (let i = 0; i < 3; i++) {
+      served.push((await getNextRecommendation({ session_id: 'guest_queue', limit: 10 }))!.reason);
+    }
+
+    expect(served).toEqual(['Explored', 'Exploited', 'Unpositioned']);
+  });
+
   it('should return null when no user_id or session_id provided and no null recommendations exist', async () => {
     // Create test media item
     const mediaResult = await db.insert(mediaItemsTable)
@@ -373,4 +457,119 @@ describe('getNextRecommendation', () => {
     const thirdResult = await getNextRecommendation(input);
     expect(thirdResult).toBeNull();
   });
-});
\ No newline at end of file
+
+  it('should refill an empty queue before serving', async () => {
+    // Create test user
+    const userResult = await db.insert(userProfilesTable)
+      .values({
+        username: testUser.username,
+        email: testUser.email
+      })
+      .returning()
+      .execute();
+
+    const userId = userResult[0].id;
+
+    // Create media items but no recommendations
+    await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: testMediaItem.vote_average.toString(), popularity: testMediaItem.popularity.toString() },
+        { ...testMediaItem2, vote_average: testMediaItem2.vote_average.toString(), popularity: testMediaItem2.popularity.toString() }
+      ])
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      user_id: userId,
+      limit: 10
+    };
+
+    const result = await getNextRecommendation(input);
+
+    expect(result).not.toBeNull();
+    expect(result!.user_id).toEqual(userId);
+
+    const saved = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.user_id, userId))
+      .execute();
+
+    expect(saved).toHaveLength(2);
+    expect(saved.filter(rec => rec.shown)).toHaveLength(1);
+  });
+
+  it('should top up a low queue in the background', async () => {
+    const sessionId = 'guest_session_low';
+
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: testMediaItem.vote_average.toString(), popularity: testMediaItem.popularity.toString() },
+        { ...testMediaItem2, vote_average: testMediaItem2.vote_average.toString(), popularity: testMediaItem2.popularity.toString() }
+      ])
+      .returning()
+      .execute();
+
+    // A single queued recommendation is below the low-water mark
+    await db.insert(recommendationsTable)
+      .values({
+        user_id: null,
+        session_id: sessionId,
+        media_item_id: mediaResult[0].id,
+        reason: 'Only queued recommendation',
+        score: '0.7000',
+        shown: false
+      })
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      session_id: sessionId,
+      limit: 10
+    };
+
+    const result = await getNextRecommendation(input);
+    expect(result!.reason).toEqual('Only queued recommendation');
+
+    await settleRecommendationRefills();
+
+    const queued = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.shown, false))
+      .execute();
+
+    expect(queued).toHaveLength(1);
+    expect(queued[0].media_item_id).toEqual(mediaResult[1].id);
+    expect(queued[0].session_id).toEqual(sessionId);
+  });
+
+  it('should generate only once for concurrent callers', async () => {
+    const sessionId = 'guest_session_concurrent';
+
+    await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem, vote_average: testMediaItem.vote_average.toString(), popularity: testMediaItem.popularity.toString() },
+        { ...testMediaItem2, vote_average: testMediaItem2.vote_average.toString(), popularity: testMediaItem2.popularity.toString() }
+      ])
+      .execute();
+
+    const input: GetRecommendationsInput = {
+      session_id: sessionId,
+      limit: 10
+    };
+
+    const [first, second] = await Promise.all([
+      getNextRecommendation(input),
+      getNextRecommendation(input)
+    ]);
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(first!.id).not.toEqual(second!.id);
+
+    const saved = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.session_id, sessionId))
+      .execute();
+
+    expect(saved).toHaveLength(2);
+    expect(new Set(saved.map(rec => rec.media_item_id)).size).toEqual(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { type OnboardingTitlesInput } from '../schema';
+import { getOnboardingTitles } from '../handlers/get_onboarding_titles';
+
+const testMediaItem = (tmdbId: number, genres: string[], popularity: number, overrides: Partial<{ media_type: 'movie' | 'tv'; adult: boolean }> = {}) => ({
+  tmdb_id: tmdbId,
+  title: `Title ${tmdbId}`,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'Overview',
+  release_date: '2023-01-01',
+  genres,
+  vote_average: '7.5',
+  vote_count: 100,
+  popularity: popularity.toString(),
+  adult: false,
+  original_language: 'en',
+  ...overrides
+});
+
+describe('getOnboardingTitles', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return an empty list for an empty catalogue', async () => {
+    const input: OnboardingTitlesInput = { media_type: 'all', limit: 12 };
+
+    expect(await getOnboardingTitles(input)).toEqual([]);
+  });
+
+  it('should balance seed titles across genres', async () => {
+    // Action dominates popularity, but the quiz should still show comedy and drama
+    await db.insert(mediaItemsTable)
+      .values([
+        testMediaItem(1, ['Action'], 100),
+        testMediaItem(2, ['Action'], 95),
+        testMediaItem(3, ['Action'], 90),
+        testMediaItem(4, ['Action'], 85),
+        testMediaItem(5, ['Comedy'], 40),
+        testMediaItem(6, ['Drama'], 30)
+      ])
+      .execute();
+
+    const titles = await getOnboardingTitles({ media_type: 'all', limit: 3 });
+
+    expect(titles.map(title => title.genres[0])).toEqual(['Action', 'Comedy', 'Drama']);
+    expect(titles[0].tmdb_id).toEqual(1);
+    expect(typeof titles[0].vote_average).toBe('number');
+    expect(typeof titles[0].popularity).toBe('number');
+  });
+
+  it('should filter by media type and skip adult titles', async () => {
+    await db.insert(mediaItemsTable)
+      .values([
+        testMediaItem(1, ['Drama'], 100, { adult: true }),
+        testMediaItem(2, ['Drama'], 90, { media_type: 'tv' }),
+        testMediaItem(3, ['Comedy'], 80)
+      ])
+      .execute();
+
+    const all = await getOnboardingTitles({ media_type: 'all', limit: 12 });
+    const tv = await getOnboardingTitles({ media_type: 'tv', limit: 12 });
+
+    expect(all.map(title => title.tmdb_id).sort()).toEqual([2, 3]);
+    expect(tv.map(title => title.tmdb_id)).toEqual([2]);
+  });
+});
@@ -1,9 +1,12 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { mediaItemsTable } from '../db/schema';
+import { mediaItemsTable, userPreferencesTable, feedCacheTable } from '../db/schema';
 import { type PopularItemsInput, type CreateMediaItemInput } from '../schema';
+import { eq } from 'drizzle-orm';
 import { getPopularItems } from '../handlers/get_popular_items';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
 
 // Test media items with different popularity scores
 const testItems: CreateMediaItemInput[] = [
@@ -109,6 +112,26 @@ describe('getPopularItems', () => {
     expect(result[3].popularity).toEqual(45.2);
   });
 
+  it('should hide items excluded by the session\'s preferences', async () => {
+    await createTestItems();
+    await db.insert(userPreferencesTable)
+      .values({
+        session_id: 'guest_1',
+        preferred_genres: [],
+        excluded_genres: ['Comedy'],
+        allowed_languages: [],
+        min_vote_average: '7.0'
+      })
+      .execute();
+
+    const result = await getPopularItems({ media_type: 'all', page: 1, session_id: 'guest_1' });
+
+    expect(result.map(item => item.title)).toEqual(['Most Popular Movie', 'Popular TV Show']);
+
+    // Without an owner nothing is hidden
+    expect(await getPopularItems({ media_type: 'all', page: 1 })).toHaveLength(4);
+  });
+
   it('should filter by media_type when specified', async () => {
     await createTestItems();
 
@@ -274,4 +297,140 @@ describe('getPopularItems', () => {
     expect(['string', 'object']).toContain(typeof item.backdrop_path); // string or null
     expect(['string', 'object']).toContain(typeof item.release_date); // string or null
   });
-});
\ No newline at end of file
+});
+
+describe('getPopularItems with a metadata provider', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should store the provider\'s popular titles and rank them with the catalogue', async () => {
+    setMetadataProvider(createFixtureProvider(DEFAULT_FIXTURES_DIR));
+
+    const results = await getPopularItems({ media_type: 'tv', page: 1 });
+
+    expect(results.map(item => item.title).slice(0, 3)).toEqual(['Game of Thrones', 'Stranger Things', 'Breaking Bad']);
+    const stored = await db.select().from(mediaItemsTable).execute();
+    expect(stored).toHaveLength(results.length);
+  });
+
+  it('should fall back to the stored catalogue when the provider fails', async () => {
+    setMetadataProvider({
+      name: 'offline',
+      popular: () => Promise.reject(new Error('Network unreachable'))
+    } as unknown as MetadataProvider);
+    await db.insert(mediaItemsTable)
+      .values({ ...testItems[0], vote_average: '8.5', popularity: '95.5' })
+      .execute();
+
+    const results = await getPopularItems({ media_type: 'all', page: 1 });
+
+    expect(results.map(item => item.title)).toEqual(['Most Popular Movie']);
+  });
+
+  it('should serve a warm page from the database and refetch it once expired', async () => {
+    let calls = 0;
+    setMetadataProvider({
+      name: 'counting',
+      popular: async () => {
+        calls++;
+        return [{ ...testItems[0], popularity: 90 + calls }];
+      }
+    } as unknown as MetadataProvider);
+
+    await getPopularItems({ media_type: 'all', page: 1 });
+    const warm = await getPopularItems({ media_type: 'all', page: 1 });
+    expect(calls).toEqual(1);
+    expect(warm[0].popularity).toEqual(91);
+
+    await db.update(feedCacheTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(feedCacheTable.feed_key, 'popular:all:1'))
+      .execute();
+    const refreshed = await getPopularItems({ media_type: 'all', page: 1 });
+
+    expect(calls).toEqual(2);
+    expect(refreshed[0].popularity).toEqual(92); // Upserted, not duplicated
+    expect(await db.select().from(mediaItemsTable).execute()).toHaveLength(1);
+  });
+
+  it('should keep serving an expired page while the provider is unreachable', async () => {
+    setMetadataProvider(createFixtureProvider(DEFAULT_FIXTURES_DIR));
+    const fresh = await getPopularItems({ media_type: 'movie', page: 1 });
+    await db.update(feedCacheTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    setMetadataProvider({
+      name: 'offline',
+      popular: () => Promise.reject(new Error('Network unreachable'))
+    } as unknown as MetadataProvider);
+    const stale = await getPopularItems({ media_type: 'movie', page: 1 });
+
+    expect(stale.map(item => item.id)).toEqual(fresh.map(item => item.id));
+  });
+
+  it('should not ask the provider again for a while after it fails', async () => {
+    let calls = 0;
+    setMetadataProvider({
+      name: 'offline',
+      popular: () => {
+        calls++;
+        return Promise.reject(new Error('Network unreachable'));
+      }
+    } as unknown as MetadataProvider);
+
+    await getPopularItems({ media_type: 'all', page: 1 });
+    await getPopularItems({ media_type: 'all', page: 1 });
+    expect(calls).toEqual(1);
+
+    await db.update(feedCacheTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+    await getPopularItems({ media_type: 'all', page: 1 });
+
+    expect(calls).toEqual(2);
+  });
+
+  it('should not cache an empty page', async () => {
+    let calls = 0;
+    setMetadataProvider({
+      name: 'counting',
+      popular: async () => {
+        calls++;
+        return calls === 1 ? [] : [testItems[0]];
+      }
+    } as unknown as MetadataProvider);
+
+    expect(await getPopularItems({ media_type: 'all', page: 1 })).toEqual([]);
+    const results = await getPopularItems({ media_type: 'all', page: 1 });
+
+    expect(calls).toEqual(2);
+    expect(results.map(item => item.title)).toEqual(['Most Popular Movie']);
+  });
+});
+
+describe('getPopularItems without a TMDB API key', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    mock.restore();
+    await resetDB();
+  });
+
+  it('should serve the stored catalogue without calling TMDB', async () => {
+    delete process.env['METADATA_PROVIDER'];
+    delete process.env['TMDB_API_KEY'];
+    const fetchSpy = spyOn(globalThis, 'fetch');
+    await db.insert(mediaItemsTable)
+      .values({ ...testItems[0], vote_average: '8.5', popularity: '95.5' })
+      .execute();
+
+    const results = await getPopularItems({ media_type: 'all', page: 1 });
+
+    expect(results.map(item => item.title)).toEqual(['Most Popular Movie']);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(await db.select().from(feedCacheTable).execute()).toEqual([]);
+  });
+});
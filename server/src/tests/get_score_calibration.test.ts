@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { fitScoreCalibration } from '../handlers/fit_score_calibration';
+import { getScoreCalibration } from '../handlers/get_score_calibration';
+
+describe('getScoreCalibration', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return null before any calibration has been fitted', async () => {
+    expect(await getScoreCalibration()).toBeNull();
+  });
+
+  it('should return the latest fit with numeric diagnostics', async () => {
+    await fitScoreCalibration();
+    const latest = await fitScoreCalibration();
+
+    const calibration = await getScoreCalibration();
+
+    expect(calibration!.id).toEqual(latest.id);
+    expect(calibration!.outcomes).toEqual(0);
+    expect(calibration!.points).toEqual([]);
+    expect(calibration!.brier_score_raw).toEqual(0);
+    expect(calibration!.fitted_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { type SimilarItemsInput } from '../schema';
+import { getSimilarItems } from '../handlers/get_similar_items';
+
+const baseItem = {
+  poster_path: null,
+  backdrop_path: null,
+  vote_count: 1000,
+  adult: false,
+  original_language: 'en'
+};
+
+const testMediaItems = [
+  {
+    ...baseItem,
+    tmdb_id: 1,
+    title: 'Space Station Rescue',
+    media_type: 'movie' as const,
+    overview: 'Astronauts aboard a failing space station race to rescue the crew before oxygen runs out',
+    release_date: '2015-05-01',
+    genres: ['Science Fiction', 'Thriller'],
+    vote_average: '7.8',
+    popularity: '80.0'
+  },
+  {
+    ...baseItem,
+    tmdb_id: 2,
+    title: 'Orbit Rescue',
+    media_type: 'movie' as const,
+    overview: 'A stranded crew on a damaged space station waits for a rescue mission',
+    release_date: '2017-08-01',
+    genres: ['Science Fiction', 'Thriller'],
+    vote_average: '7.5',
+    popularity: '40.0'
+  },
+  {
+    ...baseItem,
+    tmdb_id: 3,
+    title: 'Galaxy Comedy',
+    media_type: 'movie' as const,
+    overview: 'Bumbling aliens open a restaurant on Earth',
+    release_date: '1985-03-01',
+    genres: ['Science Fiction', 'Comedy'],
+    vote_average: '5.1',
+    popularity: '90.0'
+  },
+  {
+    ...baseItem,
+    tmdb_id: 4,
+    title: 'Country Romance',
+    media_type: 'movie' as const,
+    overview: 'Two farmers fall in love during harvest season',
+    release_date: '2016-06-01',
+    genres: ['Romance'],
+    vote_average: '7.7',
+    popularity: '95.0'
+  }
+];
+
+describe('getSimilarItems', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error when media item does not exist', async () => {
+    const input: SimilarItemsInput = {
+      media_item_id: 9999,
+      limit: 10
+    };
+
+    await expect(getSimilarItems(input)).rejects.toThrow(/media item with id 9999 does not exist/i);
+  });
+
+  it('should rank items by genre, story, era and rating similarity', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const input: SimilarItemsInput = {
+      media_item_id: mediaResult[0].id,
+      limit: 10
+    };
+
+    const results = await getSimilarItems(input);
+
+    // The romance shares no genre and the source itself is excluded
+    expect(results.map(item => item.id)).toEqual([mediaResult[1].id, mediaResult[2].id]);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+    expect(results[0].reason).toEqual(
+      'Like "Space Station Rescue", it shares Science Fiction, Thriller and has a similar story and is from the same era and is similarly rated'
+    );
+    expect(results[1].reason).toEqual('Like "Space Station Rescue", it shares Science Fiction');
+  });
+
+  it('should return media items with numeric fields and similarity scores', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const input: SimilarItemsInput = {
+      media_item_id: mediaResult[0].id,
+      limit: 10
+    };
+
+    const results = await getSimilarItems(input);
+
+    results.forEach(item => {
+      expect(typeof item.vote_average).toBe('number');
+      expect(typeof item.popularity).toBe('number');
+      expect(typeof item.similarity).toBe('number');
+      expect(item.similarity).toBeGreaterThan(0);
+      expect(item.similarity).toBeLessThanOrEqual(1);
+      expect(item.created_at).toBeInstanceOf(Date);
+    });
+  });
+
+  it('should respect limit parameter', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const input: SimilarItemsInput = {
+      media_item_id: mediaResult[0].id,
+      limit: 1
+    };
+
+    const results = await getSimilarItems(input);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toEqual(mediaResult[1].id);
+  });
+
+  it('should return empty array when nothing shares a genre', async () => {
+    const mediaResult = await db.insert(mediaItemsTable)
+      .values(testMediaItems)
+      .returning()
+      .execute();
+
+    const input: SimilarItemsInput = {
+      media_item_id: mediaResult[3].id,
+      limit: 10
+    };
+
+    const results = await getSimilarItems(input);
+
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, userPreferencesTable, feedCacheTable } from '../db/schema';
+import { getTrendingItems } from '../handlers/get_trending_items';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+
+describe('getTrendingItems', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(createFixtureProvider(DEFAULT_FIXTURES_DIR));
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should serve the daily or weekly trending list in the provider\'s order', async () => {
+    const today = await getTrendingItems({ media_type: 'all', time_window: 'day' });
+    const thisWeek = await getTrendingItems({ media_type: 'movie', time_window: 'week' });
+
+    expect(today.map(item => item.title)).toEqual(['Barbie', 'The Bear', 'Oppenheimer', 'Stranger Things', 'Inception']);
+    expect(thisWeek.map(item => item.title)).toEqual(['Oppenheimer', 'Barbie', 'The Dark Knight']);
+    expect(typeof today[0].vote_average).toBe('number');
+
+    const cached = await db.select().from(feedCacheTable).execute();
+    expect(cached.map(feed => feed.feed_key).sort()).toEqual(['trending:all:day', 'trending:movie:week']);
+  });
+
+  it('should apply the session\'s exclusions', async () => {
+    await db.insert(userPreferencesTable)
+      .values({ session_id: 'guest_no_comedy', preferred_genres: [], excluded_genres: ['Comedy'], allowed_languages: [] })
+      .execute();
+
+    const results = await getTrendingItems({ media_type: 'all', time_window: 'day', session_id: 'guest_no_comedy' });
+
+    expect(results.map(item => item.title)).toEqual(['Oppenheimer', 'Stranger Things', 'Inception']);
+  });
+
+  it('should fall back to the most popular stored titles before the provider has been reached', async () => {
+    setMetadataProvider({
+      name: 'offline',
+      trending: () => Promise.reject(new Error('Network unreachable'))
+    } as unknown as MetadataProvider);
+    await db.insert(mediaItemsTable)
+      .values({
+        tmdb_id: 1,
+        title: 'Stored Movie',
+        media_type: 'movie',
+        poster_path: null,
+        backdrop_path: null,
+        overview: 'Already in the catalogue',
+        release_date: '2020-01-01',
+        genres: ['Drama'],
+        vote_average: '7.0',
+        vote_count: 100,
+        popularity: '50.0',
+        adult: false,
+        original_language: 'en'
+      })
+      .execute();
+
+    const results = await getTrendingItems({ media_type: 'all', time_window: 'week' });
+
+    expect(results.map(item => item.title)).toEqual(['Stored Movie']);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { episodeProgressTable, seasonsTable } from '../db/schema';
+import { getTvSeasons } from '../handlers/get_tv_seasons';
+import { createMediaItem } from '../handlers/create_media_item';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+import { eq } from 'drizzle-orm';
+
+const fixtures = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+const storeListed = async (tmdbId: number, mediaType: 'movie' | 'tv') => {
+  const [listed] = (await fixtures.popular(mediaType, 1)).filter(item => item.tmdb_id === tmdbId);
+  return createMediaItem(listed);
+};
+
+describe('getTvSeasons', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should list a show\'s seasons with the episodes of every recorded season', async () => {
+    const breakingBad = await storeListed(1396, 'tv');
+
+    const seasons = await getTvSeasons({ media_item_id: breakingBad.id });
+
+    expect(seasons.map(season => season.season_number)).toEqual([1, 2, 3, 4, 5]);
+    expect(seasons.map(season => season.episode_count)).toEqual([7, 13, 13, 13, 16]);
+    expect(seasons[0].episodes.map(episode => episode.name).slice(0, 2)).toEqual(['Pilot', 'Cat\'s in the Bag...']);
+    expect(seasons[0].episodes[0]).toMatchObject({ season_number: 1, episode_number: 1, air_date: '2008-01-20', runtime: 58, watched: false });
+    expect(seasons[1].episodes).toHaveLength(13);
+    // Only the first two seasons are recorded
+    expect(seasons[2].episodes).toEqual([]);
+  });
+
+  it('should mark the episodes the user or session has watched', async () => {
+    const breakingBad = await storeListed(1396, 'tv');
+    const [first] = await getTvSeasons({ media_item_id: breakingBad.id });
+    await db.insert(episodeProgressTable)
+      .values({ session_id: 'guest_bb', media_item_id: breakingBad.id, episode_id: first.episodes[0].id })
+      .execute();
+
+    const [mine] = await getTvSeasons({ media_item_id: breakingBad.id, session_id: 'guest_bb' });
+    const [theirs] = await getTvSeasons({ media_item_id: breakingBad.id, session_id: 'guest_other' });
+
+    expect(mine.episodes.map(episode => episode.watched)).toEqual([true, false, false, false, false, false, false]);
+    expect(theirs.episodes.every(episode => !episode.watched)).toBe(true);
+  });
+
+  it('should not fetch seasons again while they are fresh', async () => {
+    const breakingBad = await storeListed(1396, 'tv');
+    await getTvSeasons({ media_item_id: breakingBad.id });
+    const season = mock(() => Promise.resolve(null));
+    setMetadataProvider({ ...fixtures, season } as MetadataProvider);
+
+    const seasons = await getTvSeasons({ media_item_id: breakingBad.id });
+
+    expect(season).not.toHaveBeenCalled();
+    expect(seasons[0].episodes).toHaveLength(7);
+  });
+
+  it('should keep stored episodes when a season cannot be fetched', async () => {
+    const breakingBad = await storeListed(1396, 'tv');
+    await getTvSeasons({ media_item_id: breakingBad.id });
+    await db.update(seasonsTable)
+      .set({ episodes_fetched_at: new Date('2000-01-01') })
+      .where(eq(seasonsTable.media_item_id, breakingBad.id))
+      .execute();
+    setMetadataProvider({
+      ...fixtures,
+      season: () => Promise.reject(new Error('Network unreachable'))
+    } as MetadataProvider);
+
+    const seasons = await getTvSeasons({ media_item_id: breakingBad.id });
+
+    expect(seasons[1].episodes).toHaveLength(13);
+  });
+
+  it('should reject movies and unknown media items', async () => {
+    const toyStory = await storeListed(862, 'movie');
+    const details = mock(fixtures.details);
+    setMetadataProvider({ ...fixtures, details } as MetadataProvider);
+
+    await expect(getTvSeasons({ media_item_id: toyStory.id })).rejects.toThrow(/is not a TV show/);
+    expect(details).not.toHaveBeenCalled();
+    await expect(getTvSeasons({ media_item_id: 99999 })).rejects.toThrow(/Media item with id 99999 does not exist/);
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userPreferencesTable } from '../db/schema';
+import { getUserPreferences } from '../handlers/get_user_preferences';
+
+describe('getUserPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error when neither user_id nor session_id provided', async () => {
+    await expect(getUserPreferences({})).rejects.toThrow(/either user_id or session_id must be provided/i);
+  });
+
+  it('should return null when nothing was saved', async () => {
+    expect(await getUserPreferences({ session_id: 'guest_1' })).toBeNull();
+  });
+
+  it('should return saved preferences with numeric conversion', async () => {
+    await db.insert(userPreferencesTable)
+      .values({
+        session_id: 'guest_1',
+        preferred_genres: ['Drama'],
+        excluded_genres: ['Animation'],
+        allowed_languages: ['en', 'ko'],
+        min_vote_average: '6.5'
+      })
+      .execute();
+
+    const result = await getUserPreferences({ session_id: 'guest_1' });
+
+    expect(result).not.toBeNull();
+    expect(result!.excluded_genres).toEqual(['Animation']);
+    expect(result!.allowed_languages).toEqual(['en', 'ko']);
+    expect(result!.min_vote_average).toEqual(6.5);
+    expect(typeof result!.min_vote_average).toBe('number');
+    expect(result!.min_release_year).toBeNull();
+    expect(result!.include_adult).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test';
+import { aggregateGroupScore, decidedTitles, describeGroupPick, votesNeeded } from '../lib/group_recommendations';
+
+describe('aggregateGroupScore', () => {
+  const scores = [0.9, 0.6, 0.2];
+
+  it('should score the group by its least happy member under least misery', () => {
+    expect(aggregateGroupScore(scores, 'least_misery')).toEqual(0.2);
+  });
+
+  it('should average the members under average', () => {
+    expect(aggregateGroupScore(scores, 'average')).toBeCloseTo(0.5667, 4);
+  });
+
+  it('should count the share of approving members under approval', () => {
+    expect(aggregateGroupScore(scores, 'approval')).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('should score an empty group as zero', () => {
+    expect(aggregateGroupScore([], 'average')).toEqual(0);
+  });
+});
+
+describe('describeGroupPick', () => {
+  it('should name whose tastes the pick satisfies', () => {
+    expect(describeGroupPick(['Alice', 'Sam'], ['Alice', 'Bob', 'Sam'])).toEqual('Suits the tastes of Alice and Sam');
+    expect(describeGroupPick(['Alice', 'Bob', 'Sam'], ['Alice', 'Bob', 'Sam'])).toEqual('Suits everyone: Alice, Bob and Sam');
+    expect(describeGroupPick(['Alice'], ['Alice'])).toEqual('Suits the tastes of Alice');
+    expect(describeGroupPick([], ['Alice', 'Bob'])).toEqual('A compromise for Alice and Bob');
+  });
+});
+
+describe('votesNeeded', () => {
+  it('should default to every member and never exceed the group', () => {
+    expect(votesNeeded(null, 4)).toEqual(4);
+    expect(votesNeeded(2, 4)).toEqual(2);
+    expect(votesNeeded(5, 3)).toEqual(3);
+  });
+});
+
+describe('decidedTitles', () => {
+  it('should decide titles everyone voted on or that passes put out of reach', () => {
+    const votes = [
+      // Title 1: everyone voted
+      { member_id: 1, media_item_id: 1, vote: 'like' as const },
+      { member_id: 2, media_item_id: 1, vote: 'like' as const },
+      { member_id: 3, media_item_id: 1, vote: 'pass' as const },
+      // Title 2: two passes leave only one possible like, short of a quorum of two
+      { member_id: 1, media_item_id: 2, vote: 'pass' as const },
+      { member_id: 2, media_item_id: 2, vote: 'pass' as const },
+      // Title 3: one pass, the other two can still match it
+      { member_id: 1, media_item_id: 3, vote: 'pass' as const },
+      // Title 4: the passes came from a member who has left
+      { member_id: 9, media_item_id: 4, vote: 'pass' as const },
+      { member_id: 8, media_item_id: 4, vote: 'pass' as const }
+    ];
+
+    expect(decidedTitles(votes, [1, 2, 3], 2).sort()).toEqual([1, 2]);
+    expect(decidedTitles(votes, [1, 2, 3], 3).sort()).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userProfilesTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+import { joinGroupSession } from '../handlers/join_group_session';
+import { getGroupSession } from '../handlers/get_group_session';
+
+describe('joinGroupSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should add users and guest sessions in the order they join', async () => {
+    const [bob] = await db.insert(userProfilesTable)
+      .values({ username: 'bob', email: 'bob@example.com' })
+      .returning()
+      .execute();
+    const created = await createGroupSession({ session_id: 'guest_host', name: 'Movie night' });
+
+    await joinGroupSession({ code: created.code, user_id: bob.id });
+    const group = await joinGroupSession({ code: created.code, session_id: 'guest_other' });
+
+    expect(group.id).toEqual(created.id);
+    // Guests without a name are numbered
+    expect(group.members.map(member => member.display_name)).toEqual(['Guest 1', 'bob', 'Guest 3']);
+  });
+
+  it('should not add the same member twice', async () => {
+    const created = await createGroupSession({ session_id: 'guest_host', name: 'Movie night' });
+
+    await joinGroupSession({ code: created.code, session_id: 'guest_host' });
+
+    const group = await getGroupSession({ group_session_id: created.id });
+    expect(group.members).toHaveLength(1);
+  });
+
+  it('should reject unknown codes and missing owners', async () => {
+    const created = await createGroupSession({ session_id: 'guest_host', name: 'Movie night' });
+
+    await expect(joinGroupSession({ code: 'NOPE', session_id: 'guest_other' })).rejects.toThrow(/Group session with code NOPE does not exist/);
+    await expect(joinGroupSession({ code: created.code })).rejects.toThrow(/Either user_id or session_id must be provided/);
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { genresTable, mediaItemGenresTable, mediaItemsTable } from '../db/schema';
+import { genresByName, listGenres, repairMediaItemGenreArrays, resolveGenres, setMediaItemGenres, syncGenres } from '../handlers/list_genres';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+import { createMediaItem } from '../handlers/create_media_item';
+import { eq } from 'drizzle-orm';
+
+const fixtures = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+describe('listGenres', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should sync the movie and TV genre lists and list them by name', async () => {
+    const all = await listGenres({ media_type: 'all' });
+    const tv = await listGenres({ media_type: 'tv' });
+
+    expect(all).toHaveLength(27);
+    expect(all[0].name).toEqual('Action');
+    expect(all.find(genre => genre.tmdb_id === 18)).toMatchObject({ name: 'Drama', canonical_name: 'Drama', media_types: ['movie', 'tv'] });
+    expect(tv.map(genre => genre.name)).toContain('Sci-Fi & Fantasy');
+    expect(tv.map(genre => genre.name)).not.toContain('Science Fiction');
+  });
+
+  it('should list localized names alongside the canonical ones', async () => {
+    const genres = await listGenres({ media_type: 'movie', language: 'de-DE' });
+
+    expect(genres.find(genre => genre.tmdb_id === 35)).toMatchObject({ name: 'Komödie', canonical_name: 'Comedy' });
+    expect(genres.find(genre => genre.tmdb_id === 10749)).toMatchObject({ name: 'Liebesfilm', canonical_name: 'Romance' });
+    // Genre IDs stay the same whatever the language
+    const english = await listGenres({ media_type: 'movie' });
+    expect(english.map(genre => genre.id).sort()).toEqual(genres.map(genre => genre.id).sort());
+  });
+
+  it('should serve the stored list without syncing while it is fresh, or when the provider is down', async () => {
+    await listGenres({ media_type: 'all' });
+    const genres = mock(() => Promise.reject(new Error('Network unreachable')));
+    setMetadataProvider({ ...fixtures, genres } as MetadataProvider);
+
+    expect(await listGenres({ media_type: 'all' })).toHaveLength(27);
+    expect(genres).not.toHaveBeenCalled();
+
+    await db.update(genresTable).set({ synced_at: new Date('2000-01-01') }).execute();
+    expect(await listGenres({ media_type: 'all' })).toHaveLength(27);
+    expect(genres).toHaveBeenCalled();
+  });
+
+  it('should not sync again because of genres no sync has listed', async () => {
+    await listGenres({ media_type: 'all' });
+    await genresByName(['Anime'], 'tv');
+    const genres = mock(fixtures.genres);
+    setMetadataProvider({ ...fixtures, genres } as MetadataProvider);
+
+    expect(await listGenres({ media_type: 'tv' })).toContainEqual(expect.objectContaining({ name: 'Anime', tmdb_id: null }));
+    expect(genres).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveGenres', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should sync unknown genre IDs and leave out IDs the provider does not know', async () => {
+    const genres = await resolveGenres([878, 28, 99999]);
+
+    expect(genres.map(genre => genre.name)).toEqual(['Science Fiction', 'Action']);
+  });
+
+  it('should store list results with their genre names and links', async () => {
+    const [listed] = await fixtures.search('The Matrix', 'movie', 1);
+
+    const matrix = await createMediaItem(listed);
+
+    expect(matrix.genres).toEqual(['Action', 'Science Fiction']);
+    const links = await db.select({ name: genresTable.name, position: mediaItemGenresTable.position })
+      .from(mediaItemGenresTable)
+      .innerJoin(genresTable, eq(mediaItemGenresTable.genre_id, genresTable.id))
+      .where(eq(mediaItemGenresTable.media_item_id, matrix.id))
+      .orderBy(mediaItemGenresTable.position)
+      .execute();
+    expect(links).toEqual([{ name: 'Action', position: 0 }, { name: 'Science Fiction', position: 1 }]);
+  });
+
+  it('should fall back to the standard genres when the genre list cannot be reached', async () => {
+    setMetadataProvider({ ...fixtures, genres: () => Promise.reject(new Error('Network unreachable')) } as MetadataProvider);
+    const [listed] = await fixtures.search('The Matrix', 'movie', 1);
+
+    const matrix = await createMediaItem(listed);
+
+    expect(listed.genres).toEqual([]);
+    expect(matrix.genres).toEqual(['Action', 'Science Fiction']);
+    expect(await db.select().from(mediaItemGenresTable).execute()).toHaveLength(2);
+    expect(await resolveGenres([878, 99999])).toMatchObject([{ tmdb_id: 878, name: 'Science Fiction' }]);
+  });
+
+  it('should replace fallback genres on the next sync', async () => {
+    setMetadataProvider({ ...fixtures, genres: () => Promise.reject(new Error('Network unreachable')) } as MetadataProvider);
+    await resolveGenres([35]);
+    setMetadataProvider(fixtures);
+
+    const genres = await listGenres({ media_type: 'movie', language: 'de-DE' });
+
+    expect(genres.find(genre => genre.tmdb_id === 35)).toMatchObject({ name: 'Komödie', canonical_name: 'Comedy' });
+    const [comedy] = await db.select().from(genresTable).where(eq(genresTable.tmdb_id, 35)).execute();
+    expect(comedy.synced_at.getTime()).toBeGreaterThan(0);
+  });
+});
+
+describe('genresByName', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should keep names no genre has as genres of their own until a sync lists them', async () => {
+    const [action, anime] = await genresByName(['Action', 'Anime'], 'tv');
+    expect(action).toMatchObject({ tmdb_id: 28, name: 'Action' });
+    expect(anime).toMatchObject({ tmdb_id: null, name: 'Anime', media_types: ['tv'] });
+    expect(await genresByName(['Anime'], 'movie')).toEqual([anime]);
+
+    setMetadataProvider({
+      ...fixtures,
+      genres: async (mediaType, language) => [...await fixtures.genres(mediaType, language), { id: 99001, name: 'Anime' }]
+    } as MetadataProvider);
+    await syncGenres();
+
+    const [listed] = await genresByName(['Anime'], 'tv');
+    expect(listed).toMatchObject({ id: anime.id, tmdb_id: 99001, media_types: ['movie', 'tv'] });
+  });
+});
+
+describe('setMediaItemGenres', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should rewrite the genres array from the links, following renamed genres', async () => {
+    const [listed] = await fixtures.search('The Matrix', 'movie', 1);
+    const matrix = await createMediaItem(listed);
+    await db.update(mediaItemsTable).set({ genres: ['Out of step'] }).where(eq(mediaItemsTable.id, matrix.id)).execute();
+
+    const [scienceFiction, action] = await resolveGenres([878, 28]);
+    const relinked = await setMediaItemGenres(matrix.id, [scienceFiction, action]);
+    expect(relinked.genres).toEqual(['Science Fiction', 'Action']);
+
+    setMetadataProvider({
+      ...fixtures,
+      genres: async (mediaType, language) => (await fixtures.genres(mediaType, language))
+        .map(genre => genre.id === 878 ? { ...genre, name: 'Sci-Fi' } : genre)
+    } as MetadataProvider);
+    await syncGenres();
+
+    const [renamed] = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.id, matrix.id)).execute();
+    expect(renamed.genres).toEqual(['Sci-Fi', 'Action']);
+  });
+
+  it('should repair genres arrays that drifted from their links and leave unlinked items alone', async () => {
+    const [listed] = await fixtures.search('The Matrix', 'movie', 1);
+    const matrix = await createMediaItem(listed);
+    const [unlinked] = await db.insert(mediaItemsTable)
+      .values({ ...listed, tmdb_id: 1, genres: ['Drama'], vote_average: '7.0', popularity: '10.0' })
+      .returning()
+      .execute();
+    await db.update(mediaItemsTable).set({ genres: ['Out of step'] }).where(eq(mediaItemsTable.id, matrix.id)).execute();
+
+    expect(await repairMediaItemGenreArrays()).toEqual(1);
+    expect(await repairMediaItemGenreArrays()).toEqual(0);
+
+    const [repaired] = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.id, matrix.id)).execute();
+    const [untouched] = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.id, unlinked.id)).execute();
+    expect(repaired.genres).toEqual(['Action', 'Science Fiction']);
+    expect(untouched.genres).toEqual(['Drama']);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import { detailsAreStale, detailsMaxAgeDays, directorNames, ACTIVE_DETAILS_MAX_AGE_DAYS, SETTLED_DETAILS_MAX_AGE_DAYS, UNKNOWN_STATUS_DETAILS_MAX_AGE_DAYS } from '../lib/media_details';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('detailsAreStale', () => {
+  it('should treat details that were never fetched as stale', () => {
+    expect(detailsAreStale({ status: 'Released', details_fetched_at: null }, now)).toBe(true);
+  });
+
+  it('should refresh running shows more often than finished titles', () => {
+    expect(detailsMaxAgeDays('Released')).toEqual(SETTLED_DETAILS_MAX_AGE_DAYS);
+    expect(detailsMaxAgeDays('Returning Series')).toEqual(ACTIVE_DETAILS_MAX_AGE_DAYS);
+    expect(detailsMaxAgeDays(null)).toEqual(UNKNOWN_STATUS_DETAILS_MAX_AGE_DAYS);
+
+    expect(detailsAreStale({ status: 'Ended', details_fetched_at: daysAgo(2) }, now)).toBe(false);
+    expect(detailsAreStale({ status: 'Returning Series', details_fetched_at: daysAgo(2) }, now)).toBe(true);
+    expect(detailsAreStale({ status: 'Released', details_fetched_at: daysAgo(SETTLED_DETAILS_MAX_AGE_DAYS) }, now)).toBe(true);
+  });
+});
+
+describe('directorNames', () => {
+  it('should list directors once each, in credit order', () => {
+    const crew = [
+      { name: 'Christopher Nolan', job: 'Director' },
+      { name: 'Emma Thomas', job: 'Producer' },
+      { name: 'Christopher Nolan', job: 'Screenplay' },
+      { name: 'Christopher Nolan', job: 'Director' }
+    ];
+
+    expect(directorNames(crew)).toEqual(['Christopher Nolan']);
+  });
+
+  it('should fall back to creators when nobody is credited as director', () => {
+    expect(directorNames([{ name: 'Vince Gilligan', job: 'Creator' }, { name: 'Dave Porter', job: 'Original Music Composer' }]))
+      .toEqual(['Vince Gilligan']);
+    expect(directorNames([{ name: 'A Creator', job: 'Creator' }, { name: 'A Director', job: 'Director' }]))
+      .toEqual(['A Director']);
+  });
+});
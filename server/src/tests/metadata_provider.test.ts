@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { getMetadataProvider, setMetadataProvider, type MetadataProvider } from '../providers/metadata_provider';
+
+describe('getMetadataProvider', () => {
+  afterEach(() => {
+    delete process.env['METADATA_PROVIDER'];
+    setMetadataProvider(null);
+  });
+
+  it('should use TMDB unless configured otherwise', () => {
+    expect(getMetadataProvider().name).toEqual('tmdb');
+
+    process.env['METADATA_PROVIDER'] = 'fixtures';
+    expect(getMetadataProvider().name).toEqual('fixtures');
+  });
+
+  it('should reject unknown providers', () => {
+    process.env['METADATA_PROVIDER'] = 'imdb';
+
+    expect(() => getMetadataProvider()).toThrow(/Unknown metadata provider: imdb/);
+  });
+
+  it('should prefer a provider set explicitly', () => {
+    const provider = { name: 'custom' } as MetadataProvider;
+    setMetadataProvider(provider);
+
+    expect(getMetadataProvider()).toBe(provider);
+  });
+});
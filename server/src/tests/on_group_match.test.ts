@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable } from '../db/schema';
+import { createGroupSession } from '../handlers/create_group_session';
+import { joinGroupSession } from '../handlers/join_group_session';
+import { castGroupVote } from '../handlers/cast_group_vote';
+import { onGroupMatch } from '../handlers/on_group_match';
+import { groupMatchSubscriptionInputSchema } from '../schema';
+
+const testMediaItem = (tmdbId: number, title: string) => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: `${title} overview`,
+  release_date: '2020-01-01',
+  genres: ['Comedy'],
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+describe('onGroupMatch', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const setUp = async () => {
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1, 'First Match'), testMediaItem(2, 'Second Match')])
+      .returning()
+      .execute();
+    const created = await createGroupSession({ session_id: 'guest_a', name: 'Sofa' });
+    const group = await joinGroupSession({ code: created.code, session_id: 'guest_b' });
+    const match = async (mediaItemId: number) => {
+      for (const sessionId of ['guest_a', 'guest_b']) {
+        await castGroupVote({ group_session_id: group.id, session_id: sessionId, media_item_id: mediaItemId, vote: 'like' });
+      }
+    };
+    return { group, media, match };
+  };
+
+  it('should stream matches as they are made and stop when aborted', async () => {
+    const { group, media, match } = await setUp();
+    const controller = new AbortController();
+    const stream = onGroupMatch({ group_session_id: group.id }, controller.signal);
+
+    const next = stream.next();
+    await Bun.sleep(10); // Let the subscription start listening
+    await match(media[0].id);
+    const received = await next;
+
+    expect(received.done).toBe(false);
+    expect(received.value!.media_item.title).toEqual('First Match');
+
+    const ended = stream.next();
+    controller.abort();
+    expect((await ended).done).toBe(true);
+  });
+
+  it('should replay matches missed since the last one received', async () => {
+    const { group, media, match } = await setUp();
+    await match(media[0].id);
+    await match(media[1].id);
+
+    const all = onGroupMatch({ group_session_id: group.id, lastEventId: '0' });
+    const firstMatch = (await all.next()).value!;
+    await all.return(undefined);
+    const resumed = onGroupMatch({ group_session_id: group.id, lastEventId: String(firstMatch.id) });
+    const missed = (await resumed.next()).value!;
+    await resumed.return(undefined);
+
+    expect(firstMatch.media_item.title).toEqual('First Match');
+    expect(missed.media_item.title).toEqual('Second Match');
+  });
+
+  it('should only accept match ids as the last event id', () => {
+    expect(groupMatchSubscriptionInputSchema.safeParse({ group_session_id: 1, lastEventId: '42' }).success).toBe(true);
+    expect(groupMatchSubscriptionInputSchema.safeParse({ group_session_id: 1, lastEventId: null }).success).toBe(true);
+    expect(groupMatchSubscriptionInputSchema.safeParse({ group_session_id: 1, lastEventId: 'abc' }).success).toBe(false);
+    expect(groupMatchSubscriptionInputSchema.safeParse({ group_session_id: 1, lastEventId: '' }).success).toBe(false);
+  });
+
+  it('should reject unknown groups', async () => {
+    await expect(onGroupMatch({ group_session_id: 99999 }).next()).rejects.toThrow(/Group session with id 99999 does not exist/);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'bun:test';
+import { balanceByGenre, onboardingStrength, ONBOARDING_FADE_INTERACTIONS } from '../lib/onboarding';
+
+describe('balanceByGenre', () => {
+  const candidates = [
+    { id: 1, genres: ['Action'] },
+    { id: 2, genres: ['Action', 'Comedy'] },
+    { id: 3, genres: ['Action'] },
+    { id: 4, genres: ['Comedy'] },
+    { id: 5, genres: ['Drama'] },
+    { id: 6, genres: ['Comedy'] }
+  ];
+
+  it('should take turns between primary genres', () => {
+    expect(balanceByGenre(candidates, 6).map(c => c.id)).toEqual([1, 4, 5, 2, 6, 3]);
+  });
+
+  it('should stop at the limit', () => {
+    expect(balanceByGenre(candidates, 4).map(c => c.id)).toEqual([1, 4, 5, 2]);
+    expect(balanceByGenre(candidates, 10)).toHaveLength(6);
+    expect(balanceByGenre([], 5)).toEqual([]);
+  });
+});
+
+describe('onboardingStrength', () => {
+  it('should fade out as real interactions accumulate', () => {
+    expect(onboardingStrength(0)).toEqual(1);
+    expect(onboardingStrength(ONBOARDING_FADE_INTERACTIONS / 2)).toEqual(0.5);
+    expect(onboardingStrength(ONBOARDING_FADE_INTERACTIONS)).toEqual(0);
+    expect(onboardingStrength(ONBOARDING_FADE_INTERACTIONS * 3)).toEqual(0);
+  });
+});
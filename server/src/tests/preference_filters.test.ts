@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test';
+import { matchesPreferences, type ContentFilters, type FilterableItem } from '../lib/preference_filters';
+
+const noFilters: ContentFilters = {
+  excluded_genres: [],
+  allowed_languages: [],
+  min_release_year: null,
+  max_release_year: null,
+  min_vote_average: null,
+  min_vote_count: null,
+  include_adult: false
+};
+
+const item = (overrides: Partial<FilterableItem> = {}): FilterableItem => ({
+  genres: ['Drama'],
+  original_language: 'en',
+  release_date: '2010-05-01',
+  vote_average: 7.0,
+  vote_count: 500,
+  adult: false,
+  ...overrides
+});
+
+describe('matchesPreferences', () => {
+  it('should allow everything but adult titles without filters', () => {
+    expect(matchesPreferences(item(), noFilters)).toBe(true);
+    expect(matchesPreferences(item({ adult: true }), noFilters)).toBe(false);
+    expect(matchesPreferences(item({ adult: true }), { ...noFilters, include_adult: true })).toBe(true);
+  });
+
+  it('should drop excluded genres and disallowed languages', () => {
+    const filters = { ...noFilters, excluded_genres: ['Animation'], allowed_languages: ['en', 'ko'] };
+
+    expect(matchesPreferences(item({ genres: ['Animation', 'Drama'] }), filters)).toBe(false);
+    expect(matchesPreferences(item({ original_language: 'ja' }), filters)).toBe(false);
+    expect(matchesPreferences(item({ original_language: 'ko' }), filters)).toBe(true);
+  });
+
+  it('should enforce release year bounds, excluding undated items', () => {
+    const filters = { ...noFilters, min_release_year: 2000, max_release_year: 2010 };
+
+    expect(matchesPreferences(item({ release_date: '2000-01-01' }), filters)).toBe(true);
+    expect(matchesPreferences(item({ release_date: '2010-12-31' }), filters)).toBe(true);
+    expect(matchesPreferences(item({ release_date: '1999-12-31' }), filters)).toBe(false);
+    expect(matchesPreferences(item({ release_date: '2011-01-01' }), filters)).toBe(false);
+    expect(matchesPreferences(item({ release_date: null }), filters)).toBe(false);
+  });
+
+  it('should enforce minimum ratings and vote counts', () => {
+    const filters = { ...noFilters, min_vote_average: 7.5, min_vote_count: 100 };
+
+    expect(matchesPreferences(item({ vote_average: 7.5, vote_count: 100 }), filters)).toBe(true);
+    expect(matchesPreferences(item({ vote_average: 7.4 }), filters)).toBe(false);
+    expect(matchesPreferences(item({ vote_average: 9, vote_count: 99 }), filters)).toBe(false);
+  });
+});
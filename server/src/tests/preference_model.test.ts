@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  addFavouriteGenres,
+  buildPreferenceModel,
+  BASE_SCORE,
+  signalDecay,
+  netWeight,
+  preferredMediaTypes,
+  scoreCandidate,
+  type PreferenceSignal,
+  type ScoringCandidate
+} from '../lib/preference_model';
+
+const likedThriller: PreferenceSignal = {
+  media_item_id: 1,
+  interaction_type: 'like',
+  title: 'Liked Thriller',
+  genres: ['Thriller', 'Crime'],
+  media_type: 'movie',
+  original_language: 'en'
+};
+
+const dislikedHorror: PreferenceSignal = {
+  media_item_id: 2,
+  interaction_type: 'dislike',
+  title: 'Disliked Horror',
+  genres: ['Horror', 'Thriller'],
+  media_type: 'movie',
+  original_language: 'en'
+};
+
+const dislikedKoreanShow: PreferenceSignal = {
+  media_item_id: 3,
+  interaction_type: 'watched_disliked',
+  title: 'Disliked Show',
+  genres: ['Horror'],
+  media_type: 'tv',
+  original_language: 'ko'
+};
+
+const candidate = (overrides: Partial<ScoringCandidate>): ScoringCandidate => ({
+  genres: [],
+  media_type: 'movie',
+  original_language: 'en',
+  vote_average: 6.0,
+  popularity: 10,
+  ...overrides
+});
+
+describe('buildPreferenceModel', () => {
+  it('should accumulate positive and negative weights per feature', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedHorror, dislikedKoreanShow]);
+
+    expect(netWeight(model.genres.get('Crime'))).toEqual(1);
+    expect(netWeight(model.genres.get('Thriller'))).toEqual(0);
+    expect(netWeight(model.genres.get('Horror'))).toEqual(-2.5); // Watched and disliked counts more
+    expect(netWeight(model.media_types.get('tv'))).toEqual(-1.5);
+    expect(netWeight(model.languages.get('ko'))).toEqual(-1.5);
+    expect(model.genres.get('Horror')!.disliked_titles).toEqual(['Disliked Horror', 'Disliked Show']);
+    expect(model.liked_items).toHaveLength(1);
+    expect(model.disliked_items).toHaveLength(2);
+  });
+
+  it('should count watching and liking more than a plain like', () => {
+    const model = buildPreferenceModel([
+      likedThriller,
+      { ...likedThriller, media_item_id: 4, interaction_type: 'watched_liked', genres: ['Drama'] }
+    ]);
+
+    expect(netWeight(model.genres.get('Drama'))).toBeGreaterThan(netWeight(model.genres.get('Crime')));
+  });
+
+  it('should list each liked title once per feature', () => {
+    const model = buildPreferenceModel([
+      likedThriller,
+      { ...likedThriller, interaction_type: 'watched_liked' }
+    ]);
+
+    expect(model.genres.get('Crime')!.liked_titles).toEqual(['Liked Thriller']);
+    expect(model.media_types.get('movie')!.liked_titles).toEqual(['Liked Thriller']);
+  });
+
+  it('should weigh favourite genres without passing them off as liked titles', () => {
+    const model = buildPreferenceModel([likedThriller]);
+    addFavouriteGenres(model, ['Crime', 'Comedy'], 1);
+
+    expect(netWeight(model.genres.get('Comedy'))).toEqual(1);
+    expect(model.genres.get('Comedy')!.liked_titles).toEqual([]);
+    expect(model.genres.get('Crime')!.liked_titles).toEqual(['Liked Thriller']);
+    const score = scoreCandidate(candidate({ genres: ['Comedy'] }), model);
+    expect(score.explanation.factors[0]).toMatchObject({ kind: 'genre', label: 'Comedy', titles: [] });
+    expect(score.reason).toStartWith('Because of genres you enjoy: Comedy');
+  });
+
+  it('should ignore watchlist interactions', () => {
+    const model = buildPreferenceModel([
+      { ...likedThriller, interaction_type: 'add_to_watchlist' },
+      { ...dislikedHorror, interaction_type: 'remove_from_watchlist' }
+    ]);
+
+    expect(model.genres.size).toEqual(0);
+    expect(model.liked_items).toHaveLength(0);
+    expect(model.disliked_items).toHaveLength(0);
+  });
+
+  it('should only report media types with a net positive preference', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedKoreanShow]);
+
+    expect(preferredMediaTypes(model)).toEqual(['movie']);
+  });
+});
+
+describe('scoreCandidate', () => {
+  it('should penalise candidates in disliked genres', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedHorror]);
+
+    const crime = scoreCandidate(candidate({ genres: ['Crime'] }), model);
+    const horror = scoreCandidate(candidate({ genres: ['Horror'] }), model);
+
+    expect(crime.score).toBeGreaterThan(horror.score);
+    expect(horror.reason).toContain('fewer Horror because you disliked "Disliked Horror"');
+    expect(crime.reason).toContain('genres you enjoy: Crime');
+  });
+
+  it('should not boost a genre that is liked and disliked equally', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedHorror]);
+
+    const thriller = scoreCandidate(candidate({ genres: ['Thriller'] }), model);
+    const unknown = scoreCandidate(candidate({ genres: ['Documentary'] }), model);
+
+    expect(thriller.score).toEqual(unknown.score);
+  });
+
+  it('should penalise disliked media types and languages', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedKoreanShow]);
+
+    const movie = scoreCandidate(candidate({ media_type: 'movie', original_language: 'en' }), model);
+    const show = scoreCandidate(candidate({ media_type: 'tv', original_language: 'ko' }), model);
+
+    expect(movie.score).toBeGreaterThan(show.score);
+    expect(show.reason).toContain('fewer tvs because you disliked "Disliked Show"');
+  });
+
+  it('should keep scores within [0, 1]', () => {
+    const model = buildPreferenceModel([dislikedHorror, dislikedKoreanShow]);
+
+    const worst = scoreCandidate(candidate({ genres: ['Horror', 'Thriller'], media_type: 'tv', original_language: 'ko' }), model);
+    const best = scoreCandidate(candidate({ genres: ['Crime'], vote_average: 9.5, popularity: 100 }), buildPreferenceModel([likedThriller]));
+
+    expect(worst.score).toEqual(0);
+    expect(best.score).toBeLessThanOrEqual(1);
+  });
+
+  it('should explain the score with weighted factors and the liked items behind them', () => {
+    const model = buildPreferenceModel([likedThriller, dislikedHorror]);
+
+    const result = scoreCandidate(candidate({ genres: ['Crime', 'Horror'], vote_average: 8.5 }), model);
+    const { factors, liked_items, matched_genres } = result.explanation;
+
+    expect(matched_genres).toEqual(['Crime']);
+    expect(liked_items).toEqual([{ media_item_id: 1, title: 'Liked Thriller' }]);
+    expect(factors.map(factor => [factor.kind, factor.label])).toContainEqual(['genre', 'Crime']);
+    expect(factors.find(factor => factor.label === 'Horror')!.weight).toBeLessThan(0);
+    expect(factors.find(factor => factor.kind === 'rating')!.label).toEqual('highly rated (8.5/10)');
+    expect(result.score).toBeCloseTo(BASE_SCORE + factors.reduce((sum, factor) => sum + factor.weight, 0), 10);
+  });
+});
+
+describe('time decay', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it('should halve the weight of a signal every half-life', () => {
+    expect(signalDecay(daysAgo(2), { now, half_life_days: 30 })).toBeCloseTo(0.9548, 4);
+    expect(signalDecay(daysAgo(30), { now, half_life_days: 30 })).toBeCloseTo(0.5, 10);
+    expect(signalDecay(daysAgo(90), { now, half_life_days: 30 })).toBeCloseTo(0.125, 10);
+    expect(signalDecay(undefined, { now })).toEqual(1);
+  });
+
+  it('should boost signals from the current mood window', () => {
+    expect(signalDecay(daysAgo(0.5), { now, half_life_days: 30 })).toBeGreaterThan(1.9);
+    expect(signalDecay(daysAgo(1.5), { now, half_life_days: 30 })).toBeLessThan(1);
+  });
+
+  it('should let a recent like outweigh an old one', () => {
+    const model = buildPreferenceModel([
+      { ...likedThriller, genres: ['Western'], occurred_at: daysAgo(3 * 365) },
+      { ...likedThriller, media_item_id: 4, genres: ['Comedy'], occurred_at: daysAgo(3) }
+    ], { now, half_life_days: 90 });
+
+    expect(netWeight(model.genres.get('Western'))).toBeLessThan(0.01);
+    expect(netWeight(model.genres.get('Comedy'))).toBeGreaterThan(0.9);
+  });
+
+  it('should let a recent session shift the mood against older taste', () => {
+    const history: PreferenceSignal[] = [
+      { ...likedThriller, genres: ['Drama'], occurred_at: daysAgo(20) },
+      { ...likedThriller, media_item_id: 4, genres: ['Drama'], occurred_at: daysAgo(25) },
+      { ...likedThriller, media_item_id: 5, genres: ['Comedy'], occurred_at: daysAgo(0.1) }
+    ];
+    const model = buildPreferenceModel(history, { now, half_life_days: 30 });
+
+    const drama = scoreCandidate(candidate({ genres: ['Drama'] }), model).score;
+    const comedy = scoreCandidate(candidate({ genres: ['Comedy'] }), model).score;
+    expect(comedy).toBeGreaterThanOrEqual(drama);
+    expect(netWeight(model.genres.get('Comedy'))).toBeGreaterThan(netWeight(model.genres.get('Drama')));
+  });
+});
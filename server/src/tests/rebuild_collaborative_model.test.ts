@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userProfilesTable, mediaItemsTable, userInteractionsTable, itemCooccurrencesTable } from '../db/schema';
+import { rebuildCollaborativeModel } from '../handlers/rebuild_collaborative_model';
+import { eq } from 'drizzle-orm';
+
+const testMediaItem = (tmdbId: number, title: string) => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: `${title} overview`,
+  release_date: '2023-01-01',
+  genres: ['Drama'],
+  vote_average: '7.0',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+describe('rebuildCollaborativeModel', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should build item pairs from likes of users and guest sessions', async () => {
+    const users = await db.insert(userProfilesTable)
+      .values([
+        { username: 'alice', email: 'alice@example.com' },
+        { username: 'bob', email: 'bob@example.com' }
+      ])
+      .returning()
+      .execute();
+
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1, 'First'), testMediaItem(2, 'Second'), testMediaItem(3, 'Third')])
+      .returning()
+      .execute();
+
+    await db.insert(userInteractionsTable)
+      .values([
+        { user_id: users[0].id, session_id: null, media_item_id: media[0].id, interaction_type: 'like' },
+        { user_id: users[0].id, session_id: null, media_item_id: media[1].id, interaction_type: 'watched_liked' },
+        { user_id: null, session_id: 'guest_1', media_item_id: media[0].id, interaction_type: 'like' },
+        { user_id: null, session_id: 'guest_1', media_item_id: media[1].id, interaction_type: 'like' },
+        // Dislikes are not evidence of shared taste
+        { user_id: users[1].id, session_id: null, media_item_id: media[0].id, interaction_type: 'dislike' },
+        { user_id: users[1].id, session_id: null, media_item_id: media[2].id, interaction_type: 'dislike' }
+      ])
+      .execute();
+
+    const summary = await rebuildCollaborativeModel();
+
+    expect(summary.owners).toEqual(2);
+    expect(summary.pairs).toEqual(2);
+    expect(summary.rebuilt_at).toBeInstanceOf(Date);
+
+    const pairs = await db.select()
+      .from(itemCooccurrencesTable)
+      .where(eq(itemCooccurrencesTable.media_item_id, media[0].id))
+      .execute();
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].related_media_item_id).toEqual(media[1].id);
+    expect(pairs[0].co_count).toEqual(2);
+    expect(parseFloat(pairs[0].similarity)).toEqual(1);
+  });
+
+  it('should replace the previous model', async () => {
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1, 'First'), testMediaItem(2, 'Second')])
+      .returning()
+      .execute();
+
+    await db.insert(itemCooccurrencesTable)
+      .values({
+        media_item_id: media[0].id,
+        related_media_item_id: media[1].id,
+        co_count: 10,
+        similarity: '0.5000'
+      })
+      .execute();
+
+    const summary = await rebuildCollaborativeModel();
+
+    expect(summary.owners).toEqual(0);
+    expect(summary.pairs).toEqual(0);
+
+    const pairs = await db.select().from(itemCooccurrencesTable).execute();
+    expect(pairs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, mediaItemVectorsTable, termDocumentFrequenciesTable } from '../db/schema';
+import { type CreateMediaItemInput } from '../schema';
+import { createMediaItem } from '../handlers/create_media_item';
+import { loadTextVectors, rebuildTextVectors } from '../handlers/rebuild_text_vectors';
+import { getSimilarItems } from '../handlers/get_similar_items';
+import { eq } from 'drizzle-orm';
+
+const testMediaItem = (tmdbId: number, title: string, overview: string, genres: string[] = ['Mystery']): CreateMediaItemInput => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie',
+  poster_path: null,
+  backdrop_path: null,
+  overview,
+  release_date: '2020-01-01',
+  genres,
+  vote_average: 7.0,
+  vote_count: 100,
+  popularity: 10.0,
+  adult: false,
+  original_language: 'en'
+});
+
+const documentFrequencies = async () => {
+  const rows = await db.select().from(termDocumentFrequenciesTable).execute();
+  return Object.fromEntries(rows.map(row => [row.term, row.document_count]));
+};
+
+describe('text vectors', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store term counts and document frequencies when a media item is created', async () => {
+    const first = await createMediaItem(testMediaItem(1, 'Harbour', 'A detective returns to the harbour town'));
+    await createMediaItem(testMediaItem(2, 'Orchard', 'A detective visits an orchard'));
+
+    const vectors = await db.select()
+      .from(mediaItemVectorsTable)
+      .where(eq(mediaItemVectorsTable.media_item_id, first.id))
+      .execute();
+
+    expect(vectors[0].term_counts).toEqual({ harbour: 2, detective: 1, returns: 1, town: 1 });
+    expect(await documentFrequencies()).toMatchObject({ detective: 2, harbour: 1, orchard: 1 });
+  });
+
+  it('should refresh the vector and frequencies when a media item is updated', async () => {
+    await createMediaItem(testMediaItem(1, 'Harbour', 'A detective returns to the harbour town'));
+    const updated = await createMediaItem(testMediaItem(1, 'Harbour', 'A baker opens a shop by the harbour'));
+
+    const vectors = await db.select()
+      .from(mediaItemVectorsTable)
+      .where(eq(mediaItemVectorsTable.media_item_id, updated.id))
+      .execute();
+    const frequencies = await documentFrequencies();
+
+    expect(vectors).toHaveLength(1);
+    expect(vectors[0].term_counts).toEqual({ harbour: 2, baker: 1, opens: 1, shop: 1 });
+    expect(frequencies['detective']).toBeUndefined();
+    expect(frequencies['harbour']).toEqual(1);
+    expect(frequencies['baker']).toEqual(1);
+  });
+
+  it('should rebuild vectors for items saved without one', async () => {
+    await db.insert(mediaItemsTable)
+      .values([
+        { ...testMediaItem(1, 'Harbour', 'A detective story'), vote_average: '7.0', popularity: '10.0' },
+        { ...testMediaItem(2, 'Orchard', 'A detective story'), vote_average: '7.0', popularity: '10.0' }
+      ])
+      .execute();
+
+    const summary = await rebuildTextVectors();
+
+    expect(summary.items).toEqual(2);
+    expect(summary.terms).toEqual(4); // harbour, orchard, detective, story
+    expect(summary.rebuilt_at).toBeInstanceOf(Date);
+    expect(await documentFrequencies()).toEqual({ harbour: 1, orchard: 1, detective: 2, story: 2 });
+  });
+
+  it('should weight rare terms above common ones and vectorise unsaved items on the fly', async () => {
+    await createMediaItem(testMediaItem(1, 'Harbour', 'A detective story'));
+    await createMediaItem(testMediaItem(2, 'Orchard', 'A detective story'));
+    const [unsaved] = await db.insert(mediaItemsTable)
+      .values({ ...testMediaItem(3, 'Lantern', 'A detective story'), vote_average: '7.0', popularity: '10.0' })
+      .returning()
+      .execute();
+
+    const vectors = await loadTextVectors([unsaved]);
+    const vector = vectors.get(unsaved.id)!;
+
+    expect(vector.get('lantern')).toBeGreaterThan(vector.get('detective')!);
+    expect(vector.get('orchard')).toBeUndefined();
+  });
+
+  it('should let shared rare terms outweigh shared common terms in similar items', async () => {
+    const source = await createMediaItem(testMediaItem(1, 'Cosy Village', 'A detective story in a cosy village bakery'));
+    const procedural = await createMediaItem(testMediaItem(2, 'Precinct', 'A gritty detective story'));
+    const cosy = await createMediaItem(testMediaItem(3, 'Teashop', 'Murders in a cosy teashop'));
+    // Many other titles are detective stories, so those words say little about a title
+    for (let i = 0; i < 8; i++) {
+      await createMediaItem(testMediaItem(100 + i, `Case ${i}`, 'Another detective story', ['Crime']));
+    }
+
+    const results = await getSimilarItems({ media_item_id: source.id, limit: 2 });
+
+    expect(results.map(item => item.id)).toEqual([cosy.id, procedural.id]);
+  });
+});
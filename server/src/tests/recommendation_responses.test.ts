@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  buildResponseExclusions,
+  franchiseKey,
+  isExcluded,
+  type RecommendationHistory
+} from '../lib/recommendation_responses';
+
+const now = new Date('2024-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const history = (mediaItemId: number, overrides: Partial<RecommendationHistory> = {}): RecommendationHistory => ({
+  media_item_id: mediaItemId,
+  shown: true,
+  shown_at: daysAgo(1),
+  created_at: daysAgo(1),
+  response: null,
+  resurface_at: null,
+  response_scope: null,
+  response_scope_value: null,
+  ...overrides
+});
+
+describe('franchiseKey', () => {
+  it('should strip sequel numbers and subtitles', () => {
+    expect(franchiseKey('Toy Story')).toEqual('toy story');
+    expect(franchiseKey('Toy Story 3')).toEqual('toy story');
+    expect(franchiseKey('Toy Story: The Lost Toys')).toEqual('toy story');
+    expect(franchiseKey('Rocky IV')).toEqual('rocky');
+    expect(franchiseKey('Dune: Part Two')).toEqual('dune');
+    expect(franchiseKey('Kill Bill Vol. 2')).toEqual('kill bill');
+    expect(franchiseKey('Mission - Impossible')).toEqual('mission');
+  });
+
+  it('should keep numbers that are part of the title', () => {
+    expect(franchiseKey('Malcolm X')).toEqual('malcolm x');
+    expect(franchiseKey('Apollo 13')).toEqual('apollo 13');
+    expect(franchiseKey('Apollo 13')).not.toEqual(franchiseKey('Apollo 18'));
+  });
+
+  it('should keep the whole title when nothing would be left of it', () => {
+    expect(franchiseKey('(500) Days of Summer')).toEqual('500 days of summer');
+    expect(franchiseKey('(T)raumschiff Surprise')).not.toEqual(franchiseKey('(500) Days of Summer'));
+  });
+
+  it('should keep hyphenated titles intact', () => {
+    expect(franchiseKey('Spider-Man 2')).toEqual('spiderman');
+    expect(franchiseKey('Spider-Man')).toEqual('spiderman');
+  });
+});
+
+describe('buildResponseExclusions', () => {
+  it('should cool down shown and skipped items only within the window', () => {
+    const exclusions = buildResponseExclusions([
+      history(1),
+      history(2, { response: 'skipped' }),
+      history(3, { shown_at: daysAgo(30) }),
+      history(4, { shown: false })
+    ], now, 14);
+
+    expect(Array.from(exclusions.media_item_ids)).toEqual([1, 2]);
+  });
+
+  it('should exclude accepted and not interested items permanently', () => {
+    const exclusions = buildResponseExclusions([
+      history(1, { response: 'accepted', shown_at: daysAgo(300) }),
+      history(2, { response: 'not_interested', response_scope: 'item', shown_at: daysAgo(300) })
+    ], now, 14);
+
+    expect(Array.from(exclusions.media_item_ids)).toEqual([1, 2]);
+  });
+
+  it('should exclude snoozed items until their resurface date', () => {
+    const exclusions = buildResponseExclusions([
+      history(1, { response: 'snoozed', resurface_at: new Date(now.getTime() + 1000) }),
+      history(2, { response: 'snoozed', resurface_at: daysAgo(0.5) })
+    ], now, 14);
+
+    expect(Array.from(exclusions.media_item_ids)).toEqual([1]);
+  });
+
+  it('should collect scoped genres and franchises', () => {
+    const exclusions = buildResponseExclusions([
+      history(1, { response: 'not_interested', response_scope: 'genre', response_scope_value: 'Horror' }),
+      history(2, { response: 'not_interested', response_scope: 'franchise', response_scope_value: 'toy story' })
+    ], now, 14);
+
+    expect(Array.from(exclusions.genres)).toEqual(['Horror']);
+    expect(Array.from(exclusions.franchises)).toEqual(['toy story']);
+    expect(isExcluded({ id: 10, title: 'Scary Night', genres: ['Horror', 'Thriller'] }, exclusions)).toBe(true);
+    expect(isExcluded({ id: 11, title: 'Toy Story 4', genres: ['Animation'] }, exclusions)).toBe(true);
+    expect(isExcluded({ id: 12, title: 'Cars', genres: ['Animation'] }, exclusions)).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { userProfilesTable, mediaItemsTable, recommendationsTable } from '../db/schema';
+import { type RespondToRecommendationInput } from '../schema';
+import { respondToRecommendation } from '../handlers/respond_to_recommendation';
+import { eq } from 'drizzle-orm';
+
+const testMediaItem = (tmdbId: number, title: string, genres: string[]) => ({
+  tmdb_id: tmdbId,
+  title,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: `${title} overview`,
+  release_date: '2023-01-01',
+  genres,
+  vote_average: '7.5',
+  vote_count: 100,
+  popularity: '20.0',
+  adult: false,
+  original_language: 'en'
+});
+
+const setup = async () => {
+  const user = await db.insert(userProfilesTable)
+    .values({ username: 'testuser', email: 'test@example.com' })
+    .returning()
+    .execute();
+
+  const media = await db.insert(mediaItemsTable)
+    .values([
+      testMediaItem(1, 'Toy Story 2', ['Animation', 'Family']),
+      testMediaItem(2, 'Toy Story 3', ['Animation', 'Comedy']),
+      testMediaItem(3, 'Scary Night', ['Horror']),
+      testMediaItem(4, 'Family Trip', ['Family'])
+    ])
+    .returning()
+    .execute();
+
+  const recommendations = await db.insert(recommendationsTable)
+    .values(media.map(item => ({
+      user_id: user[0].id,
+      session_id: null,
+      media_item_id: item.id,
+      reason: `Because of ${item.title}`,
+      score: '0.5000',
+      shown: item.tmdb_id === 1
+    })))
+    .returning()
+    .execute();
+
+  return { userId: user[0].id, media, recommendations };
+};
+
+describe('respondToRecommendation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error when neither user_id nor session_id provided', async () => {
+    const { recommendations } = await setup();
+
+    const input: RespondToRecommendationInput = {
+      recommendation_id: recommendations[0].id,
+      response: 'accepted'
+    };
+
+    await expect(respondToRecommendation(input)).rejects.toThrow(/either user_id or session_id must be provided/i);
+  });
+
+  it('should throw error for a missing recommendation', async () => {
+    const input: RespondToRecommendationInput = {
+      recommendation_id: 9999,
+      session_id: 'guest_1',
+      response: 'accepted'
+    };
+
+    await expect(respondToRecommendation(input)).rejects.toThrow(/recommendation with id 9999 does not exist/i);
+  });
+
+  it('should throw error when responding to someone else\'s recommendation', async () => {
+    const { recommendations } = await setup();
+
+    const input: RespondToRecommendationInput = {
+      recommendation_id: recommendations[0].id,
+      session_id: 'guest_1',
+      response: 'skipped'
+    };
+
+    await expect(respondToRecommendation(input)).rejects.toThrow(/does not belong to this user or session/i);
+  });
+
+  it('should record an accepted response and mark it shown', async () => {
+    const { userId, recommendations } = await setup();
+
+    const result = await respondToRecommendation({
+      recommendation_id: recommendations[2].id,
+      user_id: userId,
+      response: 'accepted'
+    });
+
+    expect(result.response).toEqual('accepted');
+    expect(result.responded_at).toBeInstanceOf(Date);
+    expect(result.shown).toBe(true);
+    expect(result.shown_at).toBeInstanceOf(Date);
+    expect(result.resurface_at).toBeNull();
+    expect(result.response_scope).toBeNull();
+    expect(typeof result.score).toBe('number');
+  });
+
+  it('should require a future resurface date to snooze', async () => {
+    const { userId, recommendations } = await setup();
+
+    await expect(respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'snoozed'
+    })).rejects.toThrow(/future resurface_at/i);
+
+    await expect(respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'snoozed',
+      resurface_at: new Date(Date.now() - 1000)
+    })).rejects.toThrow(/future resurface_at/i);
+
+    const resurfaceAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const result = await respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'snoozed',
+      resurface_at: resurfaceAt
+    });
+
+    expect(result.response).toEqual('snoozed');
+    expect(result.resurface_at).toEqual(resurfaceAt);
+  });
+
+  it('should scope not interested to a genre of the item and drop queued matches', async () => {
+    const { userId, media, recommendations } = await setup();
+
+    await expect(respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'not_interested',
+      scope: 'genre',
+      genre: 'Horror'
+    })).rejects.toThrow(/genre must be one of/i);
+
+    const result = await respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'not_interested',
+      scope: 'genre',
+      genre: 'Family'
+    });
+
+    expect(result.response_scope).toEqual('genre');
+    expect(result.response_scope_value).toEqual('Family');
+
+    // The queued family title is gone, the others stay
+    const remaining = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.user_id, userId))
+      .execute();
+    const remainingMediaIds = remaining.map(rec => rec.media_item_id);
+
+    expect(remainingMediaIds).not.toContain(media[3].id);
+    expect(remainingMediaIds).toContain(media[0].id);
+    expect(remainingMediaIds).toContain(media[1].id);
+    expect(remainingMediaIds).toContain(media[2].id);
+  });
+
+  it('should scope not interested to a franchise', async () => {
+    const { userId, media, recommendations } = await setup();
+
+    const result = await respondToRecommendation({
+      recommendation_id: recommendations[0].id,
+      user_id: userId,
+      response: 'not_interested',
+      scope: 'franchise'
+    });
+
+    expect(result.response_scope).toEqual('franchise');
+    expect(result.response_scope_value).toEqual('toy story');
+
+    const remaining = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.user_id, userId))
+      .execute();
+
+    expect(remaining.map(rec => rec.media_item_id)).not.toContain(media[1].id);
+    expect(remaining).toHaveLength(3);
+  });
+
+  it('should default not interested to the item itself', async () => {
+    const { userId, recommendations } = await setup();
+
+    const result = await respondToRecommendation({
+      recommendation_id: recommendations[2].id,
+      user_id: userId,
+      response: 'not_interested'
+    });
+
+    expect(result.response_scope).toEqual('item');
+    expect(result.response_scope_value).toBeNull();
+  });
+});
@@ -1,15 +1,24 @@
 import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { mediaItemsTable } from '../db/schema';
+import { mediaItemsTable, userPreferencesTable } from '../db/schema';
 import { type SearchInput } from '../schema';
 import { searchMedia } from '../handlers/search_media';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
 import { eq } from 'drizzle-orm';
 
 // Mock fetch for TMDB API calls
-const mockFetch = mock(() => Promise.resolve(new Response()));
+const mockFetch = mock((_url: string) => Promise.resolve(new Response()));
 (global as any).fetch = mockFetch;
 
+// TMDB genre lists, fetched to name the genre IDs of stored results
+const mockGenreLists = (url: string) => Promise.resolve(new Response(JSON.stringify({
+  genres: url.includes('/genre/movie/')
+    ? [{ id: 28, name: 'Action' }, { id: 35, name: 'Comedy' }, { id: 18, name: 'Drama' }]
+    : [{ id: 18, name: 'Drama' }, { id: 9648, name: 'Mystery' }]
+}), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
 // Mock TMDB API response
 const mockTMDBResponse = {
   page: 1,
@@ -61,6 +70,7 @@ describe('searchMedia', () => {
     // Set mock API key
     process.env['TMDB_API_KEY'] = 'test_api_key_123';
     mockFetch.mockClear();
+    mockFetch.mockImplementation(mockGenreLists);
   });
   
   afterEach(async () => {
@@ -175,6 +185,34 @@ describe('searchMedia', () => {
     expect(typeof results[0].popularity).toEqual('number');
   });
 
+  it('should apply the searcher\'s exclusions to database and TMDB results', async () => {
+    await db.insert(userPreferencesTable)
+      .values({
+        session_id: 'guest_1',
+        preferred_genres: [],
+        excluded_genres: ['Mystery'],
+        allowed_languages: []
+      })
+      .execute();
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify(mockTMDBResponse), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    );
+
+    // Fresh from TMDB: both are stored, only the allowed one is returned
+    const fromTmdb = await searchMedia({ ...testSearchInput, session_id: 'guest_1' });
+    expect(fromTmdb.map(item => item.title)).toEqual(['Test Movie']);
+    expect(await db.select().from(mediaItemsTable).execute()).toHaveLength(2);
+
+    // From the database
+    const fromDatabase = await searchMedia({ ...testSearchInput, session_id: 'guest_1' });
+    expect(fromDatabase.map(item => item.title)).toEqual(['Test Movie']);
+    // Only the first search reached TMDB (the genre lists were fetched alongside it)
+    expect(mockFetch.mock.calls.filter(([url]) => url.includes('/search/'))).toHaveLength(1);
+  });
+
   it('should filter by media type correctly', async () => {
     mockFetch.mockResolvedValueOnce(
       new Response(JSON.stringify(mockTMDBResponse), {
@@ -331,4 +369,28 @@ describe('searchMedia', () => {
     expect(results).toHaveLength(1);
     expect(results[0].title).toEqual('Valid Movie');
   });
+});
+
+describe('searchMedia with the fixture provider', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(createFixtureProvider(DEFAULT_FIXTURES_DIR));
+    mockFetch.mockClear();
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should search and store recorded titles without a network', async () => {
+    const results = await searchMedia({ query: 'matrix', media_type: 'all', page: 1 });
+
+    expect(results.map(item => item.title)).toEqual(['The Matrix']);
+    expect(results[0].genres).toEqual(['Action', 'Science Fiction']);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    const stored = await db.select().from(mediaItemsTable).where(eq(mediaItemsTable.tmdb_id, 603)).execute();
+    expect(stored).toHaveLength(1);
+  });
 });
\ No newline at end of file
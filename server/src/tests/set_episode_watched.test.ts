@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { episodeProgressTable } from '../db/schema';
+import { setEpisodeWatched } from '../handlers/set_episode_watched';
+import { getTvSeasons } from '../handlers/get_tv_seasons';
+import { createMediaItem } from '../handlers/create_media_item';
+import { DEFAULT_FIXTURES_DIR, setMetadataProvider } from '../providers/metadata_provider';
+import { createFixtureProvider } from '../providers/fixture_provider';
+
+const fixtures = createFixtureProvider(DEFAULT_FIXTURES_DIR);
+
+// Breaking Bad, synced from the fixtures; returns its first two seasons
+const syncBreakingBad = async () => {
+  const [listed] = (await fixtures.popular('tv', 1)).filter(item => item.tmdb_id === 1396);
+  const show = await createMediaItem(listed);
+  const seasons = await getTvSeasons({ media_item_id: show.id });
+  return { show, seasonOne: seasons[0].episodes, seasonTwo: seasons[1].episodes };
+};
+
+describe('setEpisodeWatched', () => {
+  beforeEach(async () => {
+    await createDB();
+    setMetadataProvider(fixtures);
+  });
+
+  afterEach(async () => {
+    setMetadataProvider(null);
+    await resetDB();
+  });
+
+  it('should mark an episode watched and return the next one up', async () => {
+    const { show, seasonOne } = await syncBreakingBad();
+
+    const progress = await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[0].id, watched: true, include_previous: false });
+
+    expect(progress.media_item_id).toEqual(show.id);
+    expect(progress.watched_episodes).toEqual(1);
+    expect(progress.aired_episodes).toEqual(20);
+    expect(progress.last_watched_episode!.name).toEqual('Pilot');
+    expect(progress.next_episode!.name).toEqual('Cat\'s in the Bag...');
+    expect(progress.last_watched_at).toBeInstanceOf(Date);
+  });
+
+  it('should not record an episode twice', async () => {
+    const { seasonOne } = await syncBreakingBad();
+
+    await setEpisodeWatched({ user_id: 1, episode_id: seasonOne[0].id, watched: true, include_previous: false });
+    await setEpisodeWatched({ user_id: 1, episode_id: seasonOne[0].id, watched: true, include_previous: false });
+
+    const rows = await db.select().from(episodeProgressTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should catch up on every earlier episode at once', async () => {
+    const { seasonOne, seasonTwo } = await syncBreakingBad();
+
+    const progress = await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonTwo[2].id, watched: true, include_previous: true });
+
+    expect(progress.watched_episodes).toEqual(seasonOne.length + 3);
+    expect(progress.next_episode!.name).toEqual('Down');
+  });
+
+  it('should unmark episodes', async () => {
+    const { seasonOne } = await syncBreakingBad();
+    await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[3].id, watched: true, include_previous: true });
+
+    const progress = await setEpisodeWatched({ session_id: 'guest_bb', episode_id: seasonOne[3].id, watched: false, include_previous: false });
+
+    expect(progress.watched_episodes).toEqual(3);
+    expect(progress.next_episode!.name).toEqual('Cancer Man');
+  });
+
+  it('should require an owner and an existing episode', async () => {
+    const { seasonOne } = await syncBreakingBad();
+
+    await expect(setEpisodeWatched({ episode_id: seasonOne[0].id, watched: true, include_previous: false }))
+      .rejects.toThrow(/Either user_id or session_id must be provided/);
+    await expect(setEpisodeWatched({ session_id: 'guest_bb', episode_id: 99999, watched: true, include_previous: false }))
+      .rejects.toThrow(/Episode with id 99999 does not exist/);
+  });
+});
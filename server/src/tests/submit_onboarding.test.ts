@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, onboardingProfilesTable, userProfilesTable } from '../db/schema';
+import { type SubmitOnboardingInput } from '../schema';
+import { submitOnboarding } from '../handlers/submit_onboarding';
+import { eq } from 'drizzle-orm';
+
+const testMediaItem = (tmdbId: number) => ({
+  tmdb_id: tmdbId,
+  title: `Title ${tmdbId}`,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'Overview',
+  release_date: '2023-01-01',
+  genres: ['Drama'],
+  vote_average: '7.5',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: 'en'
+});
+
+describe('submitOnboarding', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error when neither user_id nor session_id provided', async () => {
+    const input: SubmitOnboardingInput = { favourite_genres: ['Drama'], liked_media_item_ids: [] };
+
+    await expect(submitOnboarding(input)).rejects.toThrow(/either user_id or session_id must be provided/i);
+  });
+
+  it('should throw error for unknown users and media items', async () => {
+    await expect(submitOnboarding({
+      user_id: 99999,
+      favourite_genres: [],
+      liked_media_item_ids: []
+    })).rejects.toThrow(/user with id 99999 does not exist/i);
+
+    await expect(submitOnboarding({
+      session_id: 'guest_1',
+      favourite_genres: [],
+      liked_media_item_ids: [99999]
+    })).rejects.toThrow(/media item with id 99999 does not exist/i);
+  });
+
+  it('should store a guest session profile', async () => {
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1), testMediaItem(2)])
+      .returning()
+      .execute();
+
+    const result = await submitOnboarding({
+      session_id: 'guest_1',
+      favourite_genres: ['Comedy', 'Drama', 'Comedy'],
+      liked_media_item_ids: [media[0].id, media[1].id]
+    });
+
+    expect(result.id).toBeDefined();
+    expect(result.user_id).toBeNull();
+    expect(result.session_id).toEqual('guest_1');
+    expect(result.favourite_genres).toEqual(['Comedy', 'Drama']);
+    expect(result.seed_media_item_ids).toEqual([media[0].id, media[1].id]);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should replace earlier answers when retaking the quiz', async () => {
+    const user = await db.insert(userProfilesTable)
+      .values({ username: 'testuser', email: 'test@example.com' })
+      .returning()
+      .execute();
+    const media = await db.insert(mediaItemsTable)
+      .values([testMediaItem(1)])
+      .returning()
+      .execute();
+
+    const first = await submitOnboarding({ user_id: user[0].id, favourite_genres: ['Horror'], liked_media_item_ids: [] });
+    const second = await submitOnboarding({ user_id: user[0].id, favourite_genres: ['Drama'], liked_media_item_ids: [media[0].id] });
+
+    expect(second.id).toEqual(first.id);
+
+    const profiles = await db.select()
+      .from(onboardingProfilesTable)
+      .where(eq(onboardingProfilesTable.user_id, user[0].id))
+      .execute();
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].favourite_genres).toEqual(['Drama']);
+    expect(profiles[0].seed_media_item_ids).toEqual([media[0].id]);
+  });
+
+  it('should keep one profile per guest when answers arrive at the same time', async () => {
+    await Promise.all([
+      submitOnboarding({ session_id: 'guest_1', favourite_genres: ['Horror'], liked_media_item_ids: [] }),
+      submitOnboarding({ session_id: 'guest_1', favourite_genres: ['Drama'], liked_media_item_ids: [] })
+    ]);
+
+    const profiles = await db.select()
+      .from(onboardingProfilesTable)
+      .where(eq(onboardingProfilesTable.session_id, 'guest_1'))
+      .execute();
+
+    expect(profiles).toHaveLength(1);
+  });
+});
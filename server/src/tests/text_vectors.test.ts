@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { documentFrequencyDelta, inverseDocumentFrequency, itemTermCounts, tfidfVector } from '../lib/text_vectors';
+
+describe('itemTermCounts', () => {
+  it('should count title and overview terms without stop words', () => {
+    expect(itemTermCounts({ title: 'The Lighthouse', overview: 'Two keepers and a lighthouse on a remote island' }))
+      .toEqual({ lighthouse: 2, keepers: 1, remote: 1, island: 1 });
+  });
+});
+
+describe('tfidfVector', () => {
+  it('should weight rare terms above common ones', () => {
+    const vector = tfidfVector({ storm: 1, island: 1 }, new Map([['island', 9], ['storm', 1]]), 10);
+
+    expect(vector.get('storm')).toBeGreaterThan(vector.get('island')!);
+    expect(vector.get('island')).toBeCloseTo(inverseDocumentFrequency(9, 10), 10);
+  });
+
+  it('should fall back to plain term counts for an empty catalogue', () => {
+    expect(tfidfVector({ storm: 2 }, new Map(), 0)).toEqual(new Map([['storm', 2]]));
+  });
+});
+
+describe('documentFrequencyDelta', () => {
+  it('should add new terms and remove dropped ones regardless of their counts', () => {
+    const delta = documentFrequencyDelta({ storm: 3, island: 1 }, { island: 4, keeper: 1 });
+
+    expect(delta).toEqual(new Map([['keeper', 1], ['storm', -1]]));
+    expect(documentFrequencyDelta(null, { island: 1 })).toEqual(new Map([['island', 1]]));
+  });
+});
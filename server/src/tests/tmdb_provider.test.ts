@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createTmdbProvider, toMediaDetails, toMediaItemInput, MAX_CAST } from '../providers/tmdb_provider';
+
+const originalFetch = global.fetch;
+const mockFetch = mock(() => Promise.resolve(new Response()));
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), {
+  status: 200,
+  statusText: 'OK',
+  headers: { 'Content-Type': 'application/json' }
+});
+
+const listed = (id: number, popularity: number, extra: object) => ({
+  id,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'Overview',
+  genre_ids: [18],
+  vote_average: 7,
+  vote_count: 100,
+  popularity,
+  adult: false,
+  original_language: 'en',
+  ...extra
+});
+
+describe('createTmdbProvider', () => {
+  beforeEach(() => {
+    (global as any).fetch = mockFetch;
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should require an API key', async () => {
+    await expect(createTmdbProvider(undefined).trending('all', 'day')).rejects.toThrow(/TMDB_API_KEY environment variable is required/);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should merge movie and TV popular lists by popularity', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ page: 1, results: [listed(1, 50, { title: 'Movie' })] }))
+      .mockResolvedValueOnce(jsonResponse({ page: 1, results: [listed(2, 80, { name: 'Show' })] }));
+
+    const items = await createTmdbProvider('key').popular('all', 3);
+
+    expect(items.map(item => [item.title, item.media_type])).toEqual([['Show', 'tv'], ['Movie', 'movie']]);
+    expect(mockFetch).toHaveBeenCalledWith('https://api.themoviedb.org/3/movie/popular?api_key=key&page=3');
+    expect(mockFetch).toHaveBeenCalledWith('https://api.themoviedb.org/3/tv/popular?api_key=key&page=3');
+  });
+
+  it('should fetch details with content ratings and treat unknown titles as missing', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({
+        ...listed(1396, 140, { name: 'Breaking Bad', first_air_date: '2008-01-20' }),
+        genre_ids: undefined,
+        genres: [{ id: 18, name: 'Drama' }],
+        episode_run_time: [47],
+        content_ratings: { results: [{ iso_3166_1: 'DE', rating: '16' }, { iso_3166_1: 'US', rating: 'TV-MA' }] }
+      }))
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404, statusText: 'Not Found' }));
+    const provider = createTmdbProvider('key');
+
+    const show = await provider.details(1396, 'tv');
+    const missing = await provider.details(1, 'movie');
+
+    expect(show).toMatchObject({ title: 'Breaking Bad', media_type: 'tv', genres: ['Drama'], runtime: 47, content_rating: 'TV-MA' });
+    expect(missing).toBeNull();
+    expect(mockFetch).toHaveBeenCalledWith('https://api.themoviedb.org/3/tv/1396?api_key=key&append_to_response=credits%2Ckeywords%2Ccontent_ratings');
+  });
+
+  it('should fetch a season with its episodes', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      season_number: 1,
+      name: 'Season 1',
+      overview: '',
+      air_date: '2008-01-20',
+      poster_path: null,
+      episodes: [{ id: 62085, episode_number: 1, name: 'Pilot', overview: 'Walter White gets a diagnosis.', air_date: '2008-01-20', runtime: 58, still_path: null }]
+    }));
+    const provider = createTmdbProvider('key');
+
+    const season = await provider.season(1396, 1);
+
+    expect(season).toMatchObject({ season_number: 1, overview: null, episodes: [{ id: 62085, name: 'Pilot', runtime: 58 }] });
+    expect(mockFetch).toHaveBeenCalledWith('https://api.themoviedb.org/3/tv/1396/season/1?api_key=key');
+  });
+});
+
+describe('toMediaItemInput', () => {
+  it('should take the first US certification of a movie', () => {
+    const item = toMediaItemInput({
+      ...listed(603, 78, { title: 'The Matrix' }),
+      runtime: 136,
+      release_dates: { results: [{ iso_3166_1: 'US', release_dates: [{ certification: '' }, { certification: 'R' }] }] }
+    }, 'movie');
+
+    expect(item.runtime).toEqual(136);
+    expect(item.content_rating).toEqual('R');
+  });
+});
+
+describe('toMediaDetails', () => {
+  it('should keep the top billed cast, TV creators and key crew jobs only', () => {
+    const person = <T extends object>(id: number, extra: T) => ({ id, name: `Person ${id}`, profile_path: null, ...extra });
+    const details = toMediaDetails({
+      ...listed(1396, 140, { name: 'Breaking Bad' }),
+      tagline: 'Change the equation.',
+      status: 'Ended',
+      created_by: [person(1, {})],
+      credits: {
+        cast: Array.from({ length: MAX_CAST + 5 }, (_, index) => person(100 + index, { character: `Role ${index}`, order: MAX_CAST + 4 - index })),
+        crew: [person(2, { job: 'Producer', department: 'Production' }), person(3, { job: 'Catering', department: 'Crew' })]
+      },
+      keywords: { results: [{ id: 10, name: 'drug dealer' }] }
+    }, 'tv');
+
+    const cast = details.credits.filter(credit => credit.role === 'cast');
+    const crew = details.credits.filter(credit => credit.role === 'crew');
+    expect(details).toMatchObject({ tagline: 'Change the equation.', status: 'Ended', keywords: [{ id: 10, name: 'drug dealer' }] });
+    expect(cast).toHaveLength(MAX_CAST);
+    expect(cast[0]).toMatchObject({ person_id: 124, character: 'Role 24', order: 0 });
+    expect(crew.map(credit => [credit.person_id, credit.job])).toEqual([[1, 'Creator'], [2, 'Producer']]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test';
+import { hasAired, seasonEpisodesAreStale, summariseProgress, type ProgressEpisode } from '../lib/tv_progress';
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+let nextId = 1;
+const episode = (season_number: number, episode_number: number, air_date: string | null = '2020-01-01'): ProgressEpisode =>
+  ({ id: nextId++, season_number, episode_number, air_date });
+
+const watchedOn = (episodes: ProgressEpisode[], date: string) =>
+  episodes.map(watched => ({ episode_id: watched.id, watched_at: new Date(date) }));
+
+describe('hasAired', () => {
+  it('should count episodes airing today and treat unannounced dates as not aired', () => {
+    expect(hasAired({ air_date: '2024-06-01' }, now)).toBe(true);
+    expect(hasAired({ air_date: '2024-06-02' }, now)).toBe(false);
+    expect(hasAired({ air_date: null }, now)).toBe(false);
+  });
+});
+
+describe('summariseProgress', () => {
+  it('should start at the first episode and ignore specials', () => {
+    const special = episode(0, 1);
+    const pilot = episode(1, 1);
+    const second = episode(1, 2);
+
+    const progress = summariseProgress([second, special, pilot], [], now);
+
+    expect(progress.next_episode).toBe(pilot);
+    expect(progress.last_watched_episode).toBeNull();
+    expect(progress.aired_episodes).toEqual(2);
+    expect(progress.new_season).toBe(false);
+  });
+
+  it('should continue after the furthest episode watched, skipping gaps earlier on', () => {
+    const [a, b, c, d] = [episode(1, 1), episode(1, 2), episode(2, 1), episode(2, 2)];
+
+    const progress = summariseProgress([a, b, c, d], watchedOn([a, c], '2024-01-01'), now);
+
+    expect(progress.last_watched_episode).toBe(c);
+    expect(progress.next_episode).toBe(d);
+    expect(progress.watched_episodes).toEqual(2);
+    expect(progress.last_watched_at).toEqual(new Date('2024-01-01'));
+  });
+
+  it('should have no next episode when caught up or the next has not aired', () => {
+    const [a, b] = [episode(1, 1), episode(1, 2, '2025-01-01')];
+
+    const progress = summariseProgress([a, b], watchedOn([a], '2024-01-01'), now);
+
+    expect(progress.next_episode).toBeNull();
+    expect(progress.aired_episodes).toEqual(1);
+  });
+
+  it('should flag a season that started after the last episode was watched', () => {
+    const finale = episode(1, 8, '2022-07-01');
+    const premiere = episode(2, 1, '2024-05-01');
+
+    expect(summariseProgress([finale, premiere], watchedOn([finale], '2022-08-01'), now).new_season).toBe(true);
+    expect(summariseProgress([finale, premiere], watchedOn([finale], '2024-05-20'), now).new_season).toBe(false);
+  });
+});
+
+describe('seasonEpisodesAreStale', () => {
+  it('should refresh the latest season of a running show daily and earlier seasons rarely', () => {
+    const season = { episodes_fetched_at: new Date('2024-05-29T12:00:00Z') };
+
+    expect(seasonEpisodesAreStale(season, 'Returning Series', true, now)).toBe(true);
+    expect(seasonEpisodesAreStale(season, 'Returning Series', false, now)).toBe(false);
+    expect(seasonEpisodesAreStale({ episodes_fetched_at: null }, 'Ended', false, now)).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { mediaItemsTable, recommendationsTable, userPreferencesTable, userProfilesTable } from '../db/schema';
+import { updateUserPreferences } from '../handlers/update_user_preferences';
+import { eq } from 'drizzle-orm';
+
+const testMediaItem = (tmdbId: number, genres: string[], language: string) => ({
+  tmdb_id: tmdbId,
+  title: `Title ${tmdbId}`,
+  media_type: 'movie' as const,
+  poster_path: null,
+  backdrop_path: null,
+  overview: 'Overview',
+  release_date: '2020-01-01',
+  genres,
+  vote_average: '7.5',
+  vote_count: 100,
+  popularity: '10.0',
+  adult: false,
+  original_language: language
+});
+
+describe('updateUserPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should throw error when neither user_id nor session_id provided', async () => {
+    await expect(updateUserPreferences({ excluded_genres: ['Animation'] })).rejects.toThrow(/either user_id or session_id must be provided/i);
+  });
+
+  it('should throw error for a non-existent user', async () => {
+    await expect(updateUserPreferences({ user_id: 99999 })).rejects.toThrow(/user with id 99999 does not exist/i);
+  });
+
+  it('should reject contradictory settings', async () => {
+    await expect(updateUserPreferences({
+      session_id: 'guest_1',
+      min_release_year: 2010,
+      max_release_year: 2000
+    })).rejects.toThrow(/min_release_year must not be after max_release_year/i);
+
+    await expect(updateUserPreferences({
+      session_id: 'guest_1',
+      preferred_genres: ['Drama', 'Horror'],
+      excluded_genres: ['Horror']
+    })).rejects.toThrow(/both preferred and excluded: Horror/i);
+  });
+
+  it('should create preferences with defaults for omitted fields', async () => {
+    const user = await db.insert(userProfilesTable)
+      .values({ username: 'testuser', email: 'test@example.com' })
+      .returning()
+      .execute();
+
+    const result = await updateUserPreferences({
+      user_id: user[0].id,
+      excluded_genres: ['Animation'],
+      min_vote_average: 6.5
+    });
+
+    expect(result.user_id).toEqual(user[0].id);
+    expect(result.session_id).toBeNull();
+    expect(result.excluded_genres).toEqual(['Animation']);
+    expect(result.preferred_genres).toEqual([]);
+    expect(result.allowed_languages).toEqual([]);
+    expect(result.min_vote_average).toEqual(6.5);
+    expect(result.include_adult).toBe(false);
+  });
+
+  it('should only change the fields provided and clear bounds set to null', async () => {
+    await updateUserPreferences({ session_id: 'guest_1', allowed_languages: ['en', 'ko'], min_release_year: 1990 });
+    const result = await updateUserPreferences({ session_id: 'guest_1', min_release_year: null, include_adult: true });
+
+    expect(result.allowed_languages).toEqual(['en', 'ko']);
+    expect(result.min_release_year).toBeNull();
+    expect(result.include_adult).toBe(true);
+
+    const saved = await db.select()
+      .from(userPreferencesTable)
+      .where(eq(userPreferencesTable.session_id, 'guest_1'))
+      .execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should drop queued recommendations the new exclusions rule out', async () => {
+    const media = await db.insert(mediaItemsTable)
+      .values([
+        testMediaItem(1, ['Animation'], 'ja'),
+        testMediaItem(2, ['Drama'], 'ja'),
+        testMediaItem(3, ['Drama'], 'en')
+      ])
+      .returning()
+      .execute();
+    await db.insert(recommendationsTable)
+      .values(media.map(item => ({
+        session_id: 'guest_1',
+        media_item_id: item.id,
+        reason: 'Recommended for you',
+        score: '0.5000',
+        shown: item.tmdb_id === 2 // Already shown rows are history and stay
+      })))
+      .execute();
+
+    await updateUserPreferences({ session_id: 'guest_1', excluded_genres: ['Animation'], allowed_languages: ['en'] });
+
+    const remaining = await db.select()
+      .from(recommendationsTable)
+      .where(eq(recommendationsTable.session_id, 'guest_1'))
+      .execute();
+
+    expect(remaining.map(rec => rec.media_item_id).sort()).toEqual([media[1].id, media[2].id].sort());
+  });
+
+  it('should keep one row per guest when updates arrive at the same time', async () => {
+    await Promise.all([
+      updateUserPreferences({ session_id: 'guest_1', excluded_genres: ['Horror'] }),
+      updateUserPreferences({ session_id: 'guest_1', excluded_genres: ['Animation'] })
+    ]);
+
+    const rows = await db.select()
+      .from(userPreferencesTable)
+      .where(eq(userPreferencesTable.session_id, 'guest_1'))
+      .execute();
+
+    expect(rows).toHaveLength(1);
+  });
+});